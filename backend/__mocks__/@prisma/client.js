@@ -1,4 +1,21 @@
 // Mock for Prisma Client to avoid database connections in Jest
+const mockSigningKeys = [];
+
+// Default role set, shaped like prisma.role.findMany with permissions included
+const mockRole = (name, permissions) => ({
+  id: `role_${name}`,
+  name,
+  description: null,
+  isSystem: true,
+  permissions: permissions.map(permission => ({ permission: { name: permission } }))
+});
+const adminPermissions = ['admin:access', 'users:read', 'users:update', 'users:impersonate', 'audit:read', 'ip_lists:manage', 'jwt_keys:manage'];
+const mockRoles = [
+  mockRole('user', []),
+  mockRole('admin', adminPermissions),
+  mockRole('super_admin', [...adminPermissions, 'roles:assign'])
+];
+
 const mockPrismaClient = {
   user: {
     findUnique: jest.fn().mockImplementation(({ where }) => {
@@ -12,6 +29,7 @@ const mockPrismaClient = {
           username: payload.username || 'testuser',
           role: payload.role || 'user',
           emailVerified: true,
+          emailVerifiedAt: new Date(),
           firstName: 'Test',
           lastName: 'User',
           isLocked: false,
@@ -27,6 +45,7 @@ const mockPrismaClient = {
     findMany: jest.fn(),
     create: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn().mockResolvedValue({ count: 0 }),
     delete: jest.fn(),
     deleteMany: jest.fn(),
     count: jest.fn(),
@@ -38,6 +57,7 @@ const mockPrismaClient = {
     findMany: jest.fn(),
     create: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn().mockResolvedValue({ count: 0 }),
     delete: jest.fn(),
     deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
     count: jest.fn(),
@@ -49,6 +69,7 @@ const mockPrismaClient = {
     findMany: jest.fn(),
     create: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn().mockResolvedValue({ count: 0 }),
     delete: jest.fn(),
     deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
     count: jest.fn(),
@@ -76,6 +97,16 @@ const mockPrismaClient = {
     count: jest.fn(),
     upsert: jest.fn()
   },
+  webAuthnCredential: {
+    findUnique: jest.fn().mockResolvedValue(null),
+    findMany: jest.fn().mockResolvedValue([]),
+    update: jest.fn()
+  },
+  webAuthnChallenge: {
+    findFirst: jest.fn().mockResolvedValue(null),
+    create: jest.fn(),
+    deleteMany: jest.fn().mockResolvedValue({ count: 0 })
+  },
   tokenBlacklist: {
     findUnique: jest.fn().mockResolvedValue(null),
     findFirst: jest.fn(),
@@ -87,9 +118,105 @@ const mockPrismaClient = {
     count: jest.fn(),
     upsert: jest.fn()
   },
+  passwordResetToken: {
+    findUnique: jest.fn().mockResolvedValue(null),
+    findMany: jest.fn().mockResolvedValue([]),
+    create: jest.fn(),
+    updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    deleteMany: jest.fn().mockResolvedValue({ count: 0 })
+  },
+  recoveryCode: {
+    createMany: jest.fn().mockResolvedValue({ count: 0 }),
+    updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+    count: jest.fn().mockResolvedValue(0)
+  },
+  membership: {
+    findUnique: jest.fn().mockResolvedValue(null),
+    findFirst: jest.fn().mockResolvedValue(null),
+    findMany: jest.fn().mockResolvedValue([]),
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    count: jest.fn().mockResolvedValue(0)
+  },
+  organizationInvitation: {
+    findUnique: jest.fn().mockResolvedValue(null),
+    findMany: jest.fn().mockResolvedValue([]),
+    create: jest.fn(),
+    updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    deleteMany: jest.fn().mockResolvedValue({ count: 0 })
+  },
+  apiKey: {
+    findUnique: jest.fn().mockResolvedValue(null),
+    findMany: jest.fn().mockResolvedValue([]),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    count: jest.fn().mockResolvedValue(0)
+  },
+  webhookEndpoint: {
+    findUnique: jest.fn().mockResolvedValue(null),
+    findMany: jest.fn().mockResolvedValue([]),
+    create: jest.fn(),
+    update: jest.fn(),
+    deleteMany: jest.fn().mockResolvedValue({ count: 0 })
+  },
+  webhookDelivery: {
+    findUnique: jest.fn().mockResolvedValue(null),
+    findMany: jest.fn().mockResolvedValue([]),
+    create: jest.fn(),
+    createMany: jest.fn().mockResolvedValue({ count: 0 }),
+    update: jest.fn(),
+    updateMany: jest.fn().mockResolvedValue({ count: 0 })
+  },
+  ipReputation: {
+    findUnique: jest.fn().mockResolvedValue(null),
+    upsert: jest.fn(),
+    deleteMany: jest.fn().mockResolvedValue({ count: 0 })
+  },
+  ipListEntry: {
+    findUnique: jest.fn().mockResolvedValue(null),
+    findMany: jest.fn().mockResolvedValue([]),
+    upsert: jest.fn().mockImplementation(({ create }) => Promise.resolve({
+      id: `ip-list-entry-${create.ipAddress}`,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...create
+    })),
+    delete: jest.fn(),
+    deleteMany: jest.fn().mockResolvedValue({ count: 0 })
+  },
+  ipListChange: {
+    findMany: jest.fn().mockResolvedValue([]),
+    create: jest.fn(),
+    createMany: jest.fn().mockResolvedValue({ count: 0 })
+  },
+  role: {
+    findMany: jest.fn().mockImplementation(() => Promise.resolve(mockRoles))
+  },
+  signingKey: {
+    findMany: jest.fn().mockImplementation(() => Promise.resolve(mockSigningKeys)),
+    create: jest.fn().mockImplementation(({ data }) => {
+      const key = {
+        id: `signing-key-${mockSigningKeys.length + 1}`,
+        status: 'active',
+        retiredAt: null,
+        expiresAt: null,
+        createdAt: new Date(),
+        ...data
+      };
+      mockSigningKeys.unshift(key);
+      return Promise.resolve(key);
+    }),
+    updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+    deleteMany: jest.fn().mockResolvedValue({ count: 0 })
+  },
   $connect: jest.fn().mockResolvedValue(undefined),
   $disconnect: jest.fn().mockResolvedValue(undefined),
-  $transaction: jest.fn((callback) => callback(mockPrismaClient))
+  $transaction: jest.fn((operations) => typeof operations === 'function'
+    ? operations(mockPrismaClient)
+    : Promise.all(operations))
 };
 
 module.exports = {
@@ -33,6 +33,9 @@ module.exports = {
       return 'mock.jwt.token';
     }
   },
+  generateKeyPair: jest.fn().mockResolvedValue({ publicKey: {}, privateKey: {} }),
+  exportJWK: jest.fn().mockResolvedValue({ kty: 'EC', crv: 'P-256', x: 'mock-x', y: 'mock-y' }),
+  importJWK: jest.fn().mockResolvedValue({}),
   jwtVerify: jest.fn().mockImplementation((token, secret) => {
     if (token === 'mock.jwt.token') {
       // Get the stored payload from the SignJWT mock
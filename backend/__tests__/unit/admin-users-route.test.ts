@@ -0,0 +1,125 @@
+import { PUT } from '@/app/api/admin/users/[id]/route'
+import { authMiddleware } from '@/middlewares/auth'
+import { auditService } from '@/lib/audit-service'
+import { prisma } from '@/lib/prisma'
+import { TestHelpers } from '../utils/test-helpers'
+
+jest.mock('../../middlewares/auth', () => ({
+  authMiddleware: { authorizeAdmin: jest.fn(), getClientIP: jest.fn(() => '203.0.113.7') },
+}))
+
+jest.mock('../../lib/audit-service', () => ({
+  auditService: { record: jest.fn(), requestContext: jest.fn(() => ({})) },
+}))
+
+const adminPermissions = ['admin:access', 'users:read', 'users:update']
+const superAdminPermissions = [
+  'admin:access', 'users:read', 'users:update', 'users:impersonate',
+  'audit:read', 'ip_lists:manage', 'jwt_keys:manage', 'roles:assign',
+]
+
+describe('Admin Users Route', () => {
+  function signInAs(permissions: string[]) {
+    ;(authMiddleware.authorizeAdmin as jest.Mock).mockResolvedValueOnce({
+      user: { id: 'admin-id', email: 'admin@example.com', username: 'admin', role: 'admin', permissions },
+    })
+  }
+
+  function updateUser(body: Record<string, unknown>, target = { id: 'user-id', role: 'user' }) {
+    ;(prisma.user.findUnique as jest.Mock).mockResolvedValue({ ...target, isLocked: false, lockedUntil: null })
+    ;(prisma.user.update as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ ...target, ...data }))
+
+    const request = TestHelpers.createMockRequest('PUT', `/api/admin/users/${target.id}`, body)
+    return PUT(request, { params: Promise.resolve({ id: target.id }) })
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('locking', () => {
+    it('should mark the lock as set by an admin and record the reason', async () => {
+      signInAs(adminPermissions)
+
+      const response = await updateUser({ isLocked: true, reason: 'Chargeback under investigation' })
+
+      expect(response.status).toBe(200)
+      expect((prisma.user.update as jest.Mock).mock.calls[0][0].data).toEqual({
+        isLocked: true,
+        lockedUntil: null,
+        adminLockedAt: expect.any(Date),
+        lockReason: 'Chargeback under investigation',
+      })
+      expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'account.locked',
+        actorId: 'admin-id',
+        targetId: 'user-id',
+        metadata: expect.objectContaining({ reason: 'Chargeback under investigation' }),
+      }))
+    })
+
+    it('should clear the admin lock when unlocking', async () => {
+      signInAs(adminPermissions)
+
+      await updateUser({ isLocked: false })
+
+      expect((prisma.user.update as jest.Mock).mock.calls[0][0].data).toEqual({
+        isLocked: false,
+        lockedUntil: null,
+        adminLockedAt: null,
+        lockReason: null,
+      })
+    })
+
+    it('should reject a reason when unlocking', async () => {
+      signInAs(adminPermissions)
+
+      const response = await updateUser({ isLocked: false, reason: 'Resolved' })
+
+      expect(response.status).toBe(400)
+      expect(prisma.user.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('role changes', () => {
+    it('should require roles:assign', async () => {
+      signInAs(adminPermissions)
+
+      const response = await updateUser({ role: 'admin' })
+
+      expect(response.status).toBe(403)
+      expect(prisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('should not hand out permissions the admin lacks', async () => {
+      signInAs([...adminPermissions, 'roles:assign'])
+
+      const response = await updateUser({ role: 'admin' })
+
+      expect(response.status).toBe(403)
+      expect(prisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('should change the role and record it', async () => {
+      signInAs(superAdminPermissions)
+
+      const response = await updateUser({ role: 'admin' })
+
+      expect(response.status).toBe(200)
+      expect((prisma.user.update as jest.Mock).mock.calls[0][0].data).toEqual({ role: 'admin' })
+      expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'role.changed',
+        metadata: { from: 'user', to: 'admin' },
+      }))
+    })
+  })
+
+  it('should not let admins manage themselves', async () => {
+    signInAs(superAdminPermissions)
+
+    const response = await updateUser({ isLocked: true }, { id: 'admin-id', role: 'admin' })
+
+    expect(response.status).toBe(403)
+    expect(prisma.user.update).not.toHaveBeenCalled()
+  })
+})
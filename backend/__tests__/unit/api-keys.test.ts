@@ -0,0 +1,123 @@
+import { createHash } from 'crypto'
+import { POST } from '@/app/api/auth/api-keys/route'
+import { apiKeyService } from '@/lib/api-key-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { prisma } from '@/lib/prisma'
+import { TestHelpers } from '../utils/test-helpers'
+
+jest.mock('../../middlewares/auth', () => {
+  const { AuthMiddleware } = jest.requireActual('../../middlewares/auth')
+  return {
+    authMiddleware: Object.assign(jest.fn(), {
+      rejectImpersonation: AuthMiddleware.rejectImpersonation,
+      rejectApiKey: AuthMiddleware.rejectApiKey,
+    }),
+  }
+})
+
+jest.mock('../../middlewares/rate-limit', () => ({
+  RateLimiter: { checkRateLimit: jest.fn().mockResolvedValue({ allowed: true }) },
+  RATE_LIMIT_CONFIGS: { AUTH_PROFILE: {} },
+}))
+
+jest.mock('../../lib/audit-service', () => ({
+  auditService: { record: jest.fn(), requestContext: jest.fn(() => ({})) },
+}))
+
+describe('API Keys', () => {
+  const storedKey = {
+    id: 'api-key-id',
+    userId: 'user-id',
+    name: 'CI',
+    prefix: 'nnk_abcdefgh',
+    scopes: ['read', 'users:read'],
+    expiresAt: null,
+    revokedAt: null,
+    lastUsedAt: null,
+    lastUsedIp: null,
+    createdAt: new Date(),
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('apiKeyService', () => {
+    it('should store only a hash of the key and deduplicate scopes', async () => {
+      ;(prisma.apiKey.create as jest.Mock).mockImplementationOnce(({ data }) => Promise.resolve({ ...storedKey, ...data }))
+
+      const created = await apiKeyService.createKey({ userId: 'user-id', name: 'CI', scopes: ['read', 'read', 'users:read'] })
+
+      const { data } = (prisma.apiKey.create as jest.Mock).mock.calls[0][0]
+      expect(data.keyHash).toBe(createHash('sha256').update(created!.key).digest('hex'))
+      expect(data.prefix).toBe(created!.key.slice(0, 12))
+      expect(data.scopes).toEqual(['read', 'users:read'])
+      expect(created!.apiKey).not.toHaveProperty('keyHash')
+    })
+
+    it('should refuse new keys once the limit is reached', async () => {
+      ;(prisma.apiKey.count as jest.Mock).mockResolvedValueOnce(25)
+
+      expect(await apiKeyService.createKey({ userId: 'user-id', name: 'CI', scopes: ['read'] })).toBeNull()
+      expect(prisma.apiKey.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject revoked and expired keys', async () => {
+      ;(prisma.apiKey.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ ...storedKey, revokedAt: new Date() })
+        .mockResolvedValueOnce({ ...storedKey, expiresAt: new Date(Date.now() - 1000) })
+
+      expect(await apiKeyService.verifyKey('nnk_revoked')).toBeNull()
+      expect(await apiKeyService.verifyKey('nnk_expired')).toBeNull()
+      expect(prisma.apiKey.update).not.toHaveBeenCalled()
+    })
+
+    it('should return the scopes of a valid key and record its use', async () => {
+      ;(prisma.apiKey.findUnique as jest.Mock).mockResolvedValueOnce(storedKey)
+
+      const verified = await apiKeyService.verifyKey('nnk_valid', { ipAddress: '203.0.113.7' })
+
+      expect(verified).toEqual({ id: 'api-key-id', userId: 'user-id', name: 'CI', scopes: ['read', 'users:read'] })
+      expect(prisma.apiKey.update).toHaveBeenCalledWith({
+        where: { id: 'api-key-id' },
+        data: { lastUsedAt: expect.any(Date), lastUsedIp: '203.0.113.7' },
+      })
+    })
+  })
+
+  describe('POST /api/auth/api-keys', () => {
+    function createKey(body: Record<string, unknown>, auth: Record<string, unknown> = {}) {
+      ;(authMiddleware as unknown as jest.Mock).mockResolvedValueOnce({
+        authenticated: true,
+        user: { id: 'user-id', email: 'user@example.com', username: 'user', role: 'user', permissions: [] },
+        ...auth,
+      })
+
+      return POST(TestHelpers.createMockRequest('POST', '/api/auth/api-keys', body))
+    }
+
+    it('should not let API keys create keys', async () => {
+      const response = await createKey(
+        { name: 'CI', scopes: ['read'] },
+        { apiKey: { id: 'api-key-id', name: 'CI', scopes: ['write'] } }
+      )
+
+      expect(response.status).toBe(403)
+      expect((await response.json()).error.code).toBe('API_KEY_FORBIDDEN')
+      expect(prisma.apiKey.create).not.toHaveBeenCalled()
+    })
+
+    it('should not grant permissions the user does not hold', async () => {
+      const response = await createKey({ name: 'CI', scopes: ['read', 'users:read'] })
+
+      expect(response.status).toBe(403)
+      expect(prisma.apiKey.create).not.toHaveBeenCalled()
+    })
+
+    it('should require a read or write scope', async () => {
+      const response = await createKey({ name: 'CI', scopes: ['users:read'] })
+
+      expect(response.status).toBe(400)
+    })
+  })
+})
@@ -1,4 +1,6 @@
 import { AuthMiddleware } from '@/middlewares/auth'
+import { jwtService } from '@/lib/jwt-service'
+import { prisma } from '@/lib/prisma'
 import { TestHelpers, DatabaseTestUtils } from '../utils/test-helpers'
 import { NextRequest } from 'next/server'
 
@@ -182,6 +184,228 @@ describe('Auth Middleware', () => {
     })
   })
 
+  describe('Permission Validation', () => {
+    const requestWithRole = async (role: string) => {
+      const token = await TestHelpers.generateTestToken('permission-user-id', role)
+      return TestHelpers.createMockRequest({
+        headers: { 'Authorization': `Bearer ${token}` }
+      })
+    }
+
+    it('should resolve the permissions of the user role', async () => {
+      const result = await AuthMiddleware.validateAuth(await requestWithRole('admin'))
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.context.user.permissions).toContain('users:read')
+        expect(result.context.user.permissions).not.toContain('roles:assign')
+      }
+    })
+
+    it('should reject users missing a required permission', async () => {
+      const result = await AuthMiddleware.validateAuth(await requestWithRole('admin'), {
+        requiredPermissions: ['users:read', 'roles:assign']
+      })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.status).toBe(403)
+      }
+    })
+
+    it('should accept users holding every required permission', async () => {
+      const result = await AuthMiddleware.validateAuth(await requestWithRole('super_admin'), {
+        requiredPermissions: ['users:read', 'roles:assign']
+      })
+
+      expect(result.success).toBe(true)
+    })
+
+    it('should answer admin requests lacking the permission with 403', async () => {
+      const result = await AuthMiddleware.authorizeAdmin(await requestWithRole('admin'), 'roles:assign')
+
+      expect(result.user).toBeUndefined()
+      expect(result.response?.status).toBe(403)
+    })
+
+    it('should return the admin holding the permission', async () => {
+      const result = await AuthMiddleware.authorizeAdmin(await requestWithRole('super_admin'), 'roles:assign')
+
+      expect(result.response).toBeUndefined()
+      expect(result.user?.permissions).toContain('roles:assign')
+    })
+  })
+
+  describe('API Keys', () => {
+    const apiKey = {
+      id: 'api-key-id',
+      userId: 'api-key-user-id',
+      name: 'Deploy script',
+      scopes: ['read', 'users:read', 'roles:assign'],
+      expiresAt: null,
+      lastUsedAt: new Date(),
+      revokedAt: null,
+    }
+
+    const apiKeyUser = {
+      id: 'api-key-user-id',
+      email: 'script@example.com',
+      username: 'script',
+      role: 'admin',
+      emailVerifiedAt: new Date(),
+      isLocked: false,
+      lockedUntil: null,
+    }
+
+    const requestWithKey = (method: string = 'GET') => TestHelpers.createMockRequest({
+      method,
+      headers: { 'Authorization': 'Bearer nnk_test-api-key' }
+    })
+
+    it('should authenticate with an API key limited to its scopes and the role', async () => {
+      ;(prisma.apiKey.findUnique as jest.Mock).mockResolvedValueOnce(apiKey)
+      ;(prisma.user.findUnique as jest.Mock).mockResolvedValueOnce(apiKeyUser)
+
+      const result = await AuthMiddleware.validateAuth(requestWithKey())
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.context.user.id).toBe('api-key-user-id')
+        expect(result.context.user.permissions).toEqual(['users:read'])
+        expect(result.context.apiKey?.id).toBe('api-key-id')
+        expect(result.context.token).toBeUndefined()
+      }
+    })
+
+    it('should reject writes with a read-only API key', async () => {
+      ;(prisma.apiKey.findUnique as jest.Mock).mockResolvedValueOnce(apiKey)
+
+      const result = await AuthMiddleware.validateAuth(requestWithKey('POST'))
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.status).toBe(403)
+      }
+    })
+
+    it('should reject revoked API keys', async () => {
+      ;(prisma.apiKey.findUnique as jest.Mock).mockResolvedValueOnce({ ...apiKey, revokedAt: new Date() })
+
+      const result = await AuthMiddleware.validateAuth(requestWithKey())
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.status).toBe(401)
+      }
+    })
+  })
+
+  describe('Impersonation', () => {
+    const user = {
+      id: 'user-id',
+      email: 'user@example.com',
+      username: 'user',
+      role: 'user',
+      emailVerifiedAt: new Date(),
+      isLocked: false,
+      lockedUntil: null,
+    }
+    const admin = { id: 'admin-id', username: 'support', role: 'admin' }
+    const impersonationSession = {
+      id: 'session-id',
+      sessionToken: 'hashed-session-token',
+      deviceType: 'desktop',
+      ipAddress: null,
+      impersonatorId: admin.id,
+      expires: new Date(Date.now() + 15 * 60 * 1000),
+    }
+
+    const impersonationRequest = async () => {
+      const { token } = await jwtService.generateAccessToken({
+        sub: user.id,
+        email: user.email,
+        username: user.username,
+        role: user.role,
+        sessionId: impersonationSession.id,
+        act: { sub: admin.id },
+      })
+
+      return TestHelpers.createMockRequest({
+        headers: { 'Authorization': `Bearer ${token}` }
+      })
+    }
+
+    it('should identify the impersonating admin', async () => {
+      const request = await impersonationRequest()
+      ;(prisma.session.findUnique as jest.Mock).mockResolvedValueOnce(impersonationSession)
+      ;(prisma.user.findUnique as jest.Mock)
+        .mockResolvedValueOnce(user)
+        .mockResolvedValueOnce(admin)
+
+      const result = await AuthMiddleware.validateAuth(request)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.context.user.id).toBe(user.id)
+        expect(result.context.impersonator).toEqual({ id: admin.id, username: admin.username })
+        expect(AuthMiddleware.rejectImpersonation(result.context)?.status).toBe(403)
+      }
+    })
+
+    it('should reject tokens whose session was not issued to the admin', async () => {
+      const request = await impersonationRequest()
+      ;(prisma.session.findUnique as jest.Mock).mockResolvedValueOnce({ ...impersonationSession, impersonatorId: null })
+
+      const result = await AuthMiddleware.validateAuth(request)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBe('Impersonation is no longer valid')
+      }
+    })
+
+    it('should reject tokens once the admin has lost admin access', async () => {
+      const request = await impersonationRequest()
+      ;(prisma.session.findUnique as jest.Mock).mockResolvedValueOnce(impersonationSession)
+      ;(prisma.user.findUnique as jest.Mock)
+        .mockResolvedValueOnce(user)
+        .mockResolvedValueOnce({ ...admin, role: 'user' })
+
+      const result = await AuthMiddleware.validateAuth(request)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBe('Impersonation is no longer valid')
+      }
+    })
+
+    it('should allow sensitive operations without impersonation', () => {
+      expect(AuthMiddleware.rejectImpersonation({})).toBeNull()
+    })
+  })
+
+  describe('Revoked Sessions', () => {
+    it('should reject tokens issued for a revoked session', async () => {
+      const { token } = await jwtService.generateAccessToken({
+        sub: 'session-user-id',
+        email: 'session-user@example.com',
+        username: 'sessionuser',
+        role: 'user',
+        sessionId: 'revoked-session-id',
+      })
+      const request = TestHelpers.createMockRequest({
+        headers: { 'Authorization': `Bearer ${token}` }
+      })
+
+      const result = await AuthMiddleware.validateAuth(request)
+
+      expect(result).toEqual({ success: false, error: 'Session has been revoked', status: 401 })
+      expect(prisma.session.findUnique).toHaveBeenCalledWith({
+        where: { id: 'revoked-session-id', isActive: true },
+      })
+    })
+  })
+
   describe('Error Handling', () => {
     it('should handle malformed Authorization header', async () => {
       const request = TestHelpers.createMockRequest({
@@ -0,0 +1,80 @@
+import { createClientIPConfig, parseForwardedHeader, resolveClientIP } from '@/lib/client-ip'
+
+const headers = (values: Record<string, string>) => new Headers(values)
+
+describe('Client IP resolution', () => {
+  describe('X-Forwarded-For', () => {
+    const oneProxy = createClientIPConfig({ trustedHops: 1 })
+
+    it('should use the address appended by the trusted proxy', () => {
+      expect(resolveClientIP(headers({ 'x-forwarded-for': '203.0.113.7' }), oneProxy)).toBe('203.0.113.7')
+    })
+
+    it('should ignore addresses a client prepended', () => {
+      const forged = headers({ 'x-forwarded-for': '10.0.0.1, 1.2.3.4, 203.0.113.7' })
+
+      expect(resolveClientIP(forged, oneProxy)).toBe('203.0.113.7')
+    })
+
+    it('should count back one entry per trusted hop', () => {
+      const chain = headers({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7, 198.51.100.2' })
+
+      expect(resolveClientIP(chain, createClientIPConfig({ trustedHops: 2 }))).toBe('203.0.113.7')
+      expect(resolveClientIP(chain, createClientIPConfig({ trustedHops: 5 }))).toBe('1.2.3.4')
+    })
+
+    it('should skip proxies trusted by address', () => {
+      const config = createClientIPConfig({ trustedHops: 1, trustedProxies: ['198.51.100.0/24', '2001:db8::/32'] })
+      const chain = headers({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7, 2001:db8::10, 198.51.100.2' })
+
+      expect(resolveClientIP(chain, config)).toBe('203.0.113.7')
+    })
+
+    it('should canonicalize addresses and drop ports', () => {
+      expect(resolveClientIP(headers({ 'x-forwarded-for': '203.0.113.7:51234' }), oneProxy)).toBe('203.0.113.7')
+      expect(resolveClientIP(headers({ 'x-forwarded-for': '[2001:DB8:0::1]:443' }), oneProxy)).toBe('2001:db8::1')
+      expect(resolveClientIP(headers({ 'x-forwarded-for': '::ffff:203.0.113.7' }), oneProxy)).toBe('203.0.113.7')
+    })
+
+    it('should return unknown without a trustworthy address', () => {
+      expect(resolveClientIP(headers({}), oneProxy)).toBe('unknown')
+      expect(resolveClientIP(headers({ 'x-forwarded-for': 'garbage' }), oneProxy)).toBe('unknown')
+      expect(resolveClientIP(headers({ 'x-forwarded-for': '203.0.113.7' }), createClientIPConfig({ trustedHops: 0 }))).toBe('unknown')
+    })
+  })
+
+  describe('Forwarded', () => {
+    const config = createClientIPConfig({ header: 'Forwarded', trustedHops: 1 })
+
+    it('should parse the for parameter of each element', () => {
+      expect(parseForwardedHeader('for=192.0.2.60;proto=http;by=203.0.113.43, proto=https, For="[2001:db8:cafe::17]:4711"'))
+        .toEqual(['192.0.2.60', null, '[2001:db8:cafe::17]:4711'])
+      expect(parseForwardedHeader('for="_gazonk"')).toEqual(['_gazonk'])
+    })
+
+    it('should resolve the client from the last element', () => {
+      const forwarded = headers({ forwarded: 'for=1.2.3.4, for="[2001:db8:cafe::17]:4711";proto=https' })
+
+      expect(resolveClientIP(forwarded, config)).toBe('2001:db8:cafe::17')
+    })
+
+    it('should ignore X-Forwarded-For when Forwarded is configured', () => {
+      const spoofed = headers({ 'x-forwarded-for': '1.2.3.4', forwarded: 'for=203.0.113.7' })
+
+      expect(resolveClientIP(spoofed, config)).toBe('203.0.113.7')
+    })
+
+    it('should treat obfuscated identifiers as unknown', () => {
+      expect(resolveClientIP(headers({ forwarded: 'for=unknown' }), config)).toBe('unknown')
+    })
+  })
+
+  describe('Single-address headers', () => {
+    it('should read the configured header as is', () => {
+      const config = createClientIPConfig({ header: 'x-real-ip' })
+      const request = headers({ 'x-real-ip': '203.0.113.7', 'x-forwarded-for': '1.2.3.4' })
+
+      expect(resolveClientIP(request, config)).toBe('203.0.113.7')
+    })
+  })
+})
@@ -0,0 +1,51 @@
+import { deriveEncryptionKey, encrypt, decrypt } from '@/lib/encryption'
+
+describe('Encryption', () => {
+  const key = deriveEncryptionKey(['TEST_ENCRYPTION_KEY'], 'test-fallback')
+
+  it('should round-trip values with a fresh IV each time', () => {
+    const first = encrypt('JBSWY3DPEHPK3PXP', key)
+    const second = encrypt('JBSWY3DPEHPK3PXP', key)
+
+    expect(first).not.toBe(second)
+    expect(decrypt(first, key)).toBe('JBSWY3DPEHPK3PXP')
+  })
+
+  it('should reject tampered ciphertext', () => {
+    const [iv, authTag, encrypted] = encrypt('secret', key).split('.')
+    const tampered = Buffer.from(encrypted, 'base64url')
+    tampered[0] ^= 1
+
+    expect(() => decrypt([iv, authTag, tampered.toString('base64url')].join('.'), key)).toThrow()
+  })
+
+  it('should not decrypt with another key', () => {
+    const otherKey = deriveEncryptionKey(['TEST_ENCRYPTION_KEY'], 'other-fallback')
+
+    expect(() => decrypt(encrypt('secret', key), otherKey)).toThrow()
+  })
+
+  describe('deriveEncryptionKey', () => {
+    const env = process.env as Record<string, string | undefined>
+    const originalNodeEnv = env.NODE_ENV
+
+    afterEach(() => {
+      env.NODE_ENV = originalNodeEnv
+      delete env.TEST_ENCRYPTION_KEY
+    })
+
+    it('should prefer the first configured variable', () => {
+      env.TEST_ENCRYPTION_KEY = 'configured-key'
+
+      expect(deriveEncryptionKey(['UNSET_ENCRYPTION_KEY', 'TEST_ENCRYPTION_KEY'], 'fallback'))
+        .toEqual(deriveEncryptionKey(['TEST_ENCRYPTION_KEY'], 'other-fallback'))
+    })
+
+    it('should refuse the development fallback in production', () => {
+      env.NODE_ENV = 'production'
+
+      expect(() => deriveEncryptionKey(['TEST_ENCRYPTION_KEY'], 'fallback'))
+        .toThrow('One of TEST_ENCRYPTION_KEY is required in production')
+    })
+  })
+})
@@ -0,0 +1,111 @@
+import { POST } from '@/app/api/admin/users/[id]/impersonate/route'
+import { impersonationService } from '@/lib/impersonation-service'
+import { sessionService } from '@/lib/session-service'
+import { jwtService } from '@/lib/jwt-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { auditService } from '@/lib/audit-service'
+import { prisma } from '@/lib/prisma'
+import { TestHelpers } from '../utils/test-helpers'
+
+jest.mock('../../middlewares/auth', () => ({
+  authMiddleware: { authorizeAdmin: jest.fn(), getClientIP: jest.fn(() => '203.0.113.7') },
+}))
+
+jest.mock('../../lib/audit-service', () => ({
+  auditService: { record: jest.fn(), requestContext: jest.fn(() => ({ ipAddress: '203.0.113.7' })) },
+}))
+
+describe('Impersonation', () => {
+  const admin = { id: 'admin-id', email: 'admin@example.com', username: 'support', role: 'admin' }
+  const user = { id: 'user-id', email: 'user@example.com', username: 'user', role: 'user' }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(sessionService, 'createSession').mockResolvedValue({ session: { id: 'session-id' } } as never)
+    jest.spyOn(jwtService, 'generateAccessToken').mockResolvedValue({
+      token: 'impersonation-token',
+      expiresAt: new Date(Date.now() + 15 * 60 * 1000),
+    } as never)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('impersonationService', () => {
+    it('should issue a token naming the admin for a session without a refresh token', async () => {
+      const result = await impersonationService.start({ admin, user, ipAddress: '203.0.113.7' })
+
+      expect(result.accessToken).toBe('impersonation-token')
+      expect((sessionService.createSession as jest.Mock).mock.calls[0][0]).toMatchObject({
+        userId: user.id,
+        impersonatorId: admin.id,
+      })
+      expect(jwtService.generateAccessToken).toHaveBeenCalledWith(
+        expect.objectContaining({ sub: user.id, sessionId: 'session-id', act: { sub: admin.id } }),
+        { expiresIn: '15m' }
+      )
+    })
+
+    it('should cap the duration at an hour', async () => {
+      await impersonationService.start({ admin, user, durationMinutes: 240 })
+
+      expect((jwtService.generateAccessToken as jest.Mock).mock.calls[0][1]).toEqual({ expiresIn: '60m' })
+    })
+
+    it('should only end impersonation sessions', async () => {
+      expect(await impersonationService.end('session-id')).toBe(false)
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-id', impersonatorId: { not: null }, isActive: true },
+        data: { isActive: false },
+      })
+    })
+  })
+
+  describe('POST /api/admin/users/:id/impersonate', () => {
+    function impersonate(target: Record<string, unknown>) {
+      ;(authMiddleware.authorizeAdmin as jest.Mock).mockResolvedValueOnce({
+        user: { ...admin, permissions: ['admin:access', 'users:read', 'users:impersonate'] },
+      })
+      ;(prisma.user.findUnique as jest.Mock).mockResolvedValueOnce({ isLocked: false, lockedUntil: null, ...target })
+
+      const request = TestHelpers.createMockRequest('POST', `/api/admin/users/${target.id}/impersonate`, {
+        reason: 'Support ticket 1234',
+      })
+      return POST(request, { params: Promise.resolve({ id: target.id as string }) })
+    }
+
+    it('should start impersonating and record the reason', async () => {
+      const response = await impersonate(user)
+
+      expect(response.status).toBe(201)
+      expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'impersonation.started',
+        actorId: admin.id,
+        targetId: user.id,
+        metadata: expect.objectContaining({ reason: 'Support ticket 1234', sessionId: 'session-id' }),
+      }))
+    })
+
+    it('should refuse users who hold permissions', async () => {
+      const response = await impersonate({ ...user, id: 'other-admin-id', role: 'admin' })
+
+      expect(response.status).toBe(403)
+      expect(sessionService.createSession).not.toHaveBeenCalled()
+    })
+
+    it('should refuse the admin themselves', async () => {
+      const response = await impersonate({ ...user, id: admin.id })
+
+      expect(response.status).toBe(403)
+      expect(sessionService.createSession).not.toHaveBeenCalled()
+    })
+
+    it('should refuse locked accounts', async () => {
+      const response = await impersonate({ ...user, isLocked: true })
+
+      expect(response.status).toBe(409)
+      expect(sessionService.createSession).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import {
+  IPRangeList,
+  canonicalizeCIDR,
+  canonicalizeIP,
+  parseCIDR,
+  parseIP,
+  isIPInRange,
+} from '@/lib/ip-address'
+
+describe('IP addresses', () => {
+  describe('Canonicalization', () => {
+    it.each([
+      ['192.0.2.1', '192.0.2.1'],
+      [' 10.0.0.1 ', '10.0.0.1'],
+      ['2001:DB8::1', '2001:db8::1'],
+      ['2001:0db8:0000:0000:0000:0000:0000:0001', '2001:db8::1'],
+      ['2001:db8:0:1:0:0:0:1', '2001:db8:0:1::1'],
+      ['2001:db8:0:0:1:0:0:1', '2001:db8::1:0:0:1'],
+      ['2001:db8:1:1:1:1:0:1', '2001:db8:1:1:1:1:0:1'],
+      ['::', '::'],
+      ['0:0:0:0:0:0:0:1', '::1'],
+      ['[fe80::1%eth0]', 'fe80::1'],
+      ['::ffff:192.0.2.1', '192.0.2.1'],
+      ['::ffff:c000:0201', '192.0.2.1'],
+      ['64:ff9b::192.0.2.1', '64:ff9b::c000:201'],
+    ])('should canonicalize %s', (input, expected) => {
+      expect(canonicalizeIP(input)).toBe(expected)
+    })
+
+    it.each([
+      'unknown',
+      '',
+      '256.0.0.1',
+      '01.2.3.4',
+      '1.2.3',
+      '1::2::3',
+      '1:2:3:4:5:6:7:8:9',
+      '1:2:3:4:5:6:7',
+      '12345::1',
+      ':1::',
+    ])('should reject %p', (input) => {
+      expect(parseIP(input)).toBeNull()
+    })
+  })
+
+  describe('CIDR blocks', () => {
+    it.each([
+      ['10.1.2.3/8', '10.0.0.0/8'],
+      ['192.168.1.0/24', '192.168.1.0/24'],
+      ['192.168.1.7/32', '192.168.1.7'],
+      ['2001:DB8:ABCD::/48', '2001:db8:abcd::/48'],
+      ['2001:db8::1/128', '2001:db8::1'],
+      ['::ffff:10.0.0.0/104', '10.0.0.0/8'],
+      ['0.0.0.0/0', '0.0.0.0/0'],
+    ])('should canonicalize %s', (input, expected) => {
+      expect(canonicalizeCIDR(input)).toBe(expected)
+    })
+
+    it.each(['10.0.0.0/33', '2001:db8::/129', '10.0.0.0/', '10.0.0.0/8/8', 'example.com/8'])('should reject %p', (input) => {
+      expect(parseCIDR(input)).toBeNull()
+    })
+
+    it('should match addresses inside a range', () => {
+      const office = parseCIDR('203.0.113.0/24')!
+      const cloud = parseCIDR('2001:db8:1200::/40')!
+
+      expect(isIPInRange(parseIP('203.0.113.200')!, office)).toBe(true)
+      expect(isIPInRange(parseIP('::ffff:203.0.113.9')!, office)).toBe(true)
+      expect(isIPInRange(parseIP('203.0.114.1')!, office)).toBe(false)
+      expect(isIPInRange(parseIP('2001:db8:12ff:ffff::1')!, cloud)).toBe(true)
+      expect(isIPInRange(parseIP('2001:db8:1300::1')!, cloud)).toBe(false)
+      expect(isIPInRange(parseIP('203.0.113.1')!, cloud)).toBe(false)
+    })
+  })
+
+  describe('Range lists', () => {
+    it('should prefer the most specific range', () => {
+      const list = new IPRangeList<string>()
+      list.add('10.0.0.0/8', 'allow')
+      list.add('10.1.2.3', 'deny')
+      list.add('10.1.0.0/16', 'review')
+
+      expect(list.match('10.1.2.3')).toBe('deny')
+      expect(list.match('10.1.9.9')).toBe('review')
+      expect(list.match('10.200.0.1')).toBe('allow')
+      expect(list.match('11.0.0.1')).toBeUndefined()
+      expect(list.match('unknown')).toBeUndefined()
+    })
+
+    it('should keep the first range added between equal prefixes', () => {
+      const list = new IPRangeList<string>()
+      list.add('2001:db8::/32', 'first')
+      list.add('2001:0DB8:0::/32', 'second')
+
+      expect(list.match('2001:db8::42')).toBe('first')
+      expect(list.size).toBe(2)
+    })
+
+    it('should skip entries that are not addresses', () => {
+      const list = new IPRangeList<string>()
+
+      expect(list.add('not-an-ip', 'deny')).toBe(false)
+      expect(list.size).toBe(0)
+    })
+  })
+})
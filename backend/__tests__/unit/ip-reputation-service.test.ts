@@ -0,0 +1,142 @@
+import type { IPReputationService } from '@/lib/ip-reputation-service'
+import { prisma } from '@/lib/prisma'
+
+const storedEntry = (ipAddress: string, list: 'allow' | 'deny', expiresAt: Date | null = null) => ({
+  id: `entry-${ipAddress}`,
+  ipAddress,
+  list,
+  reason: null,
+  source: 'manual',
+  expiresAt,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+})
+
+describe('IP Reputation Service', () => {
+  let ipReputationService: typeof IPReputationService
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    // Fresh module each time so the list cache starts empty
+    await jest.isolateModulesAsync(async () => {
+      ({ ipReputationService } = await import('@/lib/ip-reputation-service'))
+    })
+  })
+
+  describe('setEntry', () => {
+    it('should store the canonical block and record it as added', async () => {
+      const entry = await ipReputationService.setEntry('10.1.2.3/8', 'deny', { reason: 'Abuse', actorId: 'admin-id' })
+
+      expect(entry).toMatchObject({ ipAddress: '10.0.0.0/8', list: 'deny', reason: 'Abuse', source: 'manual' })
+      expect((prisma.ipListEntry.upsert as jest.Mock).mock.calls[0][0].where).toEqual({ ipAddress: '10.0.0.0/8' })
+      expect(prisma.ipListChange.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ ipAddress: '10.0.0.0/8', action: 'added', list: 'deny', actorId: 'admin-id' }),
+      })
+    })
+
+    it('should record a change to an existing entry as updated', async () => {
+      ;(prisma.ipListEntry.findUnique as jest.Mock).mockResolvedValueOnce(storedEntry('203.0.113.7', 'allow'))
+
+      await ipReputationService.setEntry('203.0.113.7', 'deny')
+
+      expect((prisma.ipListChange.create as jest.Mock).mock.calls[0][0].data.action).toBe('updated')
+    })
+
+    it('should reject addresses that cannot be parsed', async () => {
+      expect(await ipReputationService.setEntry('not-an-ip', 'deny')).toBeNull()
+      expect(prisma.ipListEntry.upsert).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getListEntry', () => {
+    it('should match stored blocks, preferring the most specific one', async () => {
+      ;(prisma.ipListEntry.findMany as jest.Mock).mockResolvedValueOnce([
+        storedEntry('198.51.100.0/24', 'deny'),
+        storedEntry('198.51.100.7', 'allow'),
+      ])
+
+      expect((await ipReputationService.getListEntry('198.51.100.7'))?.list).toBe('allow')
+      expect((await ipReputationService.getListEntry('198.51.100.8'))?.list).toBe('deny')
+      expect(await ipReputationService.getListEntry('192.0.2.1')).toBeNull()
+    })
+
+    it('should let deny win over allow for the same block', async () => {
+      ;(prisma.ipListEntry.findMany as jest.Mock).mockResolvedValueOnce([
+        storedEntry('198.51.100.0/24', 'deny'),
+        storedEntry('198.51.100.0/24', 'allow'),
+      ])
+
+      expect((await ipReputationService.getListEntry('198.51.100.7'))?.list).toBe('deny')
+    })
+
+    it('should ignore entries that expired since they were loaded', async () => {
+      ;(prisma.ipListEntry.findMany as jest.Mock).mockResolvedValueOnce([
+        storedEntry('198.51.100.7', 'deny', new Date(Date.now() - 1000)),
+      ])
+
+      expect(await ipReputationService.getListEntry('198.51.100.7')).toBeNull()
+    })
+
+    it('should reload the lists after a change', async () => {
+      await ipReputationService.getListEntry('198.51.100.7')
+      ;(prisma.ipListEntry.findMany as jest.Mock).mockResolvedValueOnce([storedEntry('198.51.100.7', 'deny')])
+
+      await ipReputationService.setEntry('198.51.100.7', 'deny')
+
+      expect((await ipReputationService.getListEntry('198.51.100.7'))?.list).toBe('deny')
+      expect(prisma.ipListEntry.findMany).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('removeEntry', () => {
+    it('should delete the entry and record the removal', async () => {
+      ;(prisma.ipListEntry.findUnique as jest.Mock).mockResolvedValueOnce(storedEntry('203.0.113.7', 'deny'))
+
+      expect(await ipReputationService.removeEntry('203.0.113.7', { actorId: 'admin-id' })).toBe(true)
+      expect(prisma.ipListEntry.delete).toHaveBeenCalledWith({ where: { ipAddress: '203.0.113.7' } })
+      expect(prisma.ipListChange.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'removed', list: 'deny', actorId: 'admin-id' }),
+      })
+    })
+
+    it('should report a missing entry without recording anything', async () => {
+      expect(await ipReputationService.removeEntry('203.0.113.7')).toBe(false)
+      expect(prisma.ipListChange.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('purgeExpired', () => {
+    it('should delete expired entries and record each as expired', async () => {
+      const expiresAt = new Date(Date.now() - 1000)
+      ;(prisma.ipListEntry.findMany as jest.Mock).mockResolvedValueOnce([storedEntry('203.0.113.7', 'deny', expiresAt)])
+
+      await ipReputationService.purgeExpired()
+
+      expect(prisma.ipListEntry.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['entry-203.0.113.7'] } } })
+      expect(prisma.ipListChange.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ ipAddress: '203.0.113.7', action: 'expired', list: 'deny', expiresAt })],
+      })
+    })
+  })
+
+  describe('recordViolation', () => {
+    it('should deny an IP for a while once its score is very low', async () => {
+      ;(prisma.ipReputation.findUnique as jest.Mock).mockResolvedValueOnce({
+        ipAddress: '203.0.113.7',
+        score: 20,
+        violationCount: 9,
+        lastViolationAt: new Date(),
+      })
+
+      await ipReputationService.recordViolation('203.0.113.7')
+
+      expect((prisma.ipReputation.upsert as jest.Mock).mock.calls[0][0].update).toMatchObject({ violationCount: 10 })
+      expect((prisma.ipListEntry.upsert as jest.Mock).mock.calls[0][0].create).toMatchObject({
+        ipAddress: '203.0.113.7',
+        list: 'deny',
+        source: 'auto',
+        expiresAt: expect.any(Date),
+      })
+    })
+  })
+})
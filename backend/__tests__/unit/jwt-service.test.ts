@@ -0,0 +1,123 @@
+import { jwtVerify } from 'jose'
+import { jwtService } from '@/lib/jwt-service'
+import { auditService } from '@/lib/audit-service'
+import { prisma } from '@/lib/prisma'
+
+jest.mock('../../lib/audit-service', () => ({
+  auditService: { record: jest.fn() },
+}))
+
+describe('JWT Service', () => {
+  describe('refreshAccessToken', () => {
+    const user = {
+      id: 'user-id',
+      email: 'user@example.com',
+      username: 'user',
+      role: 'user',
+      isLocked: false,
+      lockedUntil: null,
+    }
+    const dbToken = {
+      id: 'refresh-token-id',
+      userId: user.id,
+      familyId: 'family-id',
+      sessionId: 'session-id',
+      isRevoked: false,
+      rotatedAt: null as Date | null,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      user,
+      session: { isActive: true, activeOrganizationId: null },
+    }
+
+    function presentRefreshToken(token: Partial<typeof dbToken> = {}) {
+      // The jose mock reports every token as an access token
+      ;(jwtVerify as jest.Mock).mockResolvedValueOnce({
+        payload: { sub: user.id, tokenType: 'refresh', authMethod: 'credentials', amr: ['pwd'] },
+        protectedHeader: { alg: 'ES256' },
+      })
+      ;(prisma.refreshToken.findUnique as jest.Mock).mockResolvedValueOnce({ ...dbToken, ...token })
+    }
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+    })
+
+    it('should rotate the token within its family', async () => {
+      presentRefreshToken()
+      ;(prisma.refreshToken.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 })
+
+      const result = await jwtService.refreshAccessToken('refresh-token', { ipAddress: '203.0.113.7' })
+
+      expect(result.success).toBe(true)
+      expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: dbToken.id, isRevoked: false, rotatedAt: null },
+        data: { isRevoked: true, rotatedAt: expect.any(Date) },
+      })
+      expect((prisma.refreshToken.create as jest.Mock).mock.calls[0][0].data).toMatchObject({
+        userId: user.id,
+        familyId: dbToken.familyId,
+        sessionId: dbToken.sessionId,
+      })
+    })
+
+    it('should revoke the family and end the session when a rotated token is reused', async () => {
+      presentRefreshToken({ isRevoked: true, rotatedAt: new Date() })
+
+      const result = await jwtService.refreshAccessToken('refresh-token', { ipAddress: '203.0.113.7' })
+
+      expect(result).toEqual({ success: false, error: 'TOKEN_REUSED' })
+      expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { familyId: dbToken.familyId, isRevoked: false },
+        data: { isRevoked: true },
+      })
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: dbToken.sessionId },
+        data: { isActive: false },
+      })
+      expect(auditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'refresh_token.reused',
+        targetId: user.id,
+        metadata: { familyId: dbToken.familyId, sessionId: dbToken.sessionId },
+      }))
+      expect(prisma.loginAttempt.create).not.toHaveBeenCalled()
+      expect(prisma.refreshToken.create).not.toHaveBeenCalled()
+    })
+
+    it('should treat losing a concurrent rotation as reuse', async () => {
+      presentRefreshToken()
+
+      const result = await jwtService.refreshAccessToken('refresh-token')
+
+      expect(result).toEqual({ success: false, error: 'TOKEN_REUSED' })
+      expect(prisma.refreshToken.updateMany).toHaveBeenLastCalledWith({
+        where: { familyId: dbToken.familyId, isRevoked: false },
+        data: { isRevoked: true },
+      })
+      expect(prisma.refreshToken.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject revoked tokens without revoking the family', async () => {
+      presentRefreshToken({ isRevoked: true })
+
+      const result = await jwtService.refreshAccessToken('refresh-token')
+
+      expect(result).toEqual({ success: false, error: 'TOKEN_REVOKED' })
+      expect(prisma.refreshToken.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should reject tokens whose session was revoked', async () => {
+      presentRefreshToken({ session: { isActive: false, activeOrganizationId: null } })
+
+      const result = await jwtService.refreshAccessToken('refresh-token')
+
+      expect(result).toEqual({ success: false, error: 'TOKEN_REVOKED' })
+    })
+
+    it('should not accept access tokens', async () => {
+      const result = await jwtService.refreshAccessToken('mock.jwt.token')
+
+      expect(result).toEqual({ success: false, error: 'INVALID_TOKEN' })
+      expect(prisma.refreshToken.findUnique).not.toHaveBeenCalled()
+    })
+  })
+})
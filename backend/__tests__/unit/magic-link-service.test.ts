@@ -0,0 +1,67 @@
+import { jwtVerify } from 'jose'
+import { magicLinkService, type MagicLinkClaims } from '@/lib/magic-link-service'
+import { prisma } from '@/lib/prisma'
+
+describe('Magic Link Service', () => {
+  const user = { id: 'user-id', email: 'user@example.com', username: 'user', role: 'user' }
+
+  async function createSignedToken(deviceNonce: string) {
+    const { token } = await magicLinkService.createToken(user, { deviceNonce })
+
+    // The jose mock reports every token as an access token
+    ;(jwtVerify as jest.Mock).mockResolvedValueOnce({
+      payload: {
+        ...(global as unknown as { __mockJWTPayload: object }).__mockJWTPayload,
+        tokenType: 'magic_link',
+        jti: 'magic-link-jti',
+        exp: Math.floor(Date.now() / 1000) + 15 * 60,
+      },
+      protectedHeader: { alg: 'ES256' },
+    })
+
+    return token
+  }
+
+  it('should accept a link in the browser that requested it', async () => {
+    const deviceNonce = magicLinkService.generateDeviceNonce()
+    const token = await createSignedToken(deviceNonce)
+
+    const result = await magicLinkService.verifyToken(token, deviceNonce)
+
+    expect(result.success).toBe(true)
+    expect(result.success && result.claims).toMatchObject({ sub: user.id, authMethod: 'magic_link' })
+  })
+
+  it('should reject a link opened in another browser', async () => {
+    const token = await createSignedToken(magicLinkService.generateDeviceNonce())
+
+    const result = await magicLinkService.verifyToken(token, magicLinkService.generateDeviceNonce())
+
+    expect(result).toEqual({ success: false, error: 'DEVICE_MISMATCH' })
+  })
+
+  it('should not accept access tokens as magic links', async () => {
+    const deviceNonce = magicLinkService.generateDeviceNonce()
+    const { token } = await magicLinkService.createToken(user, { deviceNonce })
+
+    const result = await magicLinkService.verifyToken(token, deviceNonce)
+
+    expect(result).toEqual({ success: false, error: 'INVALID_OR_EXPIRED_TOKEN' })
+  })
+
+  it('should only let a token be consumed once', async () => {
+    const claims = { sub: user.id, jti: 'magic-link-jti', exp: Math.floor(Date.now() / 1000) + 60 } as MagicLinkClaims
+    ;(prisma.tokenBlacklist.create as jest.Mock)
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new Error('Unique constraint failed on the fields: (`jti`)'))
+
+    expect(await magicLinkService.consumeToken('token', claims)).toBe(true)
+    expect(await magicLinkService.consumeToken('token', claims)).toBe(false)
+  })
+
+  it('should only reuse device cookies that look like issued nonces', () => {
+    expect(magicLinkService.isDeviceNonce(magicLinkService.generateDeviceNonce())).toBe(true)
+    expect(magicLinkService.isDeviceNonce('short')).toBe(false)
+    expect(magicLinkService.isDeviceNonce(undefined)).toBe(false)
+  })
+})
@@ -0,0 +1,62 @@
+import { organizationService } from '@/lib/organization-service'
+import { prisma } from '@/lib/prisma'
+
+describe('Organization Service', () => {
+  it('should resolve organization role permissions', () => {
+    expect(organizationService.getRolePermissions('owner')).toContain('org:delete')
+    expect(organizationService.getRolePermissions('admin')).not.toContain('org:delete')
+    expect(organizationService.getRolePermissions('member')).toEqual([])
+    expect(organizationService.getRolePermissions('unknown')).toEqual([])
+  })
+
+  describe('canManageMember', () => {
+    const owner = { userId: 'owner-id', role: 'owner' }
+    const admin = { userId: 'admin-id', role: 'admin' }
+
+    it('should let admins manage members but not owners', () => {
+      expect(organizationService.canManageMember(admin, { userId: 'member-id', role: 'member' })).toBe(true)
+      expect(organizationService.canManageMember(admin, { userId: 'other-owner-id', role: 'owner' })).toBe(false)
+    })
+
+    it('should not let admins promote members to owner', () => {
+      expect(organizationService.canManageMember(admin, { userId: 'member-id', role: 'member' }, 'owner')).toBe(false)
+      expect(organizationService.canManageMember(owner, { userId: 'member-id', role: 'member' }, 'owner')).toBe(true)
+    })
+
+    it('should not let members manage anyone or themselves', () => {
+      expect(organizationService.canManageMember({ userId: 'member-id', role: 'member' }, { userId: 'other-id', role: 'member' })).toBe(false)
+      expect(organizationService.canManageMember(owner, { userId: owner.userId, role: 'owner' }, 'member')).toBe(false)
+    })
+  })
+
+  describe('acceptInvitation', () => {
+    const invitation = {
+      id: 'invitation-id',
+      organizationId: 'org-id',
+      email: 'invitee@example.com',
+      role: 'member',
+      acceptedAt: null,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    }
+
+    it('should reject invitations sent to another email address', async () => {
+      ;(prisma.organizationInvitation.findUnique as jest.Mock).mockResolvedValueOnce(invitation)
+
+      const result = await organizationService.acceptInvitation('token', { id: 'user-id', email: 'someone@example.com' })
+
+      expect(result).toEqual({ success: false, error: 'EMAIL_MISMATCH' })
+    })
+
+    it('should reject expired invitations', async () => {
+      ;(prisma.organizationInvitation.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...invitation,
+        expiresAt: new Date(Date.now() - 1000),
+      })
+
+      const result = await organizationService.acceptInvitation('token', { id: 'user-id', email: 'Invitee@example.com' })
+
+      expect(result).toEqual({ success: false, error: 'INVALID_OR_EXPIRED_TOKEN' })
+      expect(prisma.membership.create).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,98 @@
+import { verifyAuthenticationResponse } from '@simplewebauthn/server'
+import { passkeyReauthService, type PasskeyAssertion } from '@/lib/passkey-reauth-service'
+import { prisma } from '@/lib/prisma'
+
+jest.mock('@simplewebauthn/server', () => ({
+  generateAuthenticationOptions: jest.fn().mockResolvedValue({ challenge: 'challenge' }),
+  verifyAuthenticationResponse: jest.fn(),
+}))
+
+describe('Passkey Reauth Service', () => {
+  const assertion: PasskeyAssertion = {
+    id: 'credential-id',
+    rawId: 'credential-id',
+    response: { clientDataJSON: 'client-data', authenticatorData: 'authenticator-data', signature: 'signature' },
+    type: 'public-key',
+  }
+  const credential = {
+    id: 'passkey-id',
+    userId: 'user-id',
+    credentialID: 'credential-id',
+    credentialPublicKey: Buffer.from('public-key'),
+    counter: 5,
+    transports: null,
+    cloneDetectedAt: null,
+  }
+
+  function pendingChallenge() {
+    ;(prisma.webAuthnChallenge.findFirst as jest.Mock).mockResolvedValueOnce({
+      id: 'challenge-id',
+      challenge: 'challenge',
+      data: null,
+      expiresAt: new Date(Date.now() + 60 * 1000),
+    })
+    ;(prisma.webAuthnChallenge.deleteMany as jest.Mock).mockResolvedValueOnce({ count: 1 })
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should bind the challenge to the signed-in user', async () => {
+    ;(prisma.webAuthnCredential.findMany as jest.Mock).mockResolvedValueOnce([credential])
+
+    const options = await passkeyReauthService.createOptions('user-id')
+
+    expect(options).toEqual({ challenge: 'challenge' })
+    expect((prisma.webAuthnChallenge.create as jest.Mock).mock.calls[0][0].data).toMatchObject({
+      ceremony: 'reauthentication',
+      userId: 'user-id',
+      challenge: 'challenge',
+    })
+  })
+
+  it('should not offer a confirmation to users without a passkey', async () => {
+    expect(await passkeyReauthService.createOptions('user-id')).toBeNull()
+    expect(prisma.webAuthnChallenge.create).not.toHaveBeenCalled()
+  })
+
+  it('should reject assertions without a pending challenge', async () => {
+    expect(await passkeyReauthService.verify('user-id', assertion)).toBe(false)
+    expect(verifyAuthenticationResponse).not.toHaveBeenCalled()
+  })
+
+  it('should reject passkeys of another user', async () => {
+    pendingChallenge()
+    ;(prisma.webAuthnCredential.findUnique as jest.Mock).mockResolvedValueOnce({ ...credential, userId: 'other-user-id' })
+
+    expect(await passkeyReauthService.verify('user-id', assertion)).toBe(false)
+    expect(verifyAuthenticationResponse).not.toHaveBeenCalled()
+  })
+
+  it('should accept a valid assertion and advance the counter', async () => {
+    pendingChallenge()
+    ;(prisma.webAuthnCredential.findUnique as jest.Mock).mockResolvedValueOnce(credential)
+    ;(verifyAuthenticationResponse as jest.Mock).mockResolvedValueOnce({
+      verified: true,
+      authenticationInfo: { newCounter: 6 },
+    })
+
+    expect(await passkeyReauthService.verify('user-id', assertion)).toBe(true)
+    expect((verifyAuthenticationResponse as jest.Mock).mock.calls[0][0].expectedChallenge).toBe('challenge')
+    expect((prisma.webAuthnCredential.update as jest.Mock).mock.calls[0][0].data).toMatchObject({ counter: 6 })
+  })
+
+  it('should flag passkeys whose counter goes backwards', async () => {
+    pendingChallenge()
+    ;(prisma.webAuthnCredential.findUnique as jest.Mock).mockResolvedValueOnce(credential)
+    ;(verifyAuthenticationResponse as jest.Mock).mockResolvedValueOnce({
+      verified: true,
+      authenticationInfo: { newCounter: 5 },
+    })
+
+    expect(await passkeyReauthService.verify('user-id', assertion)).toBe(false)
+    expect((prisma.webAuthnCredential.update as jest.Mock).mock.calls[0][0].data).toEqual({
+      cloneDetectedAt: expect.any(Date),
+    })
+  })
+})
@@ -0,0 +1,92 @@
+import { createHash } from 'crypto'
+import { passwordResetService } from '@/lib/password-reset-service'
+import { prisma } from '@/lib/prisma'
+
+describe('Password Reset Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('createResetToken', () => {
+    it('should store only a hash of the token', async () => {
+      const result = await passwordResetService.createResetToken('user-id', { ipAddress: '203.0.113.7' })
+
+      expect(result).not.toBeNull()
+      const { data } = (prisma.passwordResetToken.create as jest.Mock).mock.calls[0][0]
+      expect(data.tokenHash).toBe(createHash('sha256').update(result!.token).digest('hex'))
+      expect(data.tokenHash).not.toBe(result!.token)
+    })
+
+    it('should throttle accounts with too many active tokens', async () => {
+      const createdAt = new Date(Date.now() - 10 * 60 * 1000)
+      ;(prisma.passwordResetToken.findMany as jest.Mock).mockResolvedValueOnce([{ createdAt }, { createdAt }, { createdAt }])
+
+      expect(await passwordResetService.createResetToken('user-id')).toBeNull()
+      expect(prisma.passwordResetToken.create).not.toHaveBeenCalled()
+    })
+
+    it('should throttle repeated requests within the cooldown', async () => {
+      ;(prisma.passwordResetToken.findMany as jest.Mock).mockResolvedValueOnce([{ createdAt: new Date() }])
+
+      expect(await passwordResetService.createResetToken('user-id')).toBeNull()
+    })
+  })
+
+  describe('resetPassword', () => {
+    it('should set the password and revoke every session', async () => {
+      ;(prisma.passwordResetToken.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 })
+      ;(prisma.passwordResetToken.findUnique as jest.Mock).mockResolvedValueOnce({ userId: 'user-id' })
+
+      const result = await passwordResetService.resetPassword('reset-token', 'NewPassword123!')
+
+      expect(result).toEqual({ success: true, userId: 'user-id' })
+      expect((prisma.user.update as jest.Mock).mock.calls[0][0].where).toEqual({ id: 'user-id' })
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-id', isActive: true },
+        data: { isActive: false },
+      })
+      expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-id', isRevoked: false },
+        data: { isRevoked: true },
+      })
+    })
+
+    it('should lift an automatic lockout but keep an admin lock', async () => {
+      ;(prisma.passwordResetToken.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 })
+      ;(prisma.passwordResetToken.findUnique as jest.Mock).mockResolvedValueOnce({ userId: 'user-id' })
+
+      await passwordResetService.resetPassword('reset-token', 'NewPassword123!')
+
+      expect((prisma.user.update as jest.Mock).mock.calls[0][0].data).toEqual({ password: expect.any(String) })
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-id', adminLockedAt: null },
+        data: { isLocked: false, lockedUntil: null },
+      })
+    })
+
+    it('should only accept a token once', async () => {
+      ;(prisma.passwordResetToken.updateMany as jest.Mock)
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 0 })
+      ;(prisma.passwordResetToken.findUnique as jest.Mock).mockResolvedValueOnce({ userId: 'user-id' })
+
+      await passwordResetService.resetPassword('reset-token', 'NewPassword123!')
+      const result = await passwordResetService.resetPassword('reset-token', 'OtherPassword123!')
+
+      expect(result).toEqual({ success: false, error: 'INVALID_OR_EXPIRED_TOKEN' })
+      expect(prisma.user.update).toHaveBeenCalledTimes(1)
+    })
+
+    it('should only consume unused, unexpired tokens', async () => {
+      await passwordResetService.resetPassword('reset-token', 'NewPassword123!')
+
+      const { where } = (prisma.passwordResetToken.updateMany as jest.Mock).mock.calls[0][0]
+      expect(where).toMatchObject({
+        tokenHash: createHash('sha256').update('reset-token').digest('hex'),
+        usedAt: null,
+        expiresAt: { gt: expect.any(Date) },
+      })
+    })
+  })
+})
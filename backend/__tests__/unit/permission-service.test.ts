@@ -0,0 +1,38 @@
+import { permissionService } from '@/lib/permission-service'
+import { hasPermissions } from '@/lib/permissions'
+
+describe('Permission Service', () => {
+  beforeEach(() => {
+    permissionService.clearCache()
+  })
+
+  it('should resolve role permissions and ignore unknown roles', async () => {
+    expect(await permissionService.getRolePermissions('user')).toEqual([])
+    expect(await permissionService.getRolePermissions('super_admin')).toContain('roles:assign')
+    expect(await permissionService.getRolePermissions('ADMIN')).toEqual([])
+  })
+
+  it('should require every permission', () => {
+    expect(hasPermissions(['users:read', 'users:update'], ['users:read'])).toBe(true)
+    expect(hasPermissions(['users:read'], ['users:read', 'users:update'])).toBe(false)
+    expect(hasPermissions([], [])).toBe(true)
+  })
+
+  describe('canManageUser', () => {
+    const admin = { id: 'admin-id', permissions: ['users:read', 'users:update'] }
+    const superAdmin = { id: 'super-admin-id', permissions: ['users:read', 'users:update', 'roles:assign'] }
+
+    it('should let admins manage users without permissions', async () => {
+      expect(await permissionService.canManageUser(admin, { id: 'user-id', role: 'user' })).toBe(true)
+    })
+
+    it('should require roles:assign to manage users holding permissions', async () => {
+      expect(await permissionService.canManageUser(admin, { id: 'other-admin-id', role: 'admin' })).toBe(false)
+      expect(await permissionService.canManageUser(superAdmin, { id: 'other-admin-id', role: 'admin' })).toBe(true)
+    })
+
+    it('should not let anyone manage themselves', async () => {
+      expect(await permissionService.canManageUser(superAdmin, { id: superAdmin.id, role: 'super_admin' })).toBe(false)
+    })
+  })
+})
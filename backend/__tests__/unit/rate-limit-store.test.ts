@@ -0,0 +1,126 @@
+import {
+  MemoryRateLimitStore,
+  RedisRateLimitStore,
+  type RateLimitStore,
+} from '@/lib/rate-limit-store'
+
+/**
+ * Behaviour shared by every store. The Redis suite only runs when REDIS_URL
+ * points at a server, e.g. REDIS_URL=redis://localhost:6379/15
+ */
+function describeStore(name: string, createStore: () => RateLimitStore, cleanup?: (store: RateLimitStore) => void) {
+  describe(name, () => {
+    let store: RateLimitStore
+    const key = `test:${Date.now()}:127.0.0.1`
+
+    beforeEach(async () => {
+      store = createStore()
+      await store.reset('test:*')
+    })
+
+    afterEach(() => {
+      cleanup?.(store)
+    })
+
+    it('should count hits within a window', async () => {
+      const first = await store.increment(key, 60000)
+      const second = await store.increment(key, 60000)
+
+      expect(first.count).toBe(1)
+      expect(second.count).toBe(2)
+      expect(second.resetTime.getTime()).toBeGreaterThan(Date.now())
+      expect(second.resetTime.getTime()).toBeLessThanOrEqual(Date.now() + 60000)
+    })
+
+    it('should start a new window once the previous one expires', async () => {
+      await store.increment(key, 50)
+      await new Promise(resolve => setTimeout(resolve, 80))
+
+      expect((await store.increment(key, 50)).count).toBe(1)
+    })
+
+    it('should give hits back without going below zero', async () => {
+      await store.increment(key, 60000)
+      await store.decrement(key)
+      await store.decrement(key)
+
+      expect((await store.increment(key, 60000)).count).toBe(1)
+    })
+
+    it('should allow a token-bucket burst, then refill over time', async () => {
+      const burst = await Promise.all([1, 2, 3].map(() => store.takeToken(key, 3, 10)))
+      const denied = await store.takeToken(key, 3, 10)
+
+      expect(burst.map(state => state.allowed)).toEqual([true, true, true])
+      expect(burst[0].tokens).toBe(2)
+      expect(denied).toMatchObject({ allowed: false, tokens: 0 })
+      expect(denied.resetTime.getTime() - Date.now()).toBeLessThanOrEqual(100)
+
+      await new Promise(resolve => setTimeout(resolve, 150))
+
+      expect((await store.takeToken(key, 3, 10)).allowed).toBe(true)
+    })
+
+    it('should put returned tokens back without overfilling the bucket', async () => {
+      await store.returnToken(key, 2, 1)
+      await store.takeToken(key, 2, 1)
+      await store.takeToken(key, 2, 1)
+      await store.returnToken(key, 2, 1)
+
+      expect(await store.takeToken(key, 2, 1)).toMatchObject({ allowed: true, tokens: 0 })
+      expect((await store.takeToken(key, 2, 1)).allowed).toBe(false)
+    })
+
+    it('should limit hits within a sliding window log', async () => {
+      const first = await store.logHit(key, 100, 2)
+      const second = await store.logHit(key, 100, 2)
+      const denied = await store.logHit(key, 100, 2)
+
+      expect([first.allowed, second.allowed, denied.allowed]).toEqual([true, true, false])
+      expect(denied.count).toBe(2)
+      expect(denied.resetTime.getTime()).toBe(first.resetTime.getTime())
+
+      await store.removeHit(key)
+      expect((await store.logHit(key, 100, 2)).allowed).toBe(true)
+
+      await new Promise(resolve => setTimeout(resolve, 120))
+      expect(await store.logHit(key, 100, 2)).toMatchObject({ allowed: true, count: 1 })
+    })
+
+    it('should block and report the block expiry', async () => {
+      expect(await store.getBlock(key)).toBeNull()
+
+      const blockedUntil = await store.block(key, 60000)
+      const block = await store.getBlock(key)
+
+      expect(block).not.toBeNull()
+      expect(Math.abs(block!.getTime() - blockedUntil.getTime())).toBeLessThan(1000)
+    })
+
+    it('should reset counters and blocks matching a pattern', async () => {
+      const otherKey = `test:${Date.now()}:10.0.0.1`
+
+      await store.increment(key, 60000)
+      await store.block(key, 60000)
+      await store.increment(otherKey, 60000)
+
+      await store.reset('*:127.0.0.1')
+
+      expect(await store.getBlock(key)).toBeNull()
+      expect((await store.increment(key, 60000)).count).toBe(1)
+      expect((await store.increment(otherKey, 60000)).count).toBe(2)
+    })
+  })
+}
+
+describe('Rate limit stores', () => {
+  describeStore('MemoryRateLimitStore', () => new MemoryRateLimitStore())
+
+  if (process.env.REDIS_URL) {
+    describeStore(
+      'RedisRateLimitStore',
+      () => new RedisRateLimitStore(process.env.REDIS_URL!),
+      store => (store as RedisRateLimitStore).disconnect()
+    )
+  }
+})
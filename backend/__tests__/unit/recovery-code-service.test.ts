@@ -0,0 +1,49 @@
+import { createHash } from 'crypto'
+import { recoveryCodeService } from '@/lib/recovery-code-service'
+import { prisma } from '@/lib/prisma'
+
+describe('Recovery Code Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should store keyed hashes instead of plain SHA-256 digests', async () => {
+    const codes = await recoveryCodeService.generateCodes('user-id')
+
+    expect(codes).toHaveLength(10)
+    const { data } = (prisma.recoveryCode.createMany as jest.Mock).mock.calls[0][0]
+    const plainDigest = createHash('sha256').update(codes[0].replace('-', '')).digest('hex')
+    expect(data[0].codeHash).toMatch(/^[0-9a-f]{64}$/)
+    expect(data[0].codeHash).not.toBe(plainDigest)
+  })
+
+  it('should hash the same code differently for another user', async () => {
+    const codes = await recoveryCodeService.generateCodes('user-id')
+    const { data } = (prisma.recoveryCode.createMany as jest.Mock).mock.calls[0][0]
+
+    await recoveryCodeService.consumeCode('other-user-id', codes[0])
+
+    const { where } = (prisma.recoveryCode.updateMany as jest.Mock).mock.calls[0][0]
+    expect(where.codeHash).not.toBe(data[0].codeHash)
+  })
+
+  it('should accept codes regardless of case, spaces and dashes', async () => {
+    const codes = await recoveryCodeService.generateCodes('user-id')
+    const { data } = (prisma.recoveryCode.createMany as jest.Mock).mock.calls[0][0]
+    ;(prisma.recoveryCode.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 })
+
+    const consumed = await recoveryCodeService.consumeCode('user-id', ` ${codes[0].toUpperCase().replace('-', ' ')} `)
+
+    expect(consumed).toBe(true)
+    expect((prisma.recoveryCode.updateMany as jest.Mock).mock.calls[0][0].where).toEqual({
+      userId: 'user-id',
+      codeHash: data[0].codeHash,
+      usedAt: null,
+    })
+  })
+
+  it('should reject codes of the wrong length without a lookup', async () => {
+    expect(await recoveryCodeService.consumeCode('user-id', 'abc')).toBe(false)
+    expect(prisma.recoveryCode.updateMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,70 @@
+import { sessionService } from '@/lib/session-service'
+import { prisma } from '@/lib/prisma'
+
+describe('Session Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('revokeSession', () => {
+    it('should revoke the session and its refresh tokens', async () => {
+      ;(prisma.session.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 })
+
+      expect(await sessionService.revokeSession('user-id', 'session-id')).toBe(true)
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-id', userId: 'user-id', isActive: true },
+        data: { isActive: false },
+      })
+      expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-id', isRevoked: false },
+        data: { isRevoked: true },
+      })
+    })
+
+    it('should not revoke sessions of another user', async () => {
+      expect(await sessionService.revokeSession('other-user-id', 'session-id')).toBe(false)
+      expect((prisma.session.updateMany as jest.Mock).mock.calls[0][0].where.userId).toBe('other-user-id')
+      expect(prisma.refreshToken.updateMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('renameSession', () => {
+    it('should only rename active sessions of the user', async () => {
+      ;(prisma.session.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 })
+
+      expect(await sessionService.renameSession('user-id', 'session-id', 'Work laptop')).toBe(true)
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-id', userId: 'user-id', isActive: true },
+        data: { name: 'Work laptop' },
+      })
+    })
+
+    it('should report sessions of another user as not found', async () => {
+      expect(await sessionService.renameSession('other-user-id', 'session-id', null)).toBe(false)
+    })
+  })
+
+  describe('revokeOtherSessions', () => {
+    it('should keep the current session', async () => {
+      ;(prisma.session.findMany as jest.Mock).mockResolvedValueOnce([{ id: 'other-session-id' }])
+
+      expect(await sessionService.revokeOtherSessions('user-id', 'session-id')).toBe(1)
+      expect((prisma.session.findMany as jest.Mock).mock.calls[0][0].where).toEqual({
+        userId: 'user-id',
+        isActive: true,
+        id: { not: 'session-id' },
+      })
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['other-session-id'] } },
+        data: { isActive: false },
+      })
+    })
+
+    it('should do nothing without other sessions', async () => {
+      ;(prisma.session.findMany as jest.Mock).mockResolvedValueOnce([])
+
+      expect(await sessionService.revokeOtherSessions('user-id', 'session-id')).toBe(0)
+      expect(prisma.session.updateMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthURI,
+  generateTOTP,
+  generateTOTPSecret,
+  getTimeStep,
+  verifyTOTP
+} from '@/lib/totp'
+
+// RFC 6238 Appendix B shared secret ("12345678901234567890") in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+describe('TOTP', () => {
+  describe('Base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 255, 128, 64, 7])
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes)
+    })
+
+    it('should encode the RFC 6238 test secret', () => {
+      expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET)
+    })
+
+    it('should ignore case, spaces and padding when decoding', () => {
+      expect(base32Decode('gezd gnbv====').toString()).toBe('12345')
+    })
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character')
+    })
+  })
+
+  describe('Code generation', () => {
+    it.each([
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1111111111, '14050471'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+      [20000000000, '65353130']
+    ])('should match the RFC 6238 SHA-1 vector at T=%i', (seconds, expected) => {
+      expect(generateTOTP(RFC_SECRET, seconds * 1000, { digits: 8 })).toBe(expected)
+    })
+
+    it('should generate 6 digit codes by default', () => {
+      expect(generateTOTP(generateTOTPSecret())).toMatch(/^\d{6}$/)
+    })
+
+    it('should generate 160-bit secrets', () => {
+      expect(base32Decode(generateTOTPSecret())).toHaveLength(20)
+    })
+  })
+
+  describe('Verification', () => {
+    const now = 1700000000000
+
+    it('should accept the current code and return its time step', () => {
+      const code = generateTOTP(RFC_SECRET, now)
+      expect(verifyTOTP(RFC_SECRET, code, { timestampMs: now })).toBe(getTimeStep(now))
+    })
+
+    it('should accept codes within the drift window', () => {
+      const previous = generateTOTP(RFC_SECRET, now - 30 * 1000)
+      expect(verifyTOTP(RFC_SECRET, previous, { timestampMs: now })).toBe(getTimeStep(now) - 1)
+    })
+
+    it('should reject codes outside the drift window', () => {
+      const old = generateTOTP(RFC_SECRET, now - 90 * 1000)
+      expect(verifyTOTP(RFC_SECRET, old, { timestampMs: now })).toBeNull()
+    })
+
+    it('should reject malformed codes', () => {
+      expect(verifyTOTP(RFC_SECRET, '12345', { timestampMs: now })).toBeNull()
+      expect(verifyTOTP(RFC_SECRET, 'abcdef', { timestampMs: now })).toBeNull()
+    })
+  })
+
+  describe('otpauth URI', () => {
+    it('should include the secret, issuer and label', () => {
+      const uri = buildOtpAuthURI(RFC_SECRET, 'user@example.com', 'Test App')
+
+      expect(uri.startsWith('otpauth://totp/Test%20App%3Auser%40example.com?')).toBe(true)
+      expect(uri).toContain(`secret=${RFC_SECRET}`)
+      expect(uri).toContain('issuer=Test+App')
+      expect(uri).toContain('period=30')
+      expect(uri).toContain('digits=6')
+    })
+  })
+})
@@ -0,0 +1,81 @@
+import { describeDevice, parseUserAgent } from '@/lib/user-agent'
+
+const UA = {
+  chromeMac: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.6478.127 Safari/537.36',
+  edgeWindows: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.2592.87',
+  firefoxLinux: 'Mozilla/5.0 (X11; Linux x86_64; rv:127.0) Gecko/20100101 Firefox/127.0',
+  safariIPhone: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1',
+  chromeIOS: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/126.0.6478.153 Mobile/15E148 Safari/604.1',
+  safariIPad: 'Mozilla/5.0 (iPad; CPU OS 16_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.6 Mobile/15E148 Safari/604.1',
+  samsungAndroid: 'Mozilla/5.0 (Linux; Android 14; SM-S918B) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/25.0 Chrome/121.0.0.0 Mobile Safari/537.36',
+  chromeAndroidTablet: 'Mozilla/5.0 (Linux; Android 13; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36',
+  googlebot: 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+  headless: 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/126.0.0.0 Safari/537.36',
+  curl: 'curl/8.6.0',
+}
+
+describe('User-Agent parsing', () => {
+  describe('Browsers and operating systems', () => {
+    it.each([
+      ['chromeMac', 'Chrome', '126.0.6478.127', 'macOS', '10.15.7', 'desktop'],
+      ['edgeWindows', 'Edge', '126.0.2592.87', 'Windows', '10', 'desktop'],
+      ['firefoxLinux', 'Firefox', '127.0', 'Linux', null, 'desktop'],
+      ['safariIPhone', 'Safari', '17.5', 'iOS', '17.5.1', 'mobile'],
+      ['chromeIOS', 'Chrome', '126.0.6478.153', 'iOS', '17.5', 'mobile'],
+      ['safariIPad', 'Safari', '16.6', 'iOS', '16.6', 'tablet'],
+      ['samsungAndroid', 'Samsung Internet', '25.0', 'Android', '14', 'mobile'],
+      ['chromeAndroidTablet', 'Chrome', '126.0.0.0', 'Android', '13', 'tablet'],
+    ] as const)('should parse %s', (key, browserName, browserVersion, osName, osVersion, deviceType) => {
+      expect(parseUserAgent(UA[key])).toEqual({
+        browserName,
+        browserVersion,
+        osName,
+        osVersion,
+        deviceType,
+        isBot: false,
+      })
+    })
+  })
+
+  describe('Bots', () => {
+    it.each([
+      ['googlebot', 'Googlebot'],
+      ['headless', 'Headless Chrome'],
+      ['curl', 'curl'],
+    ] as const)('should flag %s as a bot', (key, name) => {
+      const device = parseUserAgent(UA[key])
+
+      expect(device.isBot).toBe(true)
+      expect(device.deviceType).toBe('bot')
+      expect(device.browserName).toBe(name)
+    })
+  })
+
+  describe('Missing User-Agent', () => {
+    it.each([undefined, null, '', 'Unknown'])('should report %p as unknown', (userAgent) => {
+      expect(parseUserAgent(userAgent)).toEqual({
+        browserName: null,
+        browserVersion: null,
+        osName: null,
+        osVersion: null,
+        deviceType: 'unknown',
+        isBot: false,
+      })
+    })
+  })
+
+  describe('Device description', () => {
+    it('should use the major browser version and the OS version', () => {
+      expect(describeDevice(parseUserAgent(UA.chromeMac))).toBe('Chrome 126 on macOS 10.15.7')
+      expect(describeDevice(parseUserAgent(UA.safariIPhone))).toBe('Safari 17 on iOS 17.5.1')
+    })
+
+    it('should name bots without a version', () => {
+      expect(describeDevice(parseUserAgent(UA.googlebot))).toBe('Googlebot')
+    })
+
+    it('should fall back to a generic label', () => {
+      expect(describeDevice(parseUserAgent(undefined))).toBe('Unknown device')
+    })
+  })
+})
@@ -0,0 +1,136 @@
+import { createHmac } from 'crypto'
+import { webhookService } from '@/lib/webhook-service'
+import { prisma } from '@/lib/prisma'
+
+describe('Webhook Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should sign the timestamp and body with HMAC-SHA256', () => {
+    const body = JSON.stringify({ id: 'event-id', type: 'user.login' })
+    const expected = createHmac('sha256', 'whsec_test').update(`1700000000.${body}`).digest('hex')
+
+    expect(webhookService.sign('whsec_test', 1700000000, body)).toBe(`v1=${expected}`)
+  })
+
+  it('should back off exponentially up to the maximum delay', () => {
+    expect(webhookService.retryDelay(1)).toBe(60 * 1000)
+    expect(webhookService.retryDelay(2)).toBe(2 * 60 * 1000)
+    expect(webhookService.retryDelay(4)).toBe(8 * 60 * 1000)
+    expect(webhookService.retryDelay(20)).toBe(6 * 60 * 60 * 1000)
+  })
+
+  it('should only queue audit events that have a webhook counterpart', async () => {
+    await webhookService.publishAuditEvent({
+      id: 'audit-event-id',
+      type: 'organization.created',
+      actorId: 'user-id',
+      targetId: 'user-id',
+      createdAt: new Date(),
+    })
+
+    expect(prisma.webhookEndpoint.findMany).not.toHaveBeenCalled()
+    expect(prisma.webhookDelivery.createMany).not.toHaveBeenCalled()
+  })
+
+  describe('attemptDelivery', () => {
+    let fetchSpy: jest.SpyInstance
+
+    async function queueDelivery(attempts: number) {
+      ;(prisma.webhookEndpoint.create as jest.Mock).mockImplementationOnce(({ data }) => Promise.resolve({
+        id: 'endpoint-id',
+        enabled: true,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...data,
+      }))
+      const { secret } = await webhookService.createEndpoint({
+        url: 'http://localhost:4020/webhooks',
+        events: ['user.login'],
+        createdById: 'admin-id',
+      })
+      const storedSecret = (prisma.webhookEndpoint.create as jest.Mock).mock.calls[0][0].data.secret
+
+      ;(prisma.webhookDelivery.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 })
+      ;(prisma.webhookDelivery.findUnique as jest.Mock).mockResolvedValueOnce({
+        id: 'delivery-id',
+        eventId: 'event-id',
+        eventType: 'user.login',
+        payload: { id: 'event-id', type: 'user.login' },
+        attempts,
+        endpoint: { id: 'endpoint-id', url: 'http://localhost:4020/webhooks', enabled: true, secret: storedSecret },
+      })
+
+      return secret
+    }
+
+    beforeEach(() => {
+      fetchSpy = jest.spyOn(global, 'fetch')
+    })
+
+    afterEach(() => {
+      fetchSpy.mockRestore()
+    })
+
+    it('should send a signed request and mark the delivery as succeeded', async () => {
+      const secret = await queueDelivery(0)
+      fetchSpy.mockResolvedValueOnce(new Response(null, { status: 204 }))
+
+      const status = await webhookService.attemptDelivery('delivery-id')
+
+      expect(status).toBe('succeeded')
+      const [, init] = fetchSpy.mock.calls[0]
+      const headers = init.headers as Record<string, string>
+      expect(headers['X-Webhook-Signature']).toBe(
+        webhookService.sign(secret, Number(headers['X-Webhook-Timestamp']), init.body as string)
+      )
+    })
+
+    it('should reschedule failed attempts', async () => {
+      await queueDelivery(2)
+      fetchSpy.mockResolvedValueOnce(new Response(null, { status: 500 }))
+
+      const status = await webhookService.attemptDelivery('delivery-id')
+
+      expect(status).toBe('pending')
+      const { data } = (prisma.webhookDelivery.update as jest.Mock).mock.calls[0][0]
+      expect(data).toMatchObject({ status: 'pending', attempts: 3, responseStatus: 500, lastError: 'HTTP 500' })
+      expect(data.nextAttemptAt.getTime()).toBeGreaterThan(Date.now() + 3 * 60 * 1000)
+    })
+
+    it('should give up after the last attempt', async () => {
+      await queueDelivery(9)
+      fetchSpy.mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+
+      const status = await webhookService.attemptDelivery('delivery-id')
+
+      expect(status).toBe('failed')
+      expect((prisma.webhookDelivery.update as jest.Mock).mock.calls[0][0].data).toMatchObject({
+        status: 'failed',
+        attempts: 10,
+        nextAttemptAt: null,
+        lastError: 'connect ECONNREFUSED',
+      })
+    })
+
+    it('should skip deliveries claimed by another run', async () => {
+      const status = await webhookService.attemptDelivery('delivery-id')
+
+      expect(status).toBeNull()
+      expect(fetchSpy).not.toHaveBeenCalled()
+    })
+  })
+
+  it('should not replay deliveries of another endpoint', async () => {
+    ;(prisma.webhookDelivery.findUnique as jest.Mock).mockResolvedValueOnce({
+      id: 'delivery-id',
+      endpointId: 'other-endpoint-id',
+    })
+
+    const delivery = await webhookService.replayDelivery('endpoint-id', 'delivery-id')
+
+    expect(delivery).toBeNull()
+    expect(prisma.webhookDelivery.create).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { jwtKeyring } from '@/lib/jwt-keyring'
+
+/**
+ * Public keys for verifying access tokens issued by this service
+ */
+export async function GET() {
+  try {
+    const jwks = await jwtKeyring.getPublicJWKS()
+
+    return NextResponse.json(jwks, {
+      headers: {
+        // Short enough that verifiers pick up a rotated key quickly
+        'Cache-Control': 'public, max-age=300, must-revalidate',
+        'Access-Control-Allow-Origin': '*',
+      },
+    })
+  } catch (error) {
+    console.error('JWKS error:', error)
+    return NextResponse.json({ error: 'Failed to load signing keys' }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { auditService, AUDIT_EVENT_TYPES } from '@/lib/audit-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// Audit query schema; type is a comma separated list of event types
+const auditQuerySchema = z.object({
+  userId: z.string().min(1).optional(),
+  type: z.string().optional()
+    .transform(value => value?.split(',').map(type => type.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(AUDIT_EVENT_TYPES)).optional()),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+})
+
+// GET /api/admin/audit-events - Query the audit log (?userId&type&from&to&cursor&limit)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'audit:read')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const validationResult = auditQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    )
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { userId, type, from, to, cursor, limit } = validationResult.data
+
+    if (from && to && from > to) {
+      return ApiResponseHandler.error('VALIDATION_ERROR', 'from must be before to', 400)
+    }
+
+    const result = await auditService.query({ userId, types: type, from, to, cursor, limit })
+
+    return ApiResponseHandler.success(result)
+  } catch (error) {
+    console.error('Query audit events error:', error)
+    return ApiResponseHandler.internalError('Failed to query audit events')
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { ipReputationService } from '@/lib/ip-reputation-service'
+import { canonicalizeCIDR, formatCIDR, parseCIDR } from '@/lib/ip-address'
+import { authMiddleware } from '@/middlewares/auth'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// Removal schema; the reason is kept in the change history
+const removeEntrySchema = z.object({
+  reason: z.string().trim().min(1).max(200).optional(),
+})
+
+// GET /api/admin/ip-lists/:ip - Reputation, list entry and change history of an IP or CIDR block
+// (CIDR blocks are passed with the slash encoded, e.g. /api/admin/ip-lists/10.0.0.0%2F8)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ ip: string }> }
+) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'ip_lists:manage')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const range = parseCIDR(decodeURIComponent((await params).ip))
+
+    if (!range) {
+      return ApiResponseHandler.error('VALIDATION_ERROR', 'Invalid IP address or CIDR block', 400)
+    }
+
+    const ip = formatCIDR(range)
+    const isSingleIP = range.prefix === range.bytes.length * 8
+
+    // Reputation is tracked per address, so blocks only have an entry and history
+    const [reputation, entry, history] = await Promise.all([
+      isSingleIP ? ipReputationService.getReputation(ip) : null,
+      ipReputationService.getEntry(ip),
+      ipReputationService.getHistory(ip),
+    ])
+
+    return ApiResponseHandler.success({ reputation, entry, history })
+  } catch (error) {
+    console.error('Get IP reputation error:', error)
+    return ApiResponseHandler.internalError('Failed to retrieve IP reputation')
+  }
+}
+
+// DELETE /api/admin/ip-lists/:ip - Remove an IP or CIDR block from the allow or deny list
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ ip: string }> }
+) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'ip_lists:manage')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validationResult = removeEntrySchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const ip = canonicalizeCIDR(decodeURIComponent((await params).ip))
+
+    if (!ip) {
+      return ApiResponseHandler.error('VALIDATION_ERROR', 'Invalid IP address or CIDR block', 400)
+    }
+
+    const existing = await ipReputationService.getEntry(ip)
+
+    if (existing?.source === 'env') {
+      return ApiResponseHandler.conflict('This IP is listed in the environment configuration')
+    }
+
+    const removed = await ipReputationService.removeEntry(ip, {
+      reason: validationResult.data.reason,
+      actorId: auth.user.id,
+    })
+
+    if (!removed) {
+      return ApiResponseHandler.notFound('IP entry')
+    }
+
+    const clientIP = authMiddleware.getClientIP(request)
+    console.warn(`IP ${ip} removed from ${existing?.list || 'its'} list by ${auth.user.email} from IP: ${clientIP}`)
+
+    return ApiResponseHandler.success({ message: 'IP entry removed' })
+  } catch (error) {
+    console.error('Remove IP entry error:', error)
+    return ApiResponseHandler.internalError('Failed to remove IP entry')
+  }
+}
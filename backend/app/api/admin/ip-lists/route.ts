@@ -0,0 +1,80 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { ipReputationService, type IpList } from '@/lib/ip-reputation-service'
+import { canonicalizeCIDR } from '@/lib/ip-address'
+import { authMiddleware } from '@/middlewares/auth'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// Allow/deny entry schema; entries are an IP or CIDR block, permanent without expiresAt
+const ipListEntrySchema = z.object({
+  ipAddress: z.string().trim().refine(value => canonicalizeCIDR(value) !== null, 'Invalid IP address or CIDR block'),
+  list: z.enum(['allow', 'deny']),
+  reason: z.string().trim().min(1).max(200).optional(),
+  expiresAt: z.coerce.date().refine(date => date > new Date(), 'Expiry must be in the future').optional(),
+})
+
+// GET /api/admin/ip-lists - List allow/deny entries (?list=allow|deny&includeExpired=true)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'ip_lists:manage')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { searchParams } = request.nextUrl
+    const list = searchParams.get('list')
+
+    if (list && list !== 'allow' && list !== 'deny') {
+      return ApiResponseHandler.error('VALIDATION_ERROR', 'list must be "allow" or "deny"', 400)
+    }
+
+    const entries = await ipReputationService.listEntries({
+      list: (list as IpList | null) || undefined,
+      includeExpired: searchParams.get('includeExpired') === 'true',
+    })
+
+    return ApiResponseHandler.success({ entries })
+  } catch (error) {
+    console.error('List IP entries error:', error)
+    return ApiResponseHandler.internalError('Failed to list IP entries')
+  }
+}
+
+// POST /api/admin/ip-lists - Add an IP or CIDR block to the allow or deny list, or update its entry
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'ip_lists:manage')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validationResult = ipListEntrySchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { list, reason, expiresAt } = validationResult.data
+    const ipAddress = canonicalizeCIDR(validationResult.data.ipAddress)!
+    const existing = await ipReputationService.getEntry(ipAddress)
+
+    if (existing?.source === 'env') {
+      return ApiResponseHandler.conflict('This IP is listed in the environment configuration')
+    }
+
+    const entry = await ipReputationService.setEntry(ipAddress, list, {
+      reason,
+      expiresAt,
+      actorId: auth.user.id,
+    })
+    const clientIP = authMiddleware.getClientIP(request)
+
+    console.warn(`IP ${ipAddress} added to ${list} list by ${auth.user.email} from IP: ${clientIP}`)
+
+    return ApiResponseHandler.success({ entry }, existing ? 200 : 201)
+  } catch (error) {
+    console.error('Add IP entry error:', error)
+    return ApiResponseHandler.internalError('Failed to save IP entry')
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { jwtKeyring } from '@/lib/jwt-keyring'
+import { authMiddleware } from '@/middlewares/auth'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// Key rotation schema
+const rotateKeysSchema = z.object({
+  revokePrevious: z.boolean().optional().default(false),
+})
+
+// GET /api/admin/jwt-keys - List the JWT signing keys
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'jwt_keys:manage')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const keys = await jwtKeyring.listKeys()
+
+    return ApiResponseHandler.success({ keys })
+  } catch (error) {
+    console.error('List JWT keys error:', error)
+    return ApiResponseHandler.internalError('Failed to list signing keys')
+  }
+}
+
+// POST /api/admin/jwt-keys - Rotate the JWT signing key now
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'jwt_keys:manage')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validationResult = rotateKeysSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { revokePrevious } = validationResult.data
+    const kid = await jwtKeyring.rotateKeys({ revokePrevious })
+    const clientIP = authMiddleware.getClientIP(request)
+
+    console.warn(
+      `JWT signing key rotated by ${auth.user.email}` +
+      `${revokePrevious ? ' (previous keys revoked)' : ''} from IP: ${clientIP}`
+    )
+
+    return ApiResponseHandler.success({
+      message: revokePrevious
+        ? 'Signing key rotated. Tokens signed with previous keys are no longer valid.'
+        : 'Signing key rotated',
+      kid,
+    })
+  } catch (error) {
+    console.error('Rotate JWT keys error:', error)
+    return ApiResponseHandler.internalError('Failed to rotate signing keys')
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server'
+import { permissionService } from '@/lib/permission-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// GET /api/admin/roles - Roles and the permissions they grant
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'users:read')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const roles = await permissionService.listRoles()
+
+    return ApiResponseHandler.success({ roles })
+  } catch (error) {
+    console.error('List roles error:', error)
+    return ApiResponseHandler.internalError('Failed to list roles')
+  }
+}
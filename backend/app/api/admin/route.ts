@@ -31,15 +31,12 @@ export async function GET(request: NextRequest) {
     }
 
     // Authenticate and authorize admin access
-    const authResult = await authMiddleware(request)
+    const authResult = await authMiddleware(request, { requiredPermissions: ['admin:access'] })
 
-    if (!authResult.authenticated) {
-      return ApiResponseHandler.unauthorized('Authentication required')
-    }
-
-    // Check admin role authorization
-    if (!authResult.user || !['admin', 'super_admin'].includes(authResult.user.role)) {
-      return ApiResponseHandler.forbidden('Admin access required')
+    if (!authResult.authenticated || !authResult.user) {
+      return authResult.status === 403
+        ? ApiResponseHandler.forbidden('Admin access required')
+        : ApiResponseHandler.unauthorized('Authentication required')
     }
 
     // Validate query parameters
@@ -68,7 +65,7 @@ export async function GET(request: NextRequest) {
     
     // Get user statistics
     const userStats = await PrismaUserService.getUserStats()
-    const allUsers = await PrismaUserService.getAllUsers()
+    const { users: recentUsers } = await PrismaUserService.listUsers({ page: 1, limit })
 
     const stats = {
       totalUsers: userStats.totalUsers,
@@ -82,7 +79,7 @@ export async function GET(request: NextRequest) {
         adminUsers: userStats.adminUsers,
         regularUsers: userStats.regularUsers
       },
-      recentUsers: allUsers.slice(0, limit).map(user => ({
+      recentUsers: recentUsers.map(user => ({
         id: user.id,
         username: user.username,
         email: user.email,
@@ -0,0 +1,100 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { impersonationService } from '@/lib/impersonation-service'
+import { auditService } from '@/lib/audit-service'
+import { permissionService } from '@/lib/permission-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// Impersonation request schema; the reason is kept in the audit log
+const impersonateSchema = z.object({
+  reason: z.string().trim().min(1, 'Reason is required').max(200),
+  durationMinutes: z.number().int().min(1).max(60).optional(),
+})
+
+// POST /api/admin/users/:id/impersonate - Issue a short-lived access token acting as the user
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'users:impersonate')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validationResult = impersonateSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { reason, durationMinutes } = validationResult.data
+    const context = auditService.requestContext(request)
+
+    const target = await prisma.user.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        role: true,
+        isLocked: true,
+        lockedUntil: true,
+      },
+    })
+
+    if (!target) {
+      return ApiResponseHandler.notFound('User')
+    }
+
+    // Impersonating a user who holds permissions would hand them out
+    const targetPermissions = await permissionService.getRolePermissions(target.role)
+    if (targetPermissions.length > 0 || !await permissionService.canManageUser(auth.user, target)) {
+      return ApiResponseHandler.forbidden('This user cannot be impersonated')
+    }
+
+    if (target.isLocked && (!target.lockedUntil || target.lockedUntil > new Date())) {
+      return ApiResponseHandler.conflict('Locked accounts cannot be impersonated')
+    }
+
+    const impersonation = await impersonationService.start({
+      admin: auth.user,
+      user: target,
+      durationMinutes,
+      ...context,
+    })
+
+    await auditService.record({
+      type: 'impersonation.started',
+      actorId: auth.user.id,
+      targetId: id,
+      ...context,
+      metadata: {
+        reason,
+        sessionId: impersonation.sessionId,
+        expiresAt: impersonation.expiresAt.toISOString(),
+      },
+    })
+
+    console.log(`Admin ${auth.user.id} started impersonating user ${id} from IP: ${context.ipAddress}`)
+
+    return ApiResponseHandler.success({
+      message: 'Impersonation started',
+      accessToken: impersonation.accessToken,
+      sessionId: impersonation.sessionId,
+      expiresAt: impersonation.expiresAt,
+      user: {
+        id: target.id,
+        email: target.email,
+        username: target.username,
+      },
+    }, 201)
+  } catch (error) {
+    console.error('Start impersonation error:', error)
+    return ApiResponseHandler.internalError('Failed to start impersonation')
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { jwtService } from '@/lib/jwt-service'
+import { sessionService } from '@/lib/session-service'
+import { auditService } from '@/lib/audit-service'
+import { permissionService } from '@/lib/permission-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// POST /api/admin/users/:id/logout - Sign the user out of every session
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'users:update')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const clientIP = authMiddleware.getClientIP(request)
+
+    const target = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, role: true },
+    })
+
+    if (!target) {
+      return ApiResponseHandler.notFound('User')
+    }
+
+    if (!await permissionService.canManageUser(auth.user, target)) {
+      return ApiResponseHandler.forbidden('You cannot manage this user')
+    }
+
+    const sessions = await sessionService.getUserSessions(id)
+
+    await Promise.all([
+      jwtService.revokeAllRefreshTokens(id),
+      sessionService.invalidateAllUserSessions(id),
+    ])
+
+    await auditService.record({
+      type: 'sessions.revoked',
+      actorId: auth.user.id,
+      targetId: id,
+      ...auditService.requestContext(request),
+      metadata: { reason: 'Forced logout by admin', sessions: sessions.length },
+    })
+
+    console.log(`All sessions of user ${id} revoked by admin ${auth.user.id} from IP: ${clientIP}`)
+
+    return ApiResponseHandler.success({
+      message: 'User has been logged out of all sessions',
+      revokedSessions: sessions.length,
+    })
+  } catch (error) {
+    console.error('Force logout error:', error)
+    return ApiResponseHandler.internalError('Failed to log out user')
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { jwtService } from '@/lib/jwt-service'
+import { sessionService } from '@/lib/session-service'
+import { passwordResetService } from '@/lib/password-reset-service'
+import { auditService } from '@/lib/audit-service'
+import { permissionService } from '@/lib/permission-service'
+import { sendEmail, getPasswordResetEmailHtml } from '@/services/email.service'
+import { authMiddleware } from '@/middlewares/auth'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// Reset request schema; revokeSessions signs the user out right away
+const adminPasswordResetSchema = z.object({
+  revokeSessions: z.boolean().optional().default(false),
+})
+
+// POST /api/admin/users/:id/password-reset - Email the user a password reset link
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'users:update')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    const validationResult = adminPasswordResetSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { revokeSessions } = validationResult.data
+    const clientIP = authMiddleware.getClientIP(request)
+
+    const target = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, email: true, role: true },
+    })
+
+    if (!target) {
+      return ApiResponseHandler.notFound('User')
+    }
+
+    if (!await permissionService.canManageUser(auth.user, target)) {
+      return ApiResponseHandler.forbidden('You cannot manage this user')
+    }
+
+    const resetToken = await passwordResetService.createResetToken(id, {
+      ipAddress: clientIP,
+    })
+
+    if (!resetToken) {
+      return ApiResponseHandler.rateLimitExceeded(
+        undefined,
+        'A password reset link was sent recently. Please try again later.'
+      )
+    }
+
+    const emailResult = await sendEmail({
+      to: target.email,
+      subject: 'Reset your password',
+      html: getPasswordResetEmailHtml(resetToken.token),
+    })
+
+    if (!emailResult.success) {
+      console.error(`Failed to send admin password reset email to user ${id}:`, emailResult.error)
+      return ApiResponseHandler.error('EXTERNAL_SERVICE_ERROR', 'Failed to send password reset email', 502)
+    }
+
+    if (revokeSessions) {
+      await Promise.all([
+        jwtService.revokeAllRefreshTokens(id),
+        sessionService.invalidateAllUserSessions(id),
+      ])
+    }
+
+    await auditService.record({
+      type: 'password.reset_requested',
+      actorId: auth.user.id,
+      targetId: id,
+      ...auditService.requestContext(request),
+      metadata: { revokeSessions, expiresAt: resetToken.expiresAt.toISOString() },
+    })
+
+    console.log(`Password reset for user ${id} sent by admin ${auth.user.id} from IP: ${clientIP}`)
+
+    return ApiResponseHandler.success({
+      message: 'Password reset email sent',
+      expiresAt: resetToken.expiresAt,
+      sessionsRevoked: revokeSessions,
+    })
+  } catch (error) {
+    console.error('Admin password reset error:', error)
+    return ApiResponseHandler.internalError('Failed to send password reset')
+  }
+}
@@ -0,0 +1,198 @@
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { sessionService } from '@/lib/session-service'
+import { auditService } from '@/lib/audit-service'
+import { adminUserUpdateSchema } from '@/lib/validators'
+import { permissionService } from '@/lib/permission-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { ApiResponseHandler } from '@/lib/api-response'
+import { hasPermissions } from '@/lib/permissions'
+
+// GET /api/admin/users/:id - User detail with active sessions and passkeys
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'users:read')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { id } = await params
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        email: true,
+        emailVerifiedAt: true,
+        username: true,
+        role: true,
+        profilePicture: true,
+        lastLoginAt: true,
+        loginCount: true,
+        isLocked: true,
+        lockedUntil: true,
+        adminLockedAt: true,
+        lockReason: true,
+        totpEnabledAt: true,
+        createdAt: true,
+        updatedAt: true,
+        webauthnCredentials: {
+          select: {
+            id: true,
+            name: true,
+            credentialDeviceType: true,
+            credentialBackedUp: true,
+            lastUsedAt: true,
+            cloneDetectedAt: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    })
+
+    if (!user) {
+      return ApiResponseHandler.notFound('User')
+    }
+
+    const { webauthnCredentials: passkeys, ...profile } = user
+    const [sessions, permissions] = await Promise.all([
+      sessionService.getUserSessions(id),
+      permissionService.getRolePermissions(user.role),
+    ])
+
+    return ApiResponseHandler.success({ user: { ...profile, permissions }, sessions, passkeys })
+  } catch (error) {
+    console.error('Get user error:', error)
+    return ApiResponseHandler.internalError('Failed to retrieve user')
+  }
+}
+
+// PUT /api/admin/users/:id - Change role or lock state ({ role?, isLocked?, lockedUntil?, reason? })
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'users:update')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validationResult = adminUserUpdateSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { role, isLocked, lockedUntil, reason } = validationResult.data
+    const admin = auth.user
+    const clientIP = authMiddleware.getClientIP(request)
+
+    const target = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, role: true, isLocked: true, lockedUntil: true },
+    })
+
+    if (!target) {
+      return ApiResponseHandler.notFound('User')
+    }
+
+    if (!await permissionService.canManageUser(admin, target)) {
+      return ApiResponseHandler.forbidden('You cannot manage this user')
+    }
+
+    const roleChanged = role !== undefined && role !== target.role
+    if (roleChanged) {
+      if (!hasPermissions(admin.permissions, ['roles:assign'])) {
+        return ApiResponseHandler.forbidden('Changing roles requires the roles:assign permission')
+      }
+
+      const newRole = await permissionService.getRole(role)
+      if (!newRole) {
+        return ApiResponseHandler.error('VALIDATION_ERROR', `Unknown role: ${role}`, 400)
+      }
+
+      // Nobody can hand out permissions they don't hold themselves
+      if (!hasPermissions(admin.permissions, newRole.permissions)) {
+        return ApiResponseHandler.forbidden('You cannot assign a role with permissions you do not have')
+      }
+    }
+
+    // A lock expiry on its own locks the account until then. Admin locks are
+    // marked with adminLockedAt so a password reset can't lift them.
+    const lock = isLocked === true || (isLocked === undefined && !!lockedUntil)
+    const unlock = isLocked === false
+
+    const updatedUser = await prisma.user.update({
+      where: { id },
+      data: {
+        ...(roleChanged ? { role } : {}),
+        ...(lock ? {
+          isLocked: true,
+          lockedUntil: lockedUntil ?? null,
+          adminLockedAt: new Date(),
+          lockReason: reason ?? null,
+        } : {}),
+        ...(unlock ? { isLocked: false, lockedUntil: null, adminLockedAt: null, lockReason: null } : {}),
+      },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        role: true,
+        isLocked: true,
+        lockedUntil: true,
+        adminLockedAt: true,
+        lockReason: true,
+        updatedAt: true,
+      },
+    })
+
+    const context = auditService.requestContext(request)
+
+    if (roleChanged) {
+      await auditService.record({
+        type: 'role.changed',
+        actorId: admin.id,
+        targetId: id,
+        ...context,
+        metadata: { from: target.role, to: updatedUser.role },
+      })
+    }
+
+    if (lock) {
+      await auditService.record({
+        type: 'account.locked',
+        actorId: admin.id,
+        targetId: id,
+        ...context,
+        metadata: {
+          reason: reason ?? 'Locked by admin',
+          lockedUntil: updatedUser.lockedUntil?.toISOString() ?? null,
+        },
+      })
+    }
+
+    if (unlock && target.isLocked) {
+      await auditService.record({
+        type: 'account.unlocked',
+        actorId: admin.id,
+        targetId: id,
+        ...context,
+      })
+    }
+
+    console.log(`User ${id} updated by admin ${admin.id} from IP: ${clientIP}`)
+
+    return ApiResponseHandler.success({ user: updatedUser })
+  } catch (error) {
+    console.error('Update user error:', error)
+    return ApiResponseHandler.internalError('Failed to update user')
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { PrismaUserService } from '@/services/user.service'
+import { paginationSchema } from '@/lib/validators'
+import { authMiddleware } from '@/middlewares/auth'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// User list query schema
+const listUsersSchema = paginationSchema.extend({
+  search: z.string().trim().min(1).max(255).optional(),
+  role: z.string().trim().min(1).max(50).optional(),
+  locked: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+})
+
+// GET /api/admin/users - List users (?page&limit&search&role&locked)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'users:read')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const validationResult = listUsersSchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    )
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { page, limit, search, role, locked } = validationResult.data
+    const { users, total } = await PrismaUserService.listUsers({ page, limit, search, role, locked })
+    const totalPages = Math.ceil(total / limit)
+
+    return ApiResponseHandler.success({
+      users,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    })
+  } catch (error) {
+    console.error('List users error:', error)
+    return ApiResponseHandler.internalError('Failed to list users')
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server'
+import { webhookService } from '@/lib/webhook-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// POST /api/admin/webhooks/:id/deliveries/:deliveryId/replay - Send a delivery again with the same event ID
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'webhooks:manage')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { id, deliveryId } = await params
+    const delivery = await webhookService.replayDelivery(id, deliveryId)
+
+    if (!delivery) {
+      return ApiResponseHandler.notFound('Webhook delivery')
+    }
+
+    const clientIP = authMiddleware.getClientIP(request)
+
+    console.log(`Webhook delivery ${deliveryId} replayed as ${delivery.id} by ${auth.user.email} from IP: ${clientIP}`)
+
+    return ApiResponseHandler.success({ delivery }, 201)
+  } catch (error) {
+    console.error('Replay webhook delivery error:', error)
+    return ApiResponseHandler.internalError('Failed to replay webhook delivery')
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { webhookService } from '@/lib/webhook-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// Delivery log query schema
+const deliveryQuerySchema = z.object({
+  status: z.enum(['pending', 'succeeded', 'failed']).optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+})
+
+// GET /api/admin/webhooks/:id/deliveries - Delivery log, newest first (?status&cursor&limit)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'webhooks:manage')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const endpoint = await webhookService.getEndpoint(id)
+
+    if (!endpoint) {
+      return ApiResponseHandler.notFound('Webhook endpoint')
+    }
+
+    const validationResult = deliveryQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    )
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const result = await webhookService.listDeliveries(id, validationResult.data)
+
+    return ApiResponseHandler.success(result)
+  } catch (error) {
+    console.error('List webhook deliveries error:', error)
+    return ApiResponseHandler.internalError('Failed to list webhook deliveries')
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest } from 'next/server'
+import { webhookService } from '@/lib/webhook-service'
+import { webhookEndpointUpdateSchema } from '@/lib/validators'
+import { authMiddleware } from '@/middlewares/auth'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// GET /api/admin/webhooks/:id - Endpoint details
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'webhooks:manage')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const endpoint = await webhookService.getEndpoint((await params).id)
+
+    if (!endpoint) {
+      return ApiResponseHandler.notFound('Webhook endpoint')
+    }
+
+    return ApiResponseHandler.success({ endpoint })
+  } catch (error) {
+    console.error('Get webhook endpoint error:', error)
+    return ApiResponseHandler.internalError('Failed to retrieve webhook endpoint')
+  }
+}
+
+// PATCH /api/admin/webhooks/:id - Change the URL, events or enabled flag, or rotate the secret
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'webhooks:manage')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validationResult = webhookEndpointUpdateSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { id } = await params
+    const result = await webhookService.updateEndpoint(id, validationResult.data)
+
+    if (!result) {
+      return ApiResponseHandler.notFound('Webhook endpoint')
+    }
+
+    const clientIP = authMiddleware.getClientIP(request)
+
+    console.warn(`Webhook endpoint ${id} updated by ${auth.user.email}${result.secret ? ' (secret rotated)' : ''} from IP: ${clientIP}`)
+
+    return ApiResponseHandler.success(result)
+  } catch (error) {
+    console.error('Update webhook endpoint error:', error)
+    return ApiResponseHandler.internalError('Failed to update webhook endpoint')
+  }
+}
+
+// DELETE /api/admin/webhooks/:id - Remove an endpoint and its delivery log
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'webhooks:manage')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { id } = await params
+    const deleted = await webhookService.deleteEndpoint(id)
+
+    if (!deleted) {
+      return ApiResponseHandler.notFound('Webhook endpoint')
+    }
+
+    const clientIP = authMiddleware.getClientIP(request)
+
+    console.warn(`Webhook endpoint ${id} deleted by ${auth.user.email} from IP: ${clientIP}`)
+
+    return ApiResponseHandler.success({ message: 'Webhook endpoint deleted' })
+  } catch (error) {
+    console.error('Delete webhook endpoint error:', error)
+    return ApiResponseHandler.internalError('Failed to delete webhook endpoint')
+  }
+}
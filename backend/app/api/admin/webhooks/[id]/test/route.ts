@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server'
+import { webhookService } from '@/lib/webhook-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// POST /api/admin/webhooks/:id/test - Queue a webhook.ping delivery to the endpoint
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'webhooks:manage')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const delivery = await webhookService.sendPing((await params).id)
+
+    if (!delivery) {
+      return ApiResponseHandler.notFound('Webhook endpoint')
+    }
+
+    return ApiResponseHandler.success({ delivery }, 201)
+  } catch (error) {
+    console.error('Test webhook endpoint error:', error)
+    return ApiResponseHandler.internalError('Failed to test webhook endpoint')
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server'
+import { webhookService } from '@/lib/webhook-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// POST /api/admin/webhooks/process - Send deliveries that are due, including retries.
+// Meant to be called by a scheduler, e.g. with an API key scoped to write and webhooks:manage.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'webhooks:manage')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const result = await webhookService.processDueDeliveries()
+
+    return ApiResponseHandler.success(result)
+  } catch (error) {
+    console.error('Process webhook deliveries error:', error)
+    return ApiResponseHandler.internalError('Failed to process webhook deliveries')
+  }
+}
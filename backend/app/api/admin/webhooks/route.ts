@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server'
+import { webhookService } from '@/lib/webhook-service'
+import { WEBHOOK_EVENT_TYPES } from '@/lib/webhook-events'
+import { webhookEndpointSchema } from '@/lib/validators'
+import { authMiddleware } from '@/middlewares/auth'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// GET /api/admin/webhooks - List webhook endpoints
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'webhooks:manage')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const endpoints = await webhookService.listEndpoints()
+
+    return ApiResponseHandler.success({ endpoints, events: WEBHOOK_EVENT_TYPES })
+  } catch (error) {
+    console.error('List webhook endpoints error:', error)
+    return ApiResponseHandler.internalError('Failed to list webhook endpoints')
+  }
+}
+
+// POST /api/admin/webhooks - Register an endpoint; the signing secret is only returned here
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authMiddleware.authorizeAdmin(request, 'webhooks:manage')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validationResult = webhookEndpointSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { url, description, events } = validationResult.data
+    const { secret, endpoint } = await webhookService.createEndpoint({
+      url,
+      description,
+      events,
+      createdById: auth.user.id,
+    })
+    const clientIP = authMiddleware.getClientIP(request)
+
+    console.warn(`Webhook endpoint ${endpoint.id} (${url}) registered by ${auth.user.email} from IP: ${clientIP}`)
+
+    return ApiResponseHandler.success({ endpoint, secret }, 201)
+  } catch (error) {
+    console.error('Create webhook endpoint error:', error)
+    return ApiResponseHandler.internalError('Failed to create webhook endpoint')
+  }
+}
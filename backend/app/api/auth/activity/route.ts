@@ -0,0 +1,82 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { auditService, AUDIT_EVENT_TYPES } from '@/lib/audit-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// Activity query schema; type is a comma separated list of event types
+const activityQuerySchema = z.object({
+  type: z.string().optional()
+    .transform(value => value?.split(',').map(type => type.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(AUDIT_EVENT_TYPES)).optional()),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(50),
+})
+
+/**
+ * The authenticated user's security activity: sign-ins, lockouts and account changes
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_activity',
+      RATE_LIMIT_CONFIGS.AUTH_PROFILE
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many requests')
+    }
+
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const validationResult = activityQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    )
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { type, from, to, cursor, limit } = validationResult.data
+
+    if (from && to && from > to) {
+      return ApiResponseHandler.error('VALIDATION_ERROR', 'from must be before to', 400)
+    }
+
+    const userId = authResult.user.id
+    const { events, nextCursor } = await auditService.query({
+      userId,
+      types: type,
+      from,
+      to,
+      cursor,
+      limit,
+    })
+
+    return ApiResponseHandler.success({
+      events: events.map(event => ({
+        id: event.id,
+        type: event.type,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        metadata: event.metadata,
+        createdAt: event.createdAt,
+        // Set when someone else, e.g. an admin, acted on the account
+        byOtherUser: !!event.actorId && event.actorId !== userId,
+      })),
+      nextCursor,
+    })
+  } catch (error) {
+    console.error('List security activity error:', error)
+    return ApiResponseHandler.internalError('Failed to retrieve security activity')
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server'
+import { apiKeyService } from '@/lib/api-key-service'
+import { auditService } from '@/lib/audit-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+/**
+ * Revoke one of the authenticated user's API keys. A key may revoke itself,
+ * e.g. when a script finds out it has leaked.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_api_keys',
+      RATE_LIMIT_CONFIGS.AUTH_PROFILE
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many requests')
+    }
+
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const { id } = await params
+
+    if (authResult.apiKey && authResult.apiKey.id !== id) {
+      return authMiddleware.rejectApiKey(authResult)
+    }
+
+    const revoked = await apiKeyService.revokeKey(authResult.user.id, id)
+
+    if (!revoked) {
+      return ApiResponseHandler.notFound('API key')
+    }
+
+    const context = auditService.requestContext(request)
+    await auditService.record({
+      type: 'api_key.revoked',
+      actorId: authResult.impersonator?.id || authResult.user.id,
+      targetId: authResult.user.id,
+      ...context,
+      metadata: { apiKeyId: id },
+    })
+
+    console.log(`API key ${id} of user ${authResult.user.id} revoked from IP: ${context.ipAddress}`)
+
+    return ApiResponseHandler.success({ message: 'API key revoked' })
+  } catch (error) {
+    console.error('Revoke API key error:', error)
+    return ApiResponseHandler.internalError('Failed to revoke API key')
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { apiKeyService, API_KEY_SCOPES } from '@/lib/api-key-service'
+import { auditService } from '@/lib/audit-service'
+import { hasPermissions } from '@/lib/permissions'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// Schema for creating a key; without expiresInDays the key never expires
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50, 'Name too long'),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'At least one scope is required')
+    .refine(scopes => scopes.some(scope => apiKeyService.isAccessScope(scope)), {
+      message: 'Scopes must include read or write',
+    }),
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+})
+
+/**
+ * List the authenticated user's active API keys. Only the key prefix is returned.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_api_keys',
+      RATE_LIMIT_CONFIGS.AUTH_PROFILE
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many requests')
+    }
+
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const apiKeys = await apiKeyService.listKeys(authResult.user.id)
+
+    return ApiResponseHandler.success({
+      apiKeys: apiKeys.map(apiKey => ({
+        ...apiKey,
+        current: apiKey.id === authResult.apiKey?.id,
+      })),
+    })
+  } catch (error) {
+    console.error('List API keys error:', error)
+    return ApiResponseHandler.internalError('Failed to retrieve API keys')
+  }
+}
+
+/**
+ * Create an API key. The key is only returned in this response.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_api_keys',
+      RATE_LIMIT_CONFIGS.AUTH_PROFILE
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many requests')
+    }
+
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const impersonationResponse = authMiddleware.rejectImpersonation(authResult)
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    const apiKeyResponse = authMiddleware.rejectApiKey(authResult)
+    if (apiKeyResponse) {
+      return apiKeyResponse
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validationResult = createApiKeySchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { name, scopes, expiresInDays } = validationResult.data
+
+    // Permission scopes cannot exceed what the user's role grants
+    const permissionScopes = scopes.filter(scope => !apiKeyService.isAccessScope(scope))
+    if (!hasPermissions(authResult.user.permissions, permissionScopes)) {
+      return ApiResponseHandler.forbidden('Cannot grant an API key permissions you do not hold')
+    }
+
+    const created = await apiKeyService.createKey({
+      userId: authResult.user.id,
+      name,
+      scopes,
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+    })
+
+    if (!created) {
+      return ApiResponseHandler.conflict('API key limit reached; revoke an unused key first')
+    }
+
+    const context = auditService.requestContext(request)
+    await auditService.record({
+      type: 'api_key.created',
+      actorId: authResult.user.id,
+      targetId: authResult.user.id,
+      ...context,
+      metadata: { apiKeyId: created.apiKey.id, name, scopes: scopes.join(' ') },
+    })
+
+    console.log(`User ${authResult.user.id} created API key ${created.apiKey.id} from IP: ${context.ipAddress}`)
+
+    return ApiResponseHandler.success({
+      message: 'API key created. Copy it now; it will not be shown again.',
+      key: created.key,
+      apiKey: created.apiKey,
+    }, 201)
+  } catch (error) {
+    console.error('Create API key error:', error)
+    return ApiResponseHandler.internalError('Failed to create API key')
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { PrismaUserService } from '@/services/user.service'
+import { auditService } from '@/lib/audit-service'
 import { authMiddleware } from '@/middlewares/auth'
 import { ApiResponseHandler } from '@/lib/api-response'
 import { SecurityMiddleware } from '@/middlewares/security'
@@ -53,9 +54,7 @@ export async function POST(request: NextRequest) {
     }
 
     const { newUsername: username } = validationResult.data
-    const clientIP = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 
-                     request.headers.get('x-real-ip') || 
-                     'unknown'
+    const clientIP = authMiddleware.getClientIP(request)
 
     // Check if username is already taken
     const existingUser = await PrismaUserService.findByUsername(username)
@@ -77,6 +76,14 @@ export async function POST(request: NextRequest) {
       return ApiResponseHandler.internalError('Failed to update username')
     }
 
+    await auditService.record({
+      type: 'username.changed',
+      actorId: authResult.user.id,
+      targetId: authResult.user.id,
+      ...auditService.requestContext(request),
+      metadata: { from: authResult.user.username, to: username },
+    })
+
     console.log(`Username changed: ${authResult.user.email} changed username to ${username} from IP: ${clientIP}`)
 
     return ApiResponseHandler.success(
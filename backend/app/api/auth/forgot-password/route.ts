@@ -0,0 +1,94 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { passwordResetService } from '@/lib/password-reset-service'
+import { sendEmail, getPasswordResetEmailHtml } from '@/services/email.service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+const forgotPasswordSchema = z.object({
+  email: z.string()
+    .email('Invalid email format')
+    .toLowerCase()
+    .max(255, 'Email must be less than 255 characters'),
+})
+
+// Same response whether or not the account exists, to prevent email enumeration
+const GENERIC_RESPONSE_MESSAGE = 'If an account with that email exists, a password reset link has been sent.'
+
+/**
+ * Create a reset token and email the link, unless the account is throttled
+ */
+async function sendResetEmail(user: { id: string; email: string }, clientIP: string): Promise<void> {
+  const resetToken = await passwordResetService.createResetToken(user.id, {
+    ipAddress: clientIP,
+  })
+
+  if (!resetToken) {
+    console.warn(`Password reset throttled for ${user.email} from IP: ${clientIP}`)
+    return
+  }
+
+  const emailResult = await sendEmail({
+    to: user.email,
+    subject: 'Reset your password',
+    html: getPasswordResetEmailHtml(resetToken.token),
+  })
+
+  if (!emailResult.success) {
+    console.error(`Failed to send password reset email to ${user.email}:`, emailResult.error)
+  } else {
+    console.log(`Password reset email sent to ${user.email} from IP: ${clientIP}`)
+  }
+}
+
+/**
+ * Request a password reset email
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_forgot_password',
+      RATE_LIMIT_CONFIGS.AUTH_FORGOT_PASSWORD
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(
+        retryAfter,
+        'Too many password reset requests'
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = forgotPasswordSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { email } = validationResult.data
+    const clientIP = authMiddleware.getClientIP(request)
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true },
+    })
+
+    if (!user) {
+      console.warn(`Password reset requested for unknown email ${email} from IP: ${clientIP}`)
+      return ApiResponseHandler.success({ message: GENERIC_RESPONSE_MESSAGE })
+    }
+
+    // Not awaited, so known and unknown emails take the same time to answer
+    sendResetEmail(user, clientIP)
+      .catch(error => console.error(`Failed to send password reset email to ${email}:`, error))
+
+    return ApiResponseHandler.success({ message: GENERIC_RESPONSE_MESSAGE })
+  } catch (error) {
+    console.error('Forgot password error:', error)
+    return ApiResponseHandler.internalError('Failed to process password reset request')
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest } from 'next/server'
+import { impersonationService } from '@/lib/impersonation-service'
+import { auditService } from '@/lib/audit-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+/**
+ * Whether the current token impersonates the user, and by whom
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_impersonation',
+      RATE_LIMIT_CONFIGS.AUTH_PROFILE
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many requests')
+    }
+
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    return ApiResponseHandler.success({
+      impersonating: !!authResult.impersonator,
+      impersonator: authResult.impersonator || null,
+      expiresAt: authResult.impersonator && authResult.token?.exp
+        ? new Date(authResult.token.exp * 1000)
+        : null,
+    })
+  } catch (error) {
+    console.error('Get impersonation status error:', error)
+    return ApiResponseHandler.internalError('Failed to retrieve impersonation status')
+  }
+}
+
+/**
+ * End impersonation: revoke the impersonation session behind the current token
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_impersonation',
+      RATE_LIMIT_CONFIGS.AUTH_PROFILE
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many requests')
+    }
+
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const sessionId = authResult.token?.sessionId
+
+    if (!authResult.impersonator || !sessionId) {
+      return ApiResponseHandler.error('NOT_IMPERSONATING', 'The current token is not an impersonation token', 400)
+    }
+
+    await impersonationService.end(sessionId)
+
+    const context = auditService.requestContext(request)
+    await auditService.record({
+      type: 'impersonation.ended',
+      actorId: authResult.impersonator.id,
+      targetId: authResult.user.id,
+      ...context,
+      metadata: { sessionId },
+    })
+
+    console.log(`Admin ${authResult.impersonator.id} stopped impersonating user ${authResult.user.id} from IP: ${context.ipAddress}`)
+
+    return ApiResponseHandler.success({ message: 'Impersonation ended' })
+  } catch (error) {
+    console.error('End impersonation error:', error)
+    return ApiResponseHandler.internalError('Failed to end impersonation')
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { createHash } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import {
+  magicLinkService,
+  MAGIC_LINK_DEVICE_COOKIE,
+  MAGIC_LINK_DEVICE_COOKIE_MAX_AGE,
+} from '@/lib/magic-link-service'
+import { sendEmail, getMagicLinkEmailHtml } from '@/services/email.service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+const magicLinkRequestSchema = z.object({
+  email: z.string()
+    .email('Invalid email format')
+    .toLowerCase()
+    .max(255, 'Email must be less than 255 characters'),
+  rememberMe: z.boolean().optional().default(false),
+})
+
+// Same response whether or not the account exists, to prevent email enumeration
+const GENERIC_RESPONSE_MESSAGE = 'If an account with that email exists, a sign-in link has been sent.'
+
+/**
+ * Create a sign-in token bound to the device and email the link
+ */
+async function sendMagicLinkEmail(
+  user: { id: string; email: string; username: string; role: string },
+  options: { deviceNonce: string; rememberMe: boolean },
+  clientIP: string
+): Promise<void> {
+  const { token } = await magicLinkService.createToken(user, options)
+
+  const emailResult = await sendEmail({
+    to: user.email,
+    subject: 'Your sign-in link',
+    html: getMagicLinkEmailHtml(token),
+  })
+
+  if (!emailResult.success) {
+    console.error(`Failed to send magic link email to ${user.email}:`, emailResult.error)
+  } else {
+    console.log(`Magic link email sent to ${user.email} from IP: ${clientIP}`)
+  }
+}
+
+/**
+ * Request a magic sign-in link by email. The response sets a device cookie;
+ * the link only works in a browser that holds it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_magic_link',
+      RATE_LIMIT_CONFIGS.AUTH_MAGIC_LINK
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(
+        retryAfter,
+        'Too many sign-in link requests'
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = magicLinkRequestSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { email, rememberMe } = validationResult.data
+    const clientIP = authMiddleware.getClientIP(request)
+
+    // Keep using the browser's existing nonce, so earlier links stay valid
+    const existingNonce = request.cookies.get(MAGIC_LINK_DEVICE_COOKIE)?.value
+    const deviceNonce = magicLinkService.isDeviceNonce(existingNonce)
+      ? existingNonce
+      : magicLinkService.generateDeviceNonce()
+
+    const response = ApiResponseHandler.success({ message: GENERIC_RESPONSE_MESSAGE })
+    response.cookies.set(MAGIC_LINK_DEVICE_COOKIE, deviceNonce, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: MAGIC_LINK_DEVICE_COOKIE_MAX_AGE,
+      path: '/api/auth/magic-link',
+    })
+
+    // Limit emails per address too, so one inbox can't be flooded from many IPs
+    const emailRateLimit = await RateLimiter.checkRateLimit(request, 'auth_magic_link_email', {
+      ...RATE_LIMIT_CONFIGS.AUTH_MAGIC_LINK_EMAIL,
+      keyGenerator: () => createHash('sha256').update(email).digest('hex'),
+    })
+
+    if (!emailRateLimit.allowed) {
+      console.warn(`Magic link throttled for ${email} from IP: ${clientIP}`)
+      return response
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true, username: true, role: true },
+    })
+
+    if (!user) {
+      console.warn(`Magic link requested for unknown email ${email} from IP: ${clientIP}`)
+      return response
+    }
+
+    // Not awaited, so known and unknown emails take the same time to answer
+    sendMagicLinkEmail(user, { deviceNonce, rememberMe }, clientIP)
+      .catch(error => console.error(`Failed to send magic link email to ${email}:`, error))
+
+    return response
+  } catch (error) {
+    console.error('Magic link request error:', error)
+    return ApiResponseHandler.internalError('Failed to process sign-in link request')
+  }
+}
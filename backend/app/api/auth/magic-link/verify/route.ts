@@ -0,0 +1,234 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { magicLinkService, MAGIC_LINK_DEVICE_COOKIE } from '@/lib/magic-link-service'
+import { sessionService } from '@/lib/session-service'
+import { mfaService } from '@/lib/mfa-service'
+import { auditService } from '@/lib/audit-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+const verifyMagicLinkSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+})
+
+/**
+ * The device cookie is single-use along with the link
+ */
+function clearDeviceCookie(response: NextResponse): NextResponse {
+  response.cookies.set(MAGIC_LINK_DEVICE_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 0,
+    path: '/api/auth/magic-link',
+  })
+  return response
+}
+
+/**
+ * Exchange a magic link token for a session. Must be called from the browser
+ * that requested the link.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_magic_link_verify',
+      RATE_LIMIT_CONFIGS.AUTH_LOGIN
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(
+        retryAfter,
+        'Too many login attempts'
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = verifyMagicLinkSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { token } = validationResult.data
+    const clientIP = authMiddleware.getClientIP(request)
+    const userAgent = request.headers.get('user-agent') || 'Unknown'
+
+    const verification = await magicLinkService.verifyToken(
+      token,
+      request.cookies.get(MAGIC_LINK_DEVICE_COOKIE)?.value
+    )
+
+    if (!verification.success) {
+      console.warn(`Magic link login failed (${verification.error}) from IP: ${clientIP}`)
+      await auditService.record({
+        type: 'login.failed',
+        ipAddress: clientIP,
+        userAgent,
+        metadata: { method: 'magic_link', reason: verification.error },
+      })
+
+      if (verification.error === 'DEVICE_MISMATCH') {
+        return ApiResponseHandler.error(
+          'DEVICE_MISMATCH',
+          'Open the sign-in link in the browser where you requested it',
+          400
+        )
+      }
+
+      return ApiResponseHandler.error('TOKEN_INVALID', 'Invalid or expired sign-in link', 400)
+    }
+
+    const { claims } = verification
+
+    const user = await prisma.user.findUnique({
+      where: { id: claims.sub },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        role: true,
+        isLocked: true,
+        lockedUntil: true,
+        emailVerifiedAt: true,
+        totpEnabledAt: true,
+      },
+    })
+
+    // Links stop working when the account's email changes
+    if (!user || user.email !== claims.email) {
+      return ApiResponseHandler.error('TOKEN_INVALID', 'Invalid or expired sign-in link', 400)
+    }
+
+    if (user.isLocked && (!user.lockedUntil || user.lockedUntil > new Date())) {
+      console.warn(`Magic link login attempt for locked account: ${user.email} from IP: ${clientIP}`)
+      await auditService.record({
+        type: 'login.failed',
+        targetId: user.id,
+        ipAddress: clientIP,
+        userAgent,
+        metadata: { method: 'magic_link', reason: 'Account locked' },
+      })
+      return ApiResponseHandler.forbidden(
+        `Account is temporarily locked until ${user.lockedUntil?.toISOString()}. Please try again later.`
+      )
+    }
+
+    if (!(await magicLinkService.consumeToken(token, claims))) {
+      return ApiResponseHandler.error('TOKEN_INVALID', 'Invalid or expired sign-in link', 400)
+    }
+
+    // Following the link proves control of the mailbox
+    if (!user.emailVerifiedAt) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { emailVerifiedAt: new Date() },
+      })
+    }
+
+    const rememberMe = !!claims.rememberMe
+
+    // Local two-factor still applies to passwordless logins
+    if (user.totpEnabledAt) {
+      const challenge = await mfaService.createChallenge(user, {
+        amr: ['email'],
+        rememberMe,
+        authMethod: 'magic_link',
+      })
+
+      await RateLimiter.recordAttempt(request, 'auth_magic_link_verify', true)
+
+      console.log(`MFA challenge issued for ${user.username} (magic link) from IP: ${clientIP}`)
+
+      return clearDeviceCookie(ApiResponseHandler.success({
+        message: 'Two-factor authentication required',
+        mfaRequired: true,
+        challengeToken: challenge.challengeToken,
+        challengeExpiresAt: challenge.expiresAt,
+        methods: challenge.methods,
+      }))
+    }
+
+    const sessionResult = await sessionService.createSessionWithJWT({
+      userId: user.id,
+      ipAddress: clientIP,
+      userAgent,
+      rememberMe,
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        role: user.role,
+      },
+      authMethod: 'magic_link',
+    })
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        lastLoginAt: new Date(),
+        loginCount: { increment: 1 },
+      },
+    })
+
+    await RateLimiter.recordAttempt(request, 'auth_magic_link_verify', true)
+
+    await auditService.record({
+      type: 'login.succeeded',
+      actorId: user.id,
+      targetId: user.id,
+      ipAddress: clientIP,
+      userAgent,
+      metadata: { method: 'magic_link', sessionId: sessionResult.session.id },
+    })
+
+    console.log(`Successful magic link login: ${user.username} (${user.email}) from IP: ${clientIP}`)
+
+    const response = ApiResponseHandler.success({
+      message: 'Login successful',
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        role: user.role,
+      },
+      session: {
+        id: sessionResult.session.id,
+        expiresAt: sessionResult.session.expires,
+        rememberMe
+      },
+      token: sessionResult.sessionToken,
+      tokens: {
+        accessToken: sessionResult.accessToken,
+        refreshToken: rememberMe ? sessionResult.refreshToken : undefined,
+        expiresAt: new Date(Date.now() + (rememberMe ? 30 * 24 * 60 * 60 * 1000 : 24 * 60 * 60 * 1000))
+      }
+    })
+
+    sessionService.setSessionCookies(
+      response,
+      sessionResult.sessionToken,
+      sessionResult.csrfToken,
+      { rememberMe }
+    )
+
+    response.cookies.set('auth-token', sessionResult.accessToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: rememberMe ? 30 * 24 * 60 * 60 : 24 * 60 * 60, // 30 days or 24 hours
+      path: '/',
+    })
+
+    authMiddleware.addSecurityHeaders(response)
+
+    return clearDeviceCookie(response)
+  } catch (error) {
+    console.error('Magic link verify error:', error)
+    return ApiResponseHandler.internalError('Login failed. Please try again later.')
+  }
+}
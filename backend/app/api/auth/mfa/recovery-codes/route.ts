@@ -0,0 +1,156 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import bcrypt from 'bcryptjs'
+import { prisma } from '@/lib/prisma'
+import { recoveryCodeService } from '@/lib/recovery-code-service'
+import { mfaService } from '@/lib/mfa-service'
+import { passkeyReauthService } from '@/lib/passkey-reauth-service'
+import { passkeyAssertionSchema } from '@/lib/validators'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+const regenerateSchema = z.object({
+  password: z.string()
+    .min(1, 'Password is required')
+    .max(128, 'Password must be less than 128 characters')
+    .optional(),
+  // Accounts without a password confirm with a passkey or a current TOTP code
+  passkeyCredential: passkeyAssertionSchema.optional(),
+  code: z.string()
+    .regex(/^\d{6}$/, 'Code must be 6 digits')
+    .optional(),
+})
+
+/**
+ * Get the number of unused recovery codes for the authenticated user
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const remaining = await recoveryCodeService.countRemaining(authResult.user.id)
+
+    return ApiResponseHandler.success({ remaining })
+  } catch (error) {
+    console.error('Get recovery codes error:', error)
+    return ApiResponseHandler.internalError('Failed to retrieve recovery codes')
+  }
+}
+
+/**
+ * Generate a new set of recovery codes, invalidating the previous set.
+ * Accounts with a password must confirm it, others confirm with a passkey or TOTP code.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'mfa_recovery_codes',
+      RATE_LIMIT_CONFIGS.AUTH_CHANGE_PASSWORD
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many attempts')
+    }
+
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const impersonationResponse = authMiddleware.rejectImpersonation(authResult)
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    const apiKeyResponse = authMiddleware.rejectApiKey(authResult)
+    if (apiKeyResponse) {
+      return apiKeyResponse
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validationResult = regenerateSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: authResult.user.id },
+      select: {
+        id: true,
+        email: true,
+        password: true,
+        totpEnabledAt: true,
+        _count: { select: { webauthnCredentials: true } },
+      },
+    })
+
+    if (!user) {
+      return ApiResponseHandler.notFound('User')
+    }
+
+    if (!user.totpEnabledAt && user._count.webauthnCredentials === 0) {
+      return ApiResponseHandler.error(
+        'VALIDATION_ERROR',
+        'Recovery codes require two-factor authentication or a registered passkey',
+        400
+      )
+    }
+
+    if (user.password) {
+      const { password } = validationResult.data
+      const isValidPassword = !!password && await bcrypt.compare(password, user.password)
+
+      if (!isValidPassword) {
+        await authMiddleware.logAuthAttempt({
+          email: user.email,
+          ipAddress: authMiddleware.getClientIP(request),
+          userAgent: request.headers.get('user-agent') || undefined,
+          success: false,
+          failReason: 'Invalid password for recovery code regeneration',
+          userId: user.id,
+        })
+        return ApiResponseHandler.unauthorized('Invalid password')
+      }
+    } else {
+      const { passkeyCredential, code } = validationResult.data
+      const isReauthenticated = passkeyCredential
+        ? await passkeyReauthService.verify(user.id, passkeyCredential)
+        : !!code && !!user.totpEnabledAt && await mfaService.verifyTOTPCode(user.id, code)
+
+      if (!isReauthenticated) {
+        await authMiddleware.logAuthAttempt({
+          email: user.email,
+          ipAddress: authMiddleware.getClientIP(request),
+          userAgent: request.headers.get('user-agent') || undefined,
+          success: false,
+          failReason: 'Reauthentication failed for recovery code regeneration',
+          userId: user.id,
+        })
+        return ApiResponseHandler.unauthorized('Confirm with one of your passkeys or an authenticator code')
+      }
+    }
+
+    const recoveryCodes = await recoveryCodeService.generateCodes(user.id)
+
+    await RateLimiter.recordAttempt(request, 'mfa_recovery_codes', true)
+
+    console.log(`Recovery codes regenerated for user ${user.email}`)
+
+    return ApiResponseHandler.success({
+      message: 'New recovery codes generated. Previous codes no longer work.',
+      recoveryCodes,
+    })
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error)
+    return ApiResponseHandler.internalError('Failed to generate recovery codes')
+  }
+}
@@ -0,0 +1,251 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import bcrypt from 'bcryptjs'
+import { prisma } from '@/lib/prisma'
+import { mfaService } from '@/lib/mfa-service'
+import { recoveryCodeService } from '@/lib/recovery-code-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+const confirmTOTPSchema = z.object({
+  code: z.string()
+    .regex(/^\d{6}$/, 'Code must be 6 digits'),
+})
+
+// Accounts without a password confirm with a current code instead
+const disableTOTPSchema = z.object({
+  password: z.string()
+    .min(1, 'Password is required')
+    .max(128, 'Password must be less than 128 characters')
+    .optional(),
+  code: z.string()
+    .regex(/^\d{6}$/, 'Code must be 6 digits')
+    .optional(),
+})
+
+/**
+ * Get TOTP status for the authenticated user
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const enabled = await mfaService.isTOTPEnabled(authResult.user.id)
+
+    return ApiResponseHandler.success({ totpEnabled: enabled })
+  } catch (error) {
+    console.error('Get TOTP status error:', error)
+    return ApiResponseHandler.internalError('Failed to retrieve two-factor status')
+  }
+}
+
+/**
+ * Begin TOTP enrollment - returns the secret and otpauth URI to show as a QR code
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const impersonationResponse = authMiddleware.rejectImpersonation(authResult)
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    const apiKeyResponse = authMiddleware.rejectApiKey(authResult)
+    if (apiKeyResponse) {
+      return apiKeyResponse
+    }
+
+    const enrollment = await mfaService.beginTOTPEnrollment(
+      authResult.user.id,
+      authResult.user.email
+    )
+
+    if (!enrollment) {
+      return ApiResponseHandler.conflict('Two-factor authentication is already enabled')
+    }
+
+    return ApiResponseHandler.success({
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      secret: enrollment.secret,
+      otpauthUri: enrollment.otpauthUri,
+      qrData: enrollment.qrData,
+    })
+  } catch (error) {
+    console.error('TOTP enrollment error:', error)
+    return ApiResponseHandler.internalError('Failed to start two-factor enrollment')
+  }
+}
+
+/**
+ * Confirm TOTP enrollment with a code from the authenticator app
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'mfa_totp_confirm',
+      RATE_LIMIT_CONFIGS.AUTH_CHANGE_PASSWORD
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many confirmation attempts')
+    }
+
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const impersonationResponse = authMiddleware.rejectImpersonation(authResult)
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    const apiKeyResponse = authMiddleware.rejectApiKey(authResult)
+    if (apiKeyResponse) {
+      return apiKeyResponse
+    }
+
+    const body = await request.json()
+    const validationResult = confirmTOTPSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const confirmed = await mfaService.confirmTOTPEnrollment(
+      authResult.user.id,
+      validationResult.data.code
+    )
+
+    if (!confirmed) {
+      return ApiResponseHandler.error('VALIDATION_ERROR', 'Invalid code or no pending enrollment', 400)
+    }
+
+    const recoveryCodes = await recoveryCodeService.generateCodes(authResult.user.id)
+
+    await RateLimiter.recordAttempt(request, 'mfa_totp_confirm', true)
+
+    console.log(`TOTP enabled for user ${authResult.user.email}`)
+
+    return ApiResponseHandler.success({
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+      totpEnabled: true,
+      recoveryCodes,
+    })
+  } catch (error) {
+    console.error('TOTP confirmation error:', error)
+    return ApiResponseHandler.internalError('Failed to confirm two-factor enrollment')
+  }
+}
+
+/**
+ * Disable TOTP (requires the account password)
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'mfa_totp_disable',
+      RATE_LIMIT_CONFIGS.AUTH_CHANGE_PASSWORD
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many attempts')
+    }
+
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const impersonationResponse = authMiddleware.rejectImpersonation(authResult)
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    const apiKeyResponse = authMiddleware.rejectApiKey(authResult)
+    if (apiKeyResponse) {
+      return apiKeyResponse
+    }
+
+    const body = await request.json()
+    const validationResult = disableTOTPSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: authResult.user.id },
+      select: {
+        id: true,
+        email: true,
+        password: true,
+        totpEnabledAt: true,
+        totpSecret: true,
+        _count: { select: { webauthnCredentials: true } },
+      },
+    })
+
+    if (!user) {
+      return ApiResponseHandler.notFound('User')
+    }
+
+    if (!user.totpEnabledAt && !user.totpSecret) {
+      return ApiResponseHandler.error('VALIDATION_ERROR', 'Two-factor authentication is not enabled', 400)
+    }
+
+    const { password, code } = validationResult.data
+
+    // An unconfirmed enrollment protects nothing yet, so it can be dropped without a code
+    const isReauthenticated = user.password
+      ? !!password && await bcrypt.compare(password, user.password)
+      : !user.totpEnabledAt || (!!code && await mfaService.verifyTOTPCode(user.id, code))
+
+    if (!isReauthenticated) {
+      await authMiddleware.logAuthAttempt({
+        email: user.email,
+        ipAddress: authMiddleware.getClientIP(request),
+        userAgent: request.headers.get('user-agent') || undefined,
+        success: false,
+        failReason: user.password ? 'Invalid password for TOTP disable' : 'Invalid code for TOTP disable',
+        userId: user.id,
+      })
+      return ApiResponseHandler.unauthorized(user.password ? 'Invalid password' : 'Invalid code')
+    }
+
+    await mfaService.disableTOTP(user.id)
+
+    // Recovery codes only stay useful while a passkey is registered
+    if (user._count.webauthnCredentials === 0) {
+      await recoveryCodeService.deleteCodes(user.id)
+    }
+
+    await RateLimiter.recordAttempt(request, 'mfa_totp_disable', true)
+
+    console.log(`TOTP disabled for user ${user.email}`)
+
+    return ApiResponseHandler.success({
+      message: 'Two-factor authentication disabled',
+      totpEnabled: false,
+    })
+  } catch (error) {
+    console.error('TOTP disable error:', error)
+    return ApiResponseHandler.internalError('Failed to disable two-factor authentication')
+  }
+}
@@ -0,0 +1,227 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { sessionService } from '@/lib/session-service'
+import { mfaService } from '@/lib/mfa-service'
+import { recoveryCodeService } from '@/lib/recovery-code-service'
+import { auditService } from '@/lib/audit-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+const verifyMFASchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: z.string()
+    .regex(/^\d{6}$/, 'Code must be 6 digits')
+    .optional(),
+  recoveryCode: z.string()
+    .min(1, 'Recovery code is required')
+    .max(32, 'Recovery code is too long')
+    .optional(),
+}).refine((data) => !!data.code !== !!data.recoveryCode, {
+  message: 'Provide either a code or a recovery code',
+  path: ['code']
+})
+
+/**
+ * Second login step: exchange an MFA challenge token and a TOTP code
+ * (or a one-time recovery code) for a session
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_mfa_verify',
+      RATE_LIMIT_CONFIGS.AUTH_LOGIN
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(
+        retryAfter,
+        'Too many verification attempts'
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = verifyMFASchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { challengeToken, code, recoveryCode } = validationResult.data
+    const clientIP = authMiddleware.getClientIP(request)
+    const userAgent = request.headers.get('user-agent') || 'Unknown'
+
+    const challenge = await mfaService.verifyChallenge(challengeToken)
+
+    if (!challenge) {
+      console.warn(`Invalid or expired MFA challenge from IP: ${clientIP}`)
+      return ApiResponseHandler.unauthorized('Invalid or expired challenge. Please sign in again.')
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: challenge.sub },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        role: true,
+        isLocked: true,
+        lockedUntil: true,
+      },
+    })
+
+    if (!user) {
+      return ApiResponseHandler.unauthorized('Invalid or expired challenge. Please sign in again.')
+    }
+
+    if (user.isLocked && (!user.lockedUntil || user.lockedUntil > new Date())) {
+      console.warn(`MFA attempt for locked account: ${user.email} from IP: ${clientIP}`)
+      await auditService.record({
+        type: 'login.failed',
+        targetId: user.id,
+        ipAddress: clientIP,
+        userAgent,
+        metadata: { method: 'mfa', reason: 'Account locked' },
+      })
+      return ApiResponseHandler.forbidden('Account is temporarily locked. Please try again later.')
+    }
+
+    const isValidCode = recoveryCode
+      ? await recoveryCodeService.consumeCode(user.id, recoveryCode)
+      : await mfaService.verifyTOTPCode(user.id, code!)
+
+    if (!isValidCode) {
+      console.warn(`Failed MFA verification for ${user.email} from IP: ${clientIP}`)
+
+      await authMiddleware.logAuthAttempt({
+        email: user.email,
+        ipAddress: clientIP,
+        userAgent,
+        success: false,
+        failReason: recoveryCode ? 'Invalid recovery code' : 'Invalid TOTP code',
+        userId: user.id,
+      })
+      await auditService.record({
+        type: 'login.failed',
+        targetId: user.id,
+        ipAddress: clientIP,
+        userAgent,
+        metadata: { method: 'mfa', reason: recoveryCode ? 'Invalid recovery code' : 'Invalid TOTP code' },
+      })
+
+      const shouldLock = await authMiddleware.checkAndLockUser(user.id)
+
+      if (shouldLock) {
+        await auditService.record({
+          type: 'account.locked',
+          targetId: user.id,
+          ipAddress: clientIP,
+          userAgent,
+          metadata: { reason: 'Too many failed verification attempts' },
+        })
+        return ApiResponseHandler.forbidden('Too many failed attempts. Account has been temporarily locked.')
+      }
+
+      return ApiResponseHandler.unauthorized('Invalid verification code')
+    }
+
+    await mfaService.consumeChallenge(challengeToken, user.id)
+
+    const recoveryCodesRemaining = recoveryCode
+      ? await recoveryCodeService.countRemaining(user.id)
+      : undefined
+
+    if (recoveryCode) {
+      console.log(`Recovery code used by ${user.email}, ${recoveryCodesRemaining} remaining`)
+    }
+
+    const rememberMe = !!challenge.rememberMe
+    const sessionResult = await sessionService.createSessionWithJWT({
+      userId: user.id,
+      ipAddress: clientIP,
+      userAgent,
+      rememberMe,
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        role: user.role,
+      },
+      authMethod: challenge.authMethod || 'credentials',
+      // RFC 8176: a recovery code is knowledge-based, not a one-time password
+      amr: [...(challenge.amr || ['pwd']), recoveryCode ? 'kba' : 'otp', 'mfa'],
+    })
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        lastLoginAt: new Date(),
+        loginCount: { increment: 1 },
+      },
+    })
+
+    await RateLimiter.recordAttempt(request, 'auth_mfa_verify', true)
+
+    await auditService.record({
+      type: 'login.succeeded',
+      actorId: user.id,
+      targetId: user.id,
+      ipAddress: clientIP,
+      userAgent,
+      metadata: {
+        method: 'mfa',
+        factor: recoveryCode ? 'recovery_code' : 'totp',
+        sessionId: sessionResult.session.id,
+      },
+    })
+
+    console.log(`Successful MFA login: ${user.username} (${user.email}) from IP: ${clientIP}`)
+
+    const response = ApiResponseHandler.success({
+      message: 'Login successful',
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        role: user.role,
+      },
+      session: {
+        id: sessionResult.session.id,
+        expiresAt: sessionResult.session.expires,
+        rememberMe
+      },
+      token: sessionResult.sessionToken,
+      tokens: {
+        accessToken: sessionResult.accessToken,
+        refreshToken: rememberMe ? sessionResult.refreshToken : undefined,
+        expiresAt: new Date(Date.now() + (rememberMe ? 30 * 24 * 60 * 60 * 1000 : 24 * 60 * 60 * 1000))
+      },
+      recoveryCodesRemaining,
+    })
+
+    sessionService.setSessionCookies(
+      response,
+      sessionResult.sessionToken,
+      sessionResult.csrfToken,
+      { rememberMe }
+    )
+
+    response.cookies.set('auth-token', sessionResult.accessToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: rememberMe ? 30 * 24 * 60 * 60 : 24 * 60 * 60, // 30 days or 24 hours
+      path: '/',
+    })
+
+    authMiddleware.addSecurityHeaders(response)
+
+    return response
+  } catch (error) {
+    console.error('MFA verification error:', error)
+    return ApiResponseHandler.internalError('Verification failed. Please try again later.')
+  }
+}
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { sessionService } from '@/lib/session-service'
+import { mfaService } from '@/lib/mfa-service'
+import { auditService } from '@/lib/audit-service'
+import { oidcService, OIDC_STATE_COOKIE } from '@/lib/oidc-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+/**
+ * Redirect back to the app's login page with an error code
+ */
+function loginErrorRedirect(appUrl: string, error: string): NextResponse {
+  const response = NextResponse.redirect(`${appUrl}/auth/login?error=${encodeURIComponent(error)}`)
+  response.cookies.delete({ name: OIDC_STATE_COOKIE, path: '/api/auth/oidc' })
+  return response
+}
+
+/**
+ * OIDC callback: exchange the authorization code, resolve the local user and start a session
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { searchParams, origin } = request.nextUrl
+  const appUrl = oidcService.getAppUrl(origin)
+
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_oidc_callback',
+      RATE_LIMIT_CONFIGS.AUTH_LOGIN
+    )
+
+    if (!rateLimitResult.allowed) {
+      return loginErrorRedirect(appUrl, 'RATE_LIMITED')
+    }
+
+    const { provider: providerId } = await params
+    const provider = oidcService.getProvider(providerId)
+
+    if (!provider) {
+      return ApiResponseHandler.notFound('Login provider')
+    }
+
+    const clientIP = authMiddleware.getClientIP(request)
+    const userAgent = request.headers.get('user-agent') || 'Unknown'
+
+    const providerError = searchParams.get('error')
+    if (providerError) {
+      console.warn(`OIDC login with ${provider.id} cancelled (${providerError}) from IP: ${clientIP}`)
+      return loginErrorRedirect(appUrl, 'PROVIDER_ERROR')
+    }
+
+    const code = searchParams.get('code')
+    const state = searchParams.get('state')
+
+    if (!code || !state) {
+      return loginErrorRedirect(appUrl, 'INVALID_STATE')
+    }
+
+    const callbackResult = await oidcService.handleCallback(
+      provider,
+      { code, state },
+      request.cookies.get(OIDC_STATE_COOKIE)?.value,
+      oidcService.getRedirectUri(provider.id, origin)
+    )
+
+    if (!callbackResult.success) {
+      console.warn(`OIDC callback from ${provider.id} failed (${callbackResult.error}) from IP: ${clientIP}`)
+      return loginErrorRedirect(appUrl, callbackResult.error)
+    }
+
+    const userResult = await oidcService.findOrCreateUser(provider.id, callbackResult.profile)
+
+    if (!userResult.success) {
+      console.warn(`OIDC login with ${provider.id} rejected (${userResult.error}) from IP: ${clientIP}`)
+      return loginErrorRedirect(appUrl, userResult.error)
+    }
+
+    const { user } = userResult
+    const { rememberMe } = callbackResult
+
+    if (userResult.created) {
+      await auditService.record({
+        type: 'account.created',
+        actorId: user.id,
+        targetId: user.id,
+        ipAddress: clientIP,
+        userAgent,
+        metadata: { method: 'oidc', provider: provider.id },
+      })
+    }
+
+    if (user.isLocked && (!user.lockedUntil || user.lockedUntil > new Date())) {
+      console.warn(`OIDC login attempt for locked account: ${user.email} from IP: ${clientIP}`)
+      await auditService.record({
+        type: 'login.failed',
+        targetId: user.id,
+        ipAddress: clientIP,
+        userAgent,
+        metadata: { method: 'oidc', provider: provider.id, reason: 'Account locked' },
+      })
+      return loginErrorRedirect(appUrl, 'ACCOUNT_LOCKED')
+    }
+
+    // Local two-factor still applies to federated logins
+    if (user.totpEnabledAt) {
+      const challenge = await mfaService.createChallenge(user, {
+        amr: [],
+        rememberMe,
+        authMethod: 'oauth',
+      })
+
+      await RateLimiter.recordAttempt(request, 'auth_oidc_callback', true)
+
+      console.log(`MFA challenge issued for ${user.username} (${provider.id}) from IP: ${clientIP}`)
+
+      const response = NextResponse.redirect(
+        `${appUrl}/auth/login#mfaChallenge=${encodeURIComponent(challenge.challengeToken)}`
+      )
+      response.cookies.delete({ name: OIDC_STATE_COOKIE, path: '/api/auth/oidc' })
+      return response
+    }
+
+    const sessionResult = await sessionService.createSessionWithJWT({
+      userId: user.id,
+      ipAddress: clientIP,
+      userAgent,
+      rememberMe,
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        role: user.role,
+      },
+      authMethod: 'oauth',
+    })
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        lastLoginAt: new Date(),
+        loginCount: { increment: 1 },
+      },
+    })
+
+    await RateLimiter.recordAttempt(request, 'auth_oidc_callback', true)
+
+    await auditService.record({
+      type: 'login.succeeded',
+      actorId: user.id,
+      targetId: user.id,
+      ipAddress: clientIP,
+      userAgent,
+      metadata: {
+        method: 'oidc',
+        provider: provider.id,
+        sessionId: sessionResult.session.id,
+        newAccount: userResult.created,
+      },
+    })
+
+    console.log(`Successful ${provider.id} login: ${user.username} (${user.email}) from IP: ${clientIP}${userResult.created ? ' - new account' : ''}`)
+
+    const response = NextResponse.redirect(`${appUrl}${callbackResult.returnTo || '/'}`)
+
+    sessionService.setSessionCookies(
+      response,
+      sessionResult.sessionToken,
+      sessionResult.csrfToken,
+      { rememberMe }
+    )
+
+    response.cookies.set('auth-token', sessionResult.accessToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: rememberMe ? 30 * 24 * 60 * 60 : 24 * 60 * 60, // 30 days or 24 hours
+      path: '/',
+    })
+
+    response.cookies.delete({ name: OIDC_STATE_COOKIE, path: '/api/auth/oidc' })
+
+    authMiddleware.addSecurityHeaders(response)
+
+    return response
+  } catch (error) {
+    console.error('OIDC callback error:', error)
+    return loginErrorRedirect(appUrl, 'LOGIN_FAILED')
+  }
+}
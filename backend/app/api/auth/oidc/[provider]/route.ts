@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { oidcService, OIDC_STATE_COOKIE } from '@/lib/oidc-service'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+/**
+ * Start an OIDC login: redirect the browser to the provider's authorization endpoint
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_oidc',
+      RATE_LIMIT_CONFIGS.AUTH_LOGIN
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many login attempts')
+    }
+
+    const { provider: providerId } = await params
+    const provider = oidcService.getProvider(providerId)
+
+    if (!provider) {
+      return ApiResponseHandler.notFound('Login provider')
+    }
+
+    const { searchParams, origin } = request.nextUrl
+    const { url, stateCookie } = await oidcService.createAuthorizationRequest(
+      provider,
+      oidcService.getRedirectUri(provider.id, origin),
+      {
+        returnTo: oidcService.sanitizeReturnTo(searchParams.get('returnTo')),
+        rememberMe: searchParams.get('rememberMe') === 'true',
+      }
+    )
+
+    const response = NextResponse.redirect(url)
+
+    response.cookies.set(OIDC_STATE_COOKIE, stateCookie, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax', // Must survive the top-level redirect back from the provider
+      maxAge: 10 * 60, // 10 minutes
+      path: '/api/auth/oidc',
+    })
+
+    return response
+  } catch (error) {
+    console.error('OIDC login start error:', error)
+    return ApiResponseHandler.error('EXTERNAL_SERVICE_ERROR', 'Login provider is unavailable', 502)
+  }
+}
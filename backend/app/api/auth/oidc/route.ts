@@ -0,0 +1,20 @@
+import { ApiResponseHandler } from '@/lib/api-response'
+import { oidcService } from '@/lib/oidc-service'
+
+/**
+ * List the configured OIDC/OAuth login providers
+ */
+export async function GET() {
+  try {
+    const providers = oidcService.getProviders().map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      loginUrl: `/api/auth/oidc/${provider.id}`,
+    }))
+
+    return ApiResponseHandler.success({ providers })
+  } catch (error) {
+    console.error('List OIDC providers error:', error)
+    return ApiResponseHandler.internalError('Failed to list login providers')
+  }
+}
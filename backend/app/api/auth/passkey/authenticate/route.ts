@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { generateAuthenticationOptions, verifyAuthenticationResponse } from '@simplewebauthn/server'
 import type { AuthenticatorTransportFuture, PublicKeyCredentialDescriptorFuture } from '@simplewebauthn/types'
 import { prisma } from '@/lib/prisma'
-import { SignJWT } from 'jose'
+import { webauthnChallengeService } from '@/lib/webauthn-challenge-service'
+import { jwtService } from '@/lib/jwt-service'
+import { auditService } from '@/lib/audit-service'
 import { z } from 'zod'
 
 const rpID = process.env.NODE_ENV === 'production' ? process.env.VERCEL_URL || 'localhost' : 'localhost'
@@ -68,10 +70,18 @@ allowCredentials = user.webauthnCredentials.map(cred => ({
       userVerification: 'preferred'
     })
 
-    return NextResponse.json({
-      options,
-      challenge: options.challenge
-    })
+    // Bind the challenge to this browser with an anonymous ceremony cookie
+    const { sessionId } = webauthnChallengeService.getSessionId(request)
+    await webauthnChallengeService.storeChallenge(
+      'authentication',
+      { sessionId },
+      options.challenge
+    )
+
+    const response = NextResponse.json({ options })
+    webauthnChallengeService.setSessionCookie(response, sessionId)
+
+    return response
 
   } catch (error) {
     console.error('Passkey authentication initiation error:', error)
@@ -93,7 +103,20 @@ export async function PUT(request: NextRequest) {
   try {
     const body = await request.json()
     const { username, credential: rawCredential } = verifyAuthenticationSchema.parse(body)
-    
+
+    // Single use: a failed verification requires starting the authentication again
+    const { sessionId, isNew } = webauthnChallengeService.getSessionId(request)
+    const pendingChallenge = isNew
+      ? null
+      : await webauthnChallengeService.consumeChallenge('authentication', { sessionId })
+
+    if (!pendingChallenge) {
+      return NextResponse.json(
+        { error: 'Challenge expired or not found. Please start the sign-in again.' },
+        { status: 400 }
+      )
+    }
+
     // Ensure credential has required properties for SimpleWebAuthn
     const credential = {
       ...rawCredential,
@@ -121,58 +144,103 @@ export async function PUT(request: NextRequest) {
       )
     }
 
-    const expectedChallenge = request.headers.get('x-challenge')
-    
-    if (!expectedChallenge) {
+    if (dbCredential.cloneDetectedAt) {
+      await auditService.record({
+        type: 'login.failed',
+        targetId: dbCredential.userId,
+        ...auditService.requestContext(request),
+        metadata: { method: 'passkey', credentialId: dbCredential.id, reason: 'Passkey disabled' },
+      })
+
       return NextResponse.json(
-        { error: 'Challenge not provided' },
-        { status: 400 }
+        { error: 'This passkey has been disabled because it may have been cloned', code: 'CREDENTIAL_DISABLED' },
+        { status: 403 }
       )
     }
 
-    // Verify the authentication response
+    // Verify the authentication response. The sign counter is checked below
+    // instead of by the library so a regression can be recorded on the credential.
     const verification = await verifyAuthenticationResponse({
       response: {
         ...credential,
         clientExtensionResults: {}
       },
-      expectedChallenge,
+      expectedChallenge: pendingChallenge.challenge,
       expectedOrigin: origin,
       expectedRPID: rpID,
       authenticator: {
         credentialID: Buffer.from(dbCredential.credentialID, 'base64url'),
         credentialPublicKey: dbCredential.credentialPublicKey,
-        counter: dbCredential.counter,
+        counter: 0,
         transports: dbCredential.transports ? JSON.parse(dbCredential.transports) : undefined
       }
     })
 
     if (!verification.verified) {
+      await auditService.record({
+        type: 'login.failed',
+        targetId: dbCredential.userId,
+        ...auditService.requestContext(request),
+        metadata: { method: 'passkey', credentialId: dbCredential.id, reason: 'Verification failed' },
+      })
+
       return NextResponse.json(
         { error: 'Passkey authentication verification failed' },
         { status: 400 }
       )
     }
 
-    // Update counter
+    // Authenticators with a counter must always increase it; a repeat or
+    // lower value means another copy of the key has been used
+    const { newCounter } = verification.authenticationInfo
+    if ((newCounter > 0 || dbCredential.counter > 0) && newCounter <= dbCredential.counter) {
+      await prisma.webAuthnCredential.update({
+        where: { id: dbCredential.id },
+        data: { cloneDetectedAt: new Date() }
+      })
+
+      console.warn(
+        `Possible cloned passkey ${dbCredential.id} for user ${dbCredential.user.email}: ` +
+        `counter ${newCounter} <= stored ${dbCredential.counter}`
+      )
+      await auditService.record({
+        type: 'login.failed',
+        targetId: dbCredential.userId,
+        ...auditService.requestContext(request),
+        metadata: { method: 'passkey', credentialId: dbCredential.id, reason: 'Possible cloned passkey' },
+      })
+
+      return NextResponse.json(
+        { error: 'This passkey has been disabled because it may have been cloned', code: 'CREDENTIAL_DISABLED' },
+        { status: 403 }
+      )
+    }
+
+    // Update counter and last use
     await prisma.webAuthnCredential.update({
       where: { id: dbCredential.id },
-      data: { counter: verification.authenticationInfo.newCounter }
+      data: {
+        counter: newCounter,
+        lastUsedAt: new Date()
+      }
     })
 
-    // Generate JWT token
-    const secret = new TextEncoder().encode(process.env.NEXTAUTH_SECRET || 'fallback-secret')
-    const token = await new SignJWT({
+    // Generate JWT token signed with the current keyring key
+    const { token } = await jwtService.generateAccessToken({
       sub: dbCredential.user.id,
       username: dbCredential.user.username,
       email: dbCredential.user.email,
       role: dbCredential.user.role,
       authMethod: 'passkey'
+    }, { expiresIn: '24h' })
+
+    await auditService.record({
+      type: 'login.succeeded',
+      actorId: dbCredential.userId,
+      targetId: dbCredential.userId,
+      ...auditService.requestContext(request),
+      metadata: { method: 'passkey', credentialId: dbCredential.id },
     })
-      .setProtectedHeader({ alg: 'HS256' })
-      .setIssuedAt()
-      .setExpirationTime('24h')
-      .sign(secret)
 
     // Set HTTP-only cookie
     const response = NextResponse.json({
@@ -193,6 +261,8 @@ export async function PUT(request: NextRequest) {
       maxAge: 24 * 60 * 60 // 24 hours
     })
 
+    webauthnChallengeService.clearSessionCookie(response)
+
     return response
 
   } catch (error) {
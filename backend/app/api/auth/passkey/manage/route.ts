@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { auth } from '@/auth'
+import { getAuthenticatorName } from '@/lib/authenticator-metadata'
+import { auditService } from '@/lib/audit-service'
 import { z } from 'zod'
 
 // Schema for deleting a credential
@@ -8,6 +10,16 @@ const deleteCredentialSchema = z.object({
   credentialId: z.string().min(1, 'Credential ID is required')
 })
 
+// Schema for renaming a credential (`nickname` is accepted for older clients)
+const renameCredentialSchema = z.object({
+  credentialId: z.string().min(1, 'Credential ID is required'),
+  name: z.string().trim().min(1, 'Name is required').max(50, 'Name too long').optional(),
+  nickname: z.string().trim().min(1, 'Name is required').max(50, 'Name too long').optional()
+}).refine((data) => !!(data.name || data.nickname), {
+  message: 'Name is required',
+  path: ['name']
+})
+
 // GET /api/auth/passkey/manage - List user's passkeys
 export async function GET() {
   try {
@@ -29,8 +41,11 @@ export async function GET() {
         credentialDeviceType: true,
         credentialBackedUp: true,
         transports: true,
-        createdAt: true,
-        updatedAt: true
+        name: true,
+        aaguid: true,
+        lastUsedAt: true,
+        cloneDetectedAt: true,
+        createdAt: true
       },
       orderBy: { createdAt: 'desc' }
     })
@@ -42,8 +57,12 @@ export async function GET() {
       deviceType: cred.credentialDeviceType,
       backedUp: cred.credentialBackedUp,
       transports: cred.transports ? JSON.parse(cred.transports) : [],
+      name: cred.name,
+      aaguid: cred.aaguid,
+      authenticatorName: getAuthenticatorName(cred.aaguid),
       createdAt: cred.createdAt,
-      lastUsed: cred.updatedAt
+      lastUsedAt: cred.lastUsedAt,
+      possiblyCloned: !!cred.cloneDetectedAt
     }))
 
     return NextResponse.json({
@@ -120,6 +139,14 @@ export async function DELETE(request: NextRequest) {
       where: { id: credentialId }
     })
 
+    await auditService.record({
+      type: 'passkey.removed',
+      actorId: user.id,
+      targetId: user.id,
+      ...auditService.requestContext(request),
+      metadata: { credentialId, name: credential.name },
+    })
+
     return NextResponse.json({
       success: true,
       message: 'Passkey deleted successfully'
@@ -140,8 +167,8 @@ export async function DELETE(request: NextRequest) {
   }
 }
 
-// POST /api/auth/passkey/manage - Rename a passkey (add nickname)
-export async function POST(request: NextRequest) {
+// PATCH /api/auth/passkey/manage - Rename a passkey
+export async function PATCH(request: NextRequest) {
   try {
     const session = await auth()
     
@@ -153,47 +180,35 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { credentialId } = z.object({
-      credentialId: z.string().min(1, 'Credential ID is required'),
-      nickname: z.string().max(50, 'Nickname too long').optional()
-    }).parse(body)
+    const { credentialId, name, nickname } = renameCredentialSchema.parse(body)
 
-    // Find and update the credential
-    const credential = await prisma.webAuthnCredential.findUnique({
-      where: { 
+    // Only rename credentials owned by the current user
+    const result = await prisma.webAuthnCredential.updateMany({
+      where: {
         id: credentialId,
         userId: session.user.id
-      }
+      },
+      data: { name: name || nickname }
     })
 
-    if (!credential) {
+    if (result.count === 0) {
       return NextResponse.json(
         { error: 'Credential not found or access denied' },
         { status: 404 }
       )
     }
 
-    // For now, we'll store nickname in transports field as JSON
-    // In a real app, you might want to add a separate nickname field to the schema
-    const currentTransports = credential.transports ? JSON.parse(credential.transports) : []
-    const updatedData = {
-      transports: JSON.stringify(currentTransports),
-      // Store nickname in a metadata field if you add one to schema
-      updatedAt: new Date()
-    }
-
-    await prisma.webAuthnCredential.update({
-      where: { id: credentialId },
-      data: updatedData
-    })
-
     return NextResponse.json({
       success: true,
-      message: 'Passkey updated successfully'
+      message: 'Passkey renamed successfully',
+      credential: {
+        id: credentialId,
+        name: name || nickname
+      }
     })
 
   } catch (error) {
-    console.error('Error updating passkey:', error)
+    console.error('Error renaming passkey:', error)
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { error: 'Invalid request data', details: error.issues },
@@ -205,4 +220,9 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+// POST /api/auth/passkey/manage - Rename a passkey (deprecated, use PATCH)
+export async function POST(request: NextRequest) {
+  return PATCH(request)
+}
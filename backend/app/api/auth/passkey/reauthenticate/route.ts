@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server'
+import { passkeyReauthService } from '@/lib/passkey-reauth-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+/**
+ * Start a passkey reauthentication. The resulting assertion is sent as
+ * `passkeyCredential` with changes that accounts without a password confirm
+ * this way (account deletion, setting a first password, new recovery codes).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'passkey_reauth',
+      RATE_LIMIT_CONFIGS.AUTH_PROFILE
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many attempts')
+    }
+
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const impersonationResponse = authMiddleware.rejectImpersonation(authResult)
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    const apiKeyResponse = authMiddleware.rejectApiKey(authResult)
+    if (apiKeyResponse) {
+      return apiKeyResponse
+    }
+
+    const options = await passkeyReauthService.createOptions(authResult.user.id)
+
+    if (!options) {
+      return ApiResponseHandler.notFound('Passkey')
+    }
+
+    return ApiResponseHandler.success({ options })
+  } catch (error) {
+    console.error('Passkey reauthentication error:', error)
+    return ApiResponseHandler.internalError('Failed to start passkey confirmation')
+  }
+}
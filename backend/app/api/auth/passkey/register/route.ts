@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { generateRegistrationOptions, verifyRegistrationResponse } from '@simplewebauthn/server'
 import type { AuthenticatorTransportFuture } from '@simplewebauthn/types'
 import { prisma } from '@/lib/prisma'
+import { webauthnChallengeService } from '@/lib/webauthn-challenge-service'
+import { normalizeAAGUID, getAuthenticatorName } from '@/lib/authenticator-metadata'
+import { auditService } from '@/lib/audit-service'
+import { AuthMiddleware } from '@/middlewares/auth'
 import { z } from 'zod'
 
 const rpName = 'Next.js Auth App'
@@ -10,14 +14,9 @@ const origin = process.env.NODE_ENV === 'production'
   ? `https://${process.env.VERCEL_URL}` 
   : 'http://localhost:3001'
 
-// Schema for registration initiation
-const initiateRegistrationSchema = z.object({
-  username: z.string().min(1, 'Username is required')
-})
-
 // Schema for registration verification
 const verifyRegistrationSchema = z.object({
-  username: z.string().min(1, 'Username is required'),
+  name: z.string().trim().min(1).max(50, 'Name too long').optional(),
   credential: z.object({
     id: z.string(),
     rawId: z.string(),
@@ -33,18 +32,34 @@ const verifyRegistrationSchema = z.object({
 // POST /api/auth/passkey/register - Initiate passkey registration
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-    const { username } = initiateRegistrationSchema.parse(body)
+    // Passkeys can only be added to an authenticated account with a verified email
+    const authResult = await AuthMiddleware.validateAuth(request, { requireVerifiedEmail: true })
+
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: authResult.error },
+        { status: authResult.status }
+      )
+    }
+
+    const impersonationResponse = AuthMiddleware.rejectImpersonation(authResult.context)
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    const apiKeyResponse = AuthMiddleware.rejectApiKey(authResult.context)
+    if (apiKeyResponse) {
+      return apiKeyResponse
+    }
 
-    // Check if user exists
     const existingUser = await prisma.user.findUnique({
-      where: { username },
+      where: { id: authResult.context.user.id },
       include: { webauthnCredentials: true }
     })
 
     if (!existingUser) {
       return NextResponse.json(
-        { error: 'User not found. Please register first.' },
+        { error: 'User not found' },
         { status: 404 }
       )
     }
@@ -75,12 +90,14 @@ export async function POST(request: NextRequest) {
       }
     })
 
-    // Store challenge in session or temporary storage
-    // For simplicity, we'll store it in the response and expect it back
-    return NextResponse.json({
-      options,
-      challenge: options.challenge
-    })
+    // Keep the challenge server-side; it is consumed by the verification step
+    await webauthnChallengeService.storeChallenge(
+      'registration',
+      { userId: existingUser.id },
+      options.challenge
+    )
+
+    return NextResponse.json({ options })
 
   } catch (error) {
     console.error('Passkey registration initiation error:', error)
@@ -100,12 +117,31 @@ export async function POST(request: NextRequest) {
 // PUT /api/auth/passkey/register - Verify passkey registration
 export async function PUT(request: NextRequest) {
   try {
+    const authResult = await AuthMiddleware.validateAuth(request, { requireVerifiedEmail: true })
+
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: authResult.error },
+        { status: authResult.status }
+      )
+    }
+
+    const impersonationResponse = AuthMiddleware.rejectImpersonation(authResult.context)
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    const apiKeyResponse = AuthMiddleware.rejectApiKey(authResult.context)
+    if (apiKeyResponse) {
+      return apiKeyResponse
+    }
+
     const body = await request.json()
-    const { username, credential } = verifyRegistrationSchema.parse(body)
+    const { credential, name } = verifyRegistrationSchema.parse(body)
 
     // Get user
     const user = await prisma.user.findUnique({
-      where: { username }
+      where: { id: authResult.context.user.id }
     })
 
     if (!user) {
@@ -115,13 +151,15 @@ export async function PUT(request: NextRequest) {
       )
     }
 
-    // For demo purposes, we'll use a simple challenge verification
-    // In production, you should store challenges securely (Redis, database, etc.)
-    const expectedChallenge = request.headers.get('x-challenge')
-    
-    if (!expectedChallenge) {
+    // Single use: a failed verification requires starting the registration again
+    const pendingChallenge = await webauthnChallengeService.consumeChallenge(
+      'registration',
+      { userId: user.id }
+    )
+
+    if (!pendingChallenge) {
       return NextResponse.json(
-        { error: 'Challenge not provided' },
+        { error: 'Challenge expired or not found. Please start the registration again.' },
         { status: 400 }
       )
     }
@@ -136,7 +174,7 @@ export async function PUT(request: NextRequest) {
           transports: credential.response.transports as AuthenticatorTransportFuture[] | undefined
         }
       },
-      expectedChallenge,
+      expectedChallenge: pendingChallenge.challenge,
       expectedOrigin: origin,
       expectedRPID: rpID
     })
@@ -148,11 +186,14 @@ export async function PUT(request: NextRequest) {
       )
     }
 
-    const { credentialID, credentialPublicKey, counter, credentialDeviceType, credentialBackedUp } = verification.registrationInfo
+    const { credentialID, credentialPublicKey, counter, credentialDeviceType, credentialBackedUp, aaguid } = verification.registrationInfo
+    const authenticatorName = getAuthenticatorName(aaguid)
 
     // Save the credential to database
-    await prisma.webAuthnCredential.create({
+    const savedCredential = await prisma.webAuthnCredential.create({
       data: {
+        name: name || authenticatorName,
+        aaguid: normalizeAAGUID(aaguid),
         credentialID: Buffer.from(credentialID).toString('base64url'),
         credentialPublicKey: Buffer.from(credentialPublicKey),
         counter,
@@ -163,9 +204,22 @@ export async function PUT(request: NextRequest) {
       }
     })
 
+    await auditService.record({
+      type: 'passkey.added',
+      actorId: user.id,
+      targetId: user.id,
+      ...auditService.requestContext(request),
+      metadata: { credentialId: savedCredential.id, name: savedCredential.name },
+    })
+
     return NextResponse.json({
       success: true,
-      message: 'Passkey registered successfully'
+      message: 'Passkey registered successfully',
+      credential: {
+        id: savedCredential.id,
+        name: savedCredential.name,
+        authenticatorName
+      }
     })
 
   } catch (error) {
@@ -0,0 +1,328 @@
+import { NextRequest } from 'next/server'
+import { randomUUID } from 'crypto'
+import { generateRegistrationOptions, verifyRegistrationResponse } from '@simplewebauthn/server'
+import type { AuthenticatorTransportFuture } from '@simplewebauthn/types'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { DEFAULT_ROLE } from '@/lib/permissions'
+import { sessionService } from '@/lib/session-service'
+import { emailVerificationService } from '@/lib/email-verification-service'
+import { auditService } from '@/lib/audit-service'
+import { webauthnChallengeService } from '@/lib/webauthn-challenge-service'
+import { normalizeAAGUID, getAuthenticatorName } from '@/lib/authenticator-metadata'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+const rpName = 'Next.js Auth App'
+const rpID = process.env.NODE_ENV === 'production' ? process.env.VERCEL_URL || 'localhost' : 'localhost'
+const origin = process.env.NODE_ENV === 'production'
+  ? `https://${process.env.VERCEL_URL}`
+  : 'http://localhost:3001'
+
+// Schema for starting a passwordless sign-up
+const initiateSignupSchema = z.object({
+  email: z.string()
+    .email('Invalid email format')
+    .toLowerCase()
+    .max(254, 'Email must be less than 254 characters'),
+  username: z.string()
+    .min(3, 'Username must be at least 3 characters')
+    .max(30, 'Username must be less than 30 characters')
+    .regex(/^[a-zA-Z0-9_-]+$/, 'Username can only contain letters, numbers, underscores, and hyphens')
+    .refine(username => {
+      const reserved = ['admin', 'root', 'system', 'api', 'www', 'mail', 'support']
+      return !reserved.includes(username.toLowerCase())
+    }, 'Username is reserved'),
+  acceptTerms: z.boolean().refine(val => val === true, {
+    message: 'You must accept the terms and conditions',
+  }),
+})
+
+// Schema for completing the sign-up with the new credential
+const verifySignupSchema = z.object({
+  name: z.string().trim().min(1).max(50, 'Name too long').optional(),
+  credential: z.object({
+    id: z.string(),
+    rawId: z.string(),
+    response: z.object({
+      clientDataJSON: z.string(),
+      attestationObject: z.string(),
+      transports: z.array(z.string()).optional()
+    }),
+    type: z.literal('public-key')
+  })
+})
+
+/**
+ * Find an existing account using the email or username
+ */
+async function findConflict(email: string, username: string): Promise<string | null> {
+  const existingUser = await prisma.user.findFirst({
+    where: { OR: [{ email }, { username }] },
+    select: { email: true },
+  })
+
+  if (!existingUser) {
+    return null
+  }
+
+  return existingUser.email === email
+    ? 'An account with this email already exists'
+    : 'This username is already taken'
+}
+
+// POST /api/auth/passkey/signup - Start a passwordless sign-up
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_register',
+      RATE_LIMIT_CONFIGS.AUTH_REGISTER
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many registration attempts')
+    }
+
+    const body = await request.json()
+    const validationResult = initiateSignupSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { email, username } = validationResult.data
+
+    const conflict = await findConflict(email, username)
+    if (conflict) {
+      return ApiResponseHandler.conflict(conflict)
+    }
+
+    // The account id doubles as the WebAuthn user handle, so pick it now
+    const userId = randomUUID()
+
+    const options = await generateRegistrationOptions({
+      rpName,
+      rpID,
+      userID: userId,
+      userName: username,
+      userDisplayName: username,
+      attestationType: 'none',
+      authenticatorSelection: {
+        residentKey: 'required',
+        userVerification: 'required'
+      }
+    })
+
+    // The account is only created once the passkey has been verified
+    const { sessionId } = webauthnChallengeService.getSessionId(request)
+    await webauthnChallengeService.storeChallenge(
+      'registration',
+      { sessionId },
+      options.challenge,
+      { userId, email, username }
+    )
+
+    const response = ApiResponseHandler.success({ options })
+    webauthnChallengeService.setSessionCookie(response, sessionId)
+
+    return response
+  } catch (error) {
+    console.error('Passkey sign-up initiation error:', error)
+    return ApiResponseHandler.internalError('Registration failed. Please try again later.')
+  }
+}
+
+// PUT /api/auth/passkey/signup - Verify the passkey and create the account
+export async function PUT(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_register',
+      RATE_LIMIT_CONFIGS.AUTH_REGISTER
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many registration attempts')
+    }
+
+    const body = await request.json()
+    const validationResult = verifySignupSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { credential, name } = validationResult.data
+    const clientIP = authMiddleware.getClientIP(request)
+    const userAgent = request.headers.get('user-agent') || 'Unknown'
+
+    // Single use: a failed verification requires starting the sign-up again
+    const { sessionId, isNew } = webauthnChallengeService.getSessionId(request)
+    const pendingChallenge = isNew
+      ? null
+      : await webauthnChallengeService.consumeChallenge('registration', { sessionId })
+
+    if (!pendingChallenge?.data) {
+      return ApiResponseHandler.error(
+        'VALIDATION_ERROR',
+        'Challenge expired or not found. Please start the registration again.',
+        400
+      )
+    }
+
+    const { userId, email, username } = pendingChallenge.data
+
+    const verification = await verifyRegistrationResponse({
+      response: {
+        ...credential,
+        clientExtensionResults: {},
+        response: {
+          ...credential.response,
+          transports: credential.response.transports as AuthenticatorTransportFuture[] | undefined
+        }
+      },
+      expectedChallenge: pendingChallenge.challenge,
+      expectedOrigin: origin,
+      expectedRPID: rpID,
+      requireUserVerification: true
+    })
+
+    if (!verification.verified || !verification.registrationInfo) {
+      return ApiResponseHandler.error('VALIDATION_ERROR', 'Passkey registration verification failed', 400)
+    }
+
+    // The email or username may have been taken while the ceremony was running
+    const conflict = await findConflict(email, username)
+    if (conflict) {
+      return ApiResponseHandler.conflict(conflict)
+    }
+
+    const { credentialID, credentialPublicKey, counter, credentialDeviceType, credentialBackedUp, aaguid } = verification.registrationInfo
+
+    // Create the account and its first passkey together
+    const newUser = await prisma.user.create({
+      data: {
+        id: userId,
+        email,
+        username,
+        password: null,
+        role: DEFAULT_ROLE,
+        loginCount: 0,
+        isLocked: false,
+        webauthnCredentials: {
+          create: {
+            credentialID: Buffer.from(credentialID).toString('base64url'),
+            credentialPublicKey: Buffer.from(credentialPublicKey),
+            counter,
+            credentialDeviceType,
+            credentialBackedUp,
+            transports: credential.response.transports ? JSON.stringify(credential.response.transports) : null,
+            name: name || getAuthenticatorName(aaguid),
+            aaguid: normalizeAAGUID(aaguid),
+            lastUsedAt: new Date(),
+          },
+        },
+        loginAttempts: {
+          create: {
+            ipAddress: clientIP,
+            userAgent,
+            success: true,
+            failReason: null,
+          },
+        },
+      },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        role: true,
+        createdAt: true,
+      },
+    })
+
+    const sessionResult = await sessionService.createSessionWithJWT({
+      userId: newUser.id,
+      ipAddress: clientIP,
+      userAgent,
+      rememberMe: false,
+      user: {
+        id: newUser.id,
+        email: newUser.email,
+        username: newUser.username,
+        role: newUser.role,
+      },
+      authMethod: 'passkey',
+    })
+
+    await auditService.record({
+      type: 'account.created',
+      actorId: newUser.id,
+      targetId: newUser.id,
+      ipAddress: clientIP,
+      userAgent,
+      metadata: { method: 'passkey' },
+    })
+
+    console.log(`New passwordless user registered: ${username} (${email}) from IP: ${clientIP}`)
+
+    // Send the initial verification email (failure here must not block sign-up)
+    const verificationEmail = await emailVerificationService.sendVerificationEmail(newUser.id, {
+      skipThrottle: true,
+    })
+
+    await prisma.user.update({
+      where: { id: newUser.id },
+      data: {
+        lastLoginAt: new Date(),
+        loginCount: 1,
+      },
+    })
+
+    const response = ApiResponseHandler.success({
+      message: 'Account created successfully',
+      user: {
+        id: newUser.id,
+        email: newUser.email,
+        username: newUser.username,
+        role: newUser.role,
+        createdAt: newUser.createdAt,
+        emailVerified: false,
+        hasPassword: false,
+      },
+      verificationEmailSent: verificationEmail.sent,
+      session: {
+        id: sessionResult.session.id,
+        expiresAt: sessionResult.session.expires,
+      },
+      token: sessionResult.sessionToken,
+      autoLogin: true,
+    })
+
+    sessionService.setSessionCookies(
+      response,
+      sessionResult.sessionToken,
+      sessionResult.csrfToken,
+      { rememberMe: false }
+    )
+
+    response.cookies.set('auth-token', sessionResult.accessToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: 24 * 60 * 60, // 24 hours
+      path: '/',
+    })
+
+    webauthnChallengeService.clearSessionCookie(response)
+    authMiddleware.addSecurityHeaders(response)
+
+    return response
+  } catch (error) {
+    console.error('Passkey sign-up verification error:', error)
+    return ApiResponseHandler.internalError('Registration failed. Please try again later.')
+  }
+}
@@ -2,8 +2,13 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import bcrypt from 'bcrypt'
 import { prisma } from '@/lib/prisma'
+import { permissionService } from '@/lib/permission-service'
 import { sessionService } from '@/lib/session-service'
 import { jwtService } from '@/lib/jwt-service'
+import { emailVerificationService } from '@/lib/email-verification-service'
+import { passkeyReauthService } from '@/lib/passkey-reauth-service'
+import { passkeyAssertionSchema } from '@/lib/validators'
+import { auditService } from '@/lib/audit-service'
 import { authMiddleware } from '@/middlewares/auth'
 import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
 import { ApiResponseHandler } from '@/lib/api-response'
@@ -31,12 +36,10 @@ const updateProfileSchema = z.object({
   confirmPassword: z.string().optional(),
   profilePicture: z.string()
     .url('Invalid profile picture URL')
-    .optional()
+    .optional(),
+  passkeyCredential: passkeyAssertionSchema.optional() // Confirms a first password on password-less accounts
 }).refine((data) => {
-  // If newPassword is provided, currentPassword must also be provided
-  if (data.newPassword && !data.currentPassword) {
-    return false
-  }
+  // currentPassword is checked by the handlers: password-less accounts confirm with a passkey instead
   // If newPassword is provided, confirmPassword must match
   if (data.newPassword && data.newPassword !== data.confirmPassword) {
     return false
@@ -106,6 +109,7 @@ export async function GET(request: NextRequest) {
         id: true,
         username: true,
         email: true,
+        emailVerifiedAt: true,
         profilePicture: true,
         role: true,
         createdAt: true,
@@ -114,6 +118,12 @@ export async function GET(request: NextRequest) {
         loginCount: true,
         isLocked: true,
         lockedUntil: true,
+        totpEnabledAt: true,
+        _count: {
+          select: {
+            recoveryCodes: { where: { usedAt: null } },
+          },
+        },
         sessions: includeSessions ? {
           where: {
             expires: { gt: new Date() },
@@ -123,7 +133,12 @@ export async function GET(request: NextRequest) {
             id: true,
             ipAddress: true,
             userAgent: true,
-            deviceInfo: true,
+            browserName: true,
+            browserVersion: true,
+            osName: true,
+            osVersion: true,
+            deviceType: true,
+            isBot: true,
             createdAt: true,
             updatedAt: true,
             expires: true,
@@ -168,14 +183,19 @@ export async function GET(request: NextRequest) {
         id: user.id,
         username: user.username,
         email: user.email,
+        emailVerified: !!user.emailVerifiedAt,
+        emailVerifiedAt: user.emailVerifiedAt,
         profilePicture: user.profilePicture,
         role: user.role,
+        permissions: authUser.permissions,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
         lastLoginAt: user.lastLoginAt,
         loginCount: user.loginCount,
         isLocked: user.isLocked,
-        lockedUntil: user.lockedUntil
+        lockedUntil: user.lockedUntil,
+        totpEnabled: !!user.totpEnabledAt,
+        recoveryCodesRemaining: user._count.recoveryCodes
       }
     }
 
@@ -218,7 +238,14 @@ export async function GET(request: NextRequest) {
         active: user.sessions?.length || 0,
         details: user.sessions?.map(session => ({
           id: session.id,
-          deviceInfo: session.deviceInfo,
+          device: {
+            browserName: session.browserName,
+            browserVersion: session.browserVersion,
+            osName: session.osName,
+            osVersion: session.osVersion,
+            deviceType: session.deviceType,
+            isBot: session.isBot,
+          },
           ipAddress: session.ipAddress,
           userAgent: session.userAgent,
           createdAt: session.createdAt,
@@ -289,6 +316,14 @@ export async function PUT(request: NextRequest) {
     }
 
     const updateData = validationResult.data
+
+    // Email and password changes are reserved for the signed-in account owner
+    const ownerOnlyResponse = updateData.email || updateData.newPassword
+      ? authMiddleware.rejectImpersonation(authResult) || authMiddleware.rejectApiKey(authResult)
+      : null
+    if (ownerOnlyResponse) {
+      return ownerOnlyResponse
+    }
     
     // Check if username is already taken (if updating username)
     if (updateData.username) {
@@ -318,19 +353,32 @@ export async function PUT(request: NextRequest) {
       }
     }
     
-    // Verify current password if changing password
-    if (updateData.newPassword && updateData.currentPassword) {
+    // Verify current password if changing password (password-less accounts set a first one with a passkey)
+    if (updateData.newPassword) {
       const currentUser = await prisma.user.findUnique({
         where: { id: authUser.id },
         select: { password: true }
       })
       
-      if (!currentUser || !currentUser.password) {
-        return ApiResponseHandler.notFound('User not found or password not set')
+      if (!currentUser) {
+        return ApiResponseHandler.notFound('User')
+      }
+
+      if (currentUser.password && !updateData.currentPassword) {
+        return ApiResponseHandler.error('VALIDATION_ERROR', 'Current password is required', 400)
+      }
+
+      if (!currentUser.password) {
+        const isPasskeyValid = !!updateData.passkeyCredential &&
+          await passkeyReauthService.verify(authUser.id, updateData.passkeyCredential)
+
+        if (!isPasskeyValid) {
+          return ApiResponseHandler.error('PASSKEY_REQUIRED', 'Confirm with one of your passkeys to set a password', 401)
+        }
       }
       
-      const isCurrentPasswordValid = await bcrypt.compare(
-        updateData.currentPassword,
+      const isCurrentPasswordValid = !currentUser.password || await bcrypt.compare(
+        updateData.currentPassword!,
         currentUser.password
       )
       
@@ -343,9 +391,12 @@ export async function PUT(request: NextRequest) {
     const updateFields: any = {}
     
     if (updateData.username) updateFields.username = updateData.username
+    const emailChanged = !!updateData.email && updateData.email !== authUser.email
     if (updateData.email) {
       updateFields.email = updateData.email
-      updateFields.emailVerified = false // Reset email verification
+    }
+    if (emailChanged) {
+      updateFields.emailVerifiedAt = null // Reset email verification
     }
     if (updateData.profilePicture) updateFields.profilePicture = updateData.profilePicture
     
@@ -373,6 +424,32 @@ export async function PUT(request: NextRequest) {
       }
     })
     
+    // A changed email address must be verified again
+    if (emailChanged) {
+      await emailVerificationService.sendVerificationEmail(authUser.id, { skipThrottle: true })
+    }
+
+    const auditContext = auditService.requestContext(request)
+
+    if (updateData.username && updateData.username !== authUser.username) {
+      await auditService.record({
+        type: 'username.changed',
+        actorId: authUser.id,
+        targetId: authUser.id,
+        ...auditContext,
+        metadata: { from: authUser.username, to: updateData.username },
+      })
+    }
+
+    if (updateData.newPassword) {
+      await auditService.record({
+        type: 'password.changed',
+        actorId: authUser.id,
+        targetId: authUser.id,
+        ...auditContext,
+      })
+    }
+
     // If password was changed, invalidate all other sessions
     if (updateData.newPassword) {
       await sessionService.invalidateAllUserSessions(authUser.id)
@@ -406,9 +483,7 @@ export async function PUT(request: NextRequest) {
  * Update user profile
  */
 export async function PATCH(request: NextRequest) {
-  const ipAddress = request.headers.get('x-forwarded-for')?.split(',')[0] || 
-                   request.headers.get('x-real-ip') || 
-                   'unknown'
+  const ipAddress = authMiddleware.getClientIP(request)
   const userAgent = request.headers.get('user-agent') || undefined
 
   try {
@@ -459,6 +534,14 @@ export async function PATCH(request: NextRequest) {
     const body = await request.json()
     const updateData = updateProfileSchema.parse(body)
 
+    // Email and password changes are reserved for the signed-in account owner
+    const ownerOnlyResponse = updateData.email || updateData.newPassword
+      ? authMiddleware.rejectImpersonation(authResult) || authMiddleware.rejectApiKey(authResult)
+      : null
+    if (ownerOnlyResponse) {
+      return ownerOnlyResponse
+    }
+
     // Get current user data
     const currentUser = await prisma.user.findUnique({
       where: { id: user.id },
@@ -507,11 +590,6 @@ export async function PATCH(request: NextRequest) {
         })
 
         if (existingUser) {
-          await RateLimiter.recordAttempt(request, 'profile_update', false, {
-            userId: currentUser.id,
-            failReason: 'Conflict with existing user',
-          })
-
           return NextResponse.json(
             {
               error: existingUser.email === updateData.email 
@@ -525,26 +603,51 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
-    // Handle password change
+    // Handle password change (password-less accounts set a first password with a passkey)
     let hashedNewPassword: string | undefined
-    if (updateData.newPassword && updateData.currentPassword) {
+    if (updateData.newPassword) {
       // Verify current password
-      if (!currentUser.password) {
+      if (currentUser.password && !updateData.currentPassword) {
         return NextResponse.json(
-          { error: 'No password is currently set for this account' },
+          { error: 'Current password is required' },
           { status: 400 }
         )
       }
 
-      const isCurrentPasswordValid = await bcrypt.compare(
-        updateData.currentPassword,
+      if (!currentUser.password) {
+        const isPasskeyValid = !!updateData.passkeyCredential &&
+          await passkeyReauthService.verify(currentUser.id, updateData.passkeyCredential)
+
+        if (!isPasskeyValid) {
+          await authMiddleware.logAuthAttempt({
+            email: currentUser.email,
+            ipAddress,
+            userAgent,
+            success: false,
+            failReason: 'Passkey confirmation failed for password setup',
+            userId: currentUser.id,
+          })
+
+          return NextResponse.json(
+            { error: 'Confirm with one of your passkeys to set a password', code: 'PASSKEY_REQUIRED' },
+            { status: 401 }
+          )
+        }
+      }
+
+      const isCurrentPasswordValid = !currentUser.password || await bcrypt.compare(
+        updateData.currentPassword!,
         currentUser.password
       )
 
       if (!isCurrentPasswordValid) {
-        await RateLimiter.recordAttempt(request, 'profile_update', false, {
-          userId: currentUser.id,
+        await authMiddleware.logAuthAttempt({
+          email: currentUser.email,
+          ipAddress,
+          userAgent,
+          success: false,
           failReason: 'Invalid current password',
+          userId: currentUser.id,
         })
 
         return NextResponse.json(
@@ -559,8 +662,10 @@ export async function PATCH(request: NextRequest) {
     }
 
     // Prepare update data
-    const prismaUpdateData: { email?: string; username?: string; password?: string } = {}
+    const emailChanged = !!updateData.email && updateData.email !== currentUser.email
+    const prismaUpdateData: { email?: string; emailVerifiedAt?: null; username?: string; password?: string } = {}
     if (updateData.email) prismaUpdateData.email = updateData.email
+    if (emailChanged) prismaUpdateData.emailVerifiedAt = null
     if (updateData.username) prismaUpdateData.username = updateData.username
     if (hashedNewPassword) prismaUpdateData.password = hashedNewPassword
 
@@ -577,6 +682,27 @@ export async function PATCH(request: NextRequest) {
       },
     })
 
+    if (updateData.username && updateData.username !== currentUser.username) {
+      await auditService.record({
+        type: 'username.changed',
+        actorId: currentUser.id,
+        targetId: currentUser.id,
+        ipAddress,
+        userAgent,
+        metadata: { from: currentUser.username, to: updateData.username },
+      })
+    }
+
+    if (hashedNewPassword) {
+      await auditService.record({
+        type: 'password.changed',
+        actorId: currentUser.id,
+        targetId: currentUser.id,
+        ipAddress,
+        userAgent,
+      })
+    }
+
     // If password was changed, invalidate all other sessions and refresh tokens
     if (hashedNewPassword) {
       await Promise.all([
@@ -592,10 +718,13 @@ export async function PATCH(request: NextRequest) {
       ])
     }
 
+    // A changed email address must be verified again
+    if (emailChanged) {
+      await emailVerificationService.sendVerificationEmail(currentUser.id, { skipThrottle: true })
+    }
+
     // Record successful update
-    await RateLimiter.recordAttempt(request, 'profile_update', true, {
-      userId: currentUser.id,
-    })
+    await RateLimiter.recordAttempt(request, 'profile_update', true)
 
     const response = NextResponse.json({
       success: true,
@@ -620,11 +749,6 @@ export async function PATCH(request: NextRequest) {
   } catch (error) {
     console.error('Update profile error:', error)
 
-    // Record failed update attempt
-    await RateLimiter.recordAttempt(request, 'profile_update', false, {
-      failReason: 'Server error',
-    })
-
     if (error instanceof z.ZodError) {
       return NextResponse.json(
         { 
@@ -646,12 +770,10 @@ export async function PATCH(request: NextRequest) {
 }
 
 /**
- * Delete user account (requires password confirmation)
+ * Delete user account (requires the password, or a passkey confirmation for accounts without one)
  */
 export async function DELETE(request: NextRequest) {
-  const ipAddress = request.headers.get('x-forwarded-for')?.split(',')[0] || 
-                   request.headers.get('x-real-ip') || 
-                   'unknown'
+  const ipAddress = authMiddleware.getClientIP(request)
   const userAgent = request.headers.get('user-agent') || undefined
 
   try {
@@ -667,11 +789,22 @@ export async function DELETE(request: NextRequest) {
     if (!authUser) {
       return ApiResponseHandler.unauthorized('User not found')
     }
+
+    const impersonationResponse = authMiddleware.rejectImpersonation(authResult)
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    const apiKeyResponse = authMiddleware.rejectApiKey(authResult)
+    if (apiKeyResponse) {
+      return apiKeyResponse
+    }
     
-    // Parse request body for password confirmation
+    // Parse request body for password (or, without one, passkey) confirmation
     const body = await request.json()
-    const { password } = z.object({
-      password: z.string().min(1, 'Password is required'),
+    const { password, passkeyCredential } = z.object({
+      password: z.string().min(1, 'Password is required').optional(),
+      passkeyCredential: passkeyAssertionSchema.optional(),
       confirmDeletion: z.boolean().refine(val => val === true, {
         message: 'You must confirm account deletion',
       }),
@@ -689,26 +822,33 @@ export async function DELETE(request: NextRequest) {
       },
     })
 
-    if (!user || !user.password) {
+    if (!user) {
       return NextResponse.json(
-        { error: 'User not found or no password set' },
+        { error: 'User not found' },
         { status: 404 }
       )
     }
 
-    // Verify password
-    const isPasswordValid = await bcrypt.compare(password, user.password)
-    if (!isPasswordValid) {
+    // Verify password; passkey-only accounts confirm with one of their passkeys
+    if (!user.password) {
+      const isPasskeyValid = !!passkeyCredential && await passkeyReauthService.verify(user.id, passkeyCredential)
+      if (!isPasskeyValid) {
+        return NextResponse.json(
+          { error: 'Confirm with one of your passkeys to delete the account', code: 'PASSKEY_REQUIRED' },
+          { status: 401 }
+        )
+      }
+    } else if (!password || !await bcrypt.compare(password, user.password)) {
       return NextResponse.json(
         { error: 'Invalid password' },
         { status: 401 }
       )
     }
 
-    // Prevent admin self-deletion (optional business rule)
-    if (user.role === 'ADMIN') {
+    // Keep at least one account that can assign roles
+    if (authUser.permissions.includes('roles:assign')) {
       const adminCount = await prisma.user.count({
-        where: { role: 'ADMIN' },
+        where: { role: { in: await permissionService.getRolesWithPermission('roles:assign') } },
       })
       
       if (adminCount <= 1) {
@@ -734,6 +874,15 @@ export async function DELETE(request: NextRequest) {
       where: { id: user.id },
     })
 
+    await auditService.record({
+      type: 'account.deleted',
+      actorId: user.id,
+      targetId: user.id,
+      ipAddress,
+      userAgent,
+      metadata: { email: user.email, username: user.username },
+    })
+
     const response = NextResponse.json({
       success: true,
       message: 'Account deleted successfully',
@@ -0,0 +1,210 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { sessionService } from '@/lib/session-service'
+import { recoveryCodeService } from '@/lib/recovery-code-service'
+import { auditService } from '@/lib/audit-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+const recoveryLoginSchema = z.object({
+  email: z.string()
+    .email('Invalid email format')
+    .toLowerCase()
+    .max(255, 'Email must be less than 255 characters'),
+  recoveryCode: z.string()
+    .min(1, 'Recovery code is required')
+    .max(32, 'Recovery code is too long'),
+  rememberMe: z.boolean().optional().default(false),
+})
+
+/**
+ * Sign in to a passkey-only account with a recovery code after losing every passkey.
+ * Accounts with a password sign in normally and use recovery codes at the MFA step.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_recovery_login',
+      RATE_LIMIT_CONFIGS.AUTH_LOGIN
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(
+        retryAfter,
+        'Too many login attempts'
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = recoveryLoginSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { email, recoveryCode, rememberMe } = validationResult.data
+    const clientIP = authMiddleware.getClientIP(request)
+    const userAgent = request.headers.get('user-agent') || 'Unknown'
+
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        password: true,
+        role: true,
+        isLocked: true,
+        lockedUntil: true,
+      },
+    })
+
+    // Same response for unknown accounts and accounts that have a password
+    if (!user || user.password) {
+      console.warn(`Failed recovery login for ${email} from IP: ${clientIP}`)
+      await auditService.record({
+        type: 'login.failed',
+        targetId: user?.id,
+        ipAddress: clientIP,
+        userAgent,
+        metadata: { method: 'recovery_code', email, reason: user ? 'Account has a password' : 'User not found' },
+      })
+      return ApiResponseHandler.unauthorized('Invalid email or recovery code')
+    }
+
+    if (user.isLocked && (!user.lockedUntil || user.lockedUntil > new Date())) {
+      console.warn(`Recovery login attempt for locked account: ${email} from IP: ${clientIP}`)
+      await auditService.record({
+        type: 'login.failed',
+        targetId: user.id,
+        ipAddress: clientIP,
+        userAgent,
+        metadata: { method: 'recovery_code', reason: 'Account locked' },
+      })
+      return ApiResponseHandler.forbidden('Account is temporarily locked. Please try again later.')
+    }
+
+    const isValidCode = await recoveryCodeService.consumeCode(user.id, recoveryCode)
+
+    if (!isValidCode) {
+      console.warn(`Failed recovery login for ${email} from IP: ${clientIP} - Invalid recovery code`)
+
+      await authMiddleware.logAuthAttempt({
+        email: user.email,
+        ipAddress: clientIP,
+        userAgent,
+        success: false,
+        failReason: 'Invalid recovery code',
+        userId: user.id,
+      })
+      await auditService.record({
+        type: 'login.failed',
+        targetId: user.id,
+        ipAddress: clientIP,
+        userAgent,
+        metadata: { method: 'recovery_code', reason: 'Invalid recovery code' },
+      })
+
+      const shouldLock = await authMiddleware.checkAndLockUser(user.id)
+
+      if (shouldLock) {
+        await auditService.record({
+          type: 'account.locked',
+          targetId: user.id,
+          ipAddress: clientIP,
+          userAgent,
+          metadata: { reason: 'Too many failed recovery code attempts' },
+        })
+        return ApiResponseHandler.forbidden('Too many failed attempts. Account has been temporarily locked.')
+      }
+
+      return ApiResponseHandler.unauthorized('Invalid email or recovery code')
+    }
+
+    const sessionResult = await sessionService.createSessionWithJWT({
+      userId: user.id,
+      ipAddress: clientIP,
+      userAgent,
+      rememberMe,
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        role: user.role,
+      },
+      authMethod: 'credentials',
+      amr: ['kba'],
+    })
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        lastLoginAt: new Date(),
+        loginCount: { increment: 1 },
+      },
+    })
+
+    const recoveryCodesRemaining = await recoveryCodeService.countRemaining(user.id)
+
+    await RateLimiter.recordAttempt(request, 'auth_recovery_login', true)
+
+    await auditService.record({
+      type: 'login.succeeded',
+      actorId: user.id,
+      targetId: user.id,
+      ipAddress: clientIP,
+      userAgent,
+      metadata: { method: 'recovery_code', sessionId: sessionResult.session.id, recoveryCodesRemaining },
+    })
+
+    console.log(`Recovery login: ${user.username} (${email}) from IP: ${clientIP}, ${recoveryCodesRemaining} codes remaining`)
+
+    const response = ApiResponseHandler.success({
+      message: 'Login successful. Register a new passkey to keep access to your account.',
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        role: user.role,
+      },
+      session: {
+        id: sessionResult.session.id,
+        expiresAt: sessionResult.session.expires,
+        rememberMe
+      },
+      token: sessionResult.sessionToken,
+      tokens: {
+        accessToken: sessionResult.accessToken,
+        refreshToken: rememberMe ? sessionResult.refreshToken : undefined,
+        expiresAt: new Date(Date.now() + (rememberMe ? 30 * 24 * 60 * 60 * 1000 : 24 * 60 * 60 * 1000))
+      },
+      recoveryCodesRemaining,
+    })
+
+    sessionService.setSessionCookies(
+      response,
+      sessionResult.sessionToken,
+      sessionResult.csrfToken,
+      { rememberMe }
+    )
+
+    response.cookies.set('auth-token', sessionResult.accessToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: rememberMe ? 30 * 24 * 60 * 60 : 24 * 60 * 60, // 30 days or 24 hours
+      path: '/',
+    })
+
+    authMiddleware.addSecurityHeaders(response)
+
+    return response
+  } catch (error) {
+    console.error('Recovery login error:', error)
+    return ApiResponseHandler.internalError('Login failed. Please try again later.')
+  }
+}
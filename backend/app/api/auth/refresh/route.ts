@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { jwtService } from '@/lib/jwt-service'
-import { sessionService } from '@/lib/session-service'
 import { authMiddleware } from '@/middlewares/auth'
 import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
 import { ApiResponseHandler } from '@/lib/api-response'
@@ -48,10 +47,7 @@ export async function POST(request: NextRequest) {
     // }
 
     // Get client information for audit trail
-    const clientIP = request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
-      request.headers.get('x-real-ip') ||
-      request.headers.get('x-client-ip') ||
-      'unknown'
+    const clientIP = authMiddleware.getClientIP(request)
     const userAgent = request.headers.get('user-agent') || 'Unknown'
 
     // Parse request body
@@ -71,142 +67,48 @@ export async function POST(request: NextRequest) {
       return ApiResponseHandler.unauthorized('Refresh token is required')
     }
 
-    // Verify refresh token
-    const tokenValidation = await jwtService.verifyToken(refreshToken)
-    
-    if (!tokenValidation.valid) {
-      console.warn(`Invalid refresh token from IP: ${clientIP} - ${tokenValidation.error}`)
-      return ApiResponseHandler.unauthorized('Invalid or expired refresh token')
-    }
-
-    const { payload } = tokenValidation
-    
-    if (!payload) {
-      console.warn(`Invalid token payload from IP: ${clientIP}`);
-      return ApiResponseHandler.unauthorized('Invalid token payload');
-    }
-    
-    // Verify this is actually a refresh token
-    if (payload.tokenType !== 'refresh') {
-      console.warn(`Invalid token type from IP: ${clientIP} - Expected refresh token`)
-      return ApiResponseHandler.unauthorized('Invalid token type')
-    }
-
-    // Check if refresh token exists in database and is not revoked
-    const tokenHash = require('crypto').createHash('sha256').update(refreshToken).digest('hex')
-    const dbRefreshToken = await prisma.refreshToken.findFirst({
-      where: { 
-        token: tokenHash,
-        userId: payload.sub,
-        isRevoked: false,
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            email: true,
-            username: true,
-            role: true,
-            isLocked: true,
-            lockedUntil: true,
-          },
-        },
-      },
+    // Verify and rotate the refresh token
+    const result = await jwtService.refreshAccessToken(refreshToken, {
+      ipAddress: clientIP,
+      userAgent,
     })
 
-    if (!dbRefreshToken) {
-      console.warn(`Revoked or missing refresh token from IP: ${clientIP} - User: ${payload.sub}`)
-      return ApiResponseHandler.unauthorized('Refresh token has been revoked')
-    }
-
-    // Check if user is locked
-    const user = dbRefreshToken.user
-    if (user.isLocked) {
-      const now = new Date()
-      if (!user.lockedUntil || user.lockedUntil > now) {
-        console.warn(`Refresh attempt for locked account: ${user.email} from IP: ${clientIP}`)
-        return ApiResponseHandler.forbidden('Account is temporarily locked')
-      }
-    }
-
-    // Check if refresh token is close to expiration (within 1 hour)
-    // If so, issue a new refresh token as well
-    if (!payload.exp) {
-      console.warn(`Token missing expiration from IP: ${clientIP}`);
-      return ApiResponseHandler.unauthorized('Invalid token format');
-    }
-    
-    const tokenExp = new Date(payload.exp * 1000)
-    const oneHourFromNow = new Date(Date.now() + 60 * 60 * 1000)
-    const shouldRotateRefreshToken = tokenExp <= oneHourFromNow
-
-    // Generate new access token
-    const newAccessToken = await jwtService.generateAccessToken({
-      userId: user.id,
-      email: user.email,
-      username: user.username,
-      role: user.role,
-    })
-
-    let newRefreshToken = refreshToken
-
-    // Rotate refresh token if needed
-    if (shouldRotateRefreshToken) {
-      // Revoke old refresh token
-      await prisma.refreshToken.update({
-        where: { id: dbRefreshToken.id },
-        data: { 
-          isRevoked: true,
-        },
-      })
-
-      // Generate new refresh token
-      const refreshTokenResult = await jwtService.generateRefreshToken(
-        user.id,
-        {
-          deviceInfo: body.deviceInfo ? JSON.stringify(body.deviceInfo) : undefined,
-          ipAddress: clientIP
+    if (!result.success) {
+      switch (result.error) {
+        case 'ACCOUNT_LOCKED':
+          console.warn(`Refresh attempt for locked account from IP: ${clientIP}`)
+          return ApiResponseHandler.forbidden('Account is temporarily locked')
+        case 'TOKEN_REUSED': {
+          // The whole token family has been revoked; make the client sign in again
+          const response = ApiResponseHandler.unauthorized('Refresh token has already been used. Please sign in again.')
+          response.cookies.delete('refresh-token')
+          response.cookies.delete('auth-token')
+          return response
         }
-      )
-
-      newRefreshToken = refreshTokenResult.token
-    } else {
-      // Token is still valid, no need to update anything
-      // The refresh token will be used as-is
-    }
-
-    // Update session if exists
-    let sessionData = null
-    if (payload.sessionId) {
-      try {
-        sessionData = await sessionService.refreshSession(payload.sessionId)
-      } catch (error) {
-        console.warn('Failed to refresh session:', error)
-        // Continue without session refresh
+        case 'TOKEN_REVOKED':
+          console.warn(`Revoked refresh token from IP: ${clientIP}`)
+          return ApiResponseHandler.unauthorized('Refresh token has been revoked')
+        default:
+          console.warn(`Invalid refresh token from IP: ${clientIP}`)
+          return ApiResponseHandler.unauthorized('Invalid or expired refresh token')
       }
     }
 
+    const { user, tokens } = result
+
     console.log(`Successful token refresh for user: ${user.email} from IP: ${clientIP}`)
 
     // Create response
     const response = ApiResponseHandler.success(
       {
         message: 'Tokens refreshed successfully',
-        user: {
-          id: user.id,
-          email: user.email,
-          username: user.username,
-          role: user.role,
-        },
+        user,
         tokens: {
-          accessToken: newAccessToken.token,
-          refreshToken: shouldRotateRefreshToken ? newRefreshToken : refreshToken,
+          accessToken: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
           expiresIn: 15 * 60, // 15 minutes in seconds
         },
-        session: sessionData ? {
-          id: sessionData.id,
-          expiresAt: sessionData.expires,
-        } : undefined,
+        session: result.sessionId ? { id: result.sessionId } : undefined,
       }
     )
 
@@ -219,21 +121,16 @@ export async function POST(request: NextRequest) {
     }
 
     // Set new access token
-    response.cookies.set('auth-token', newAccessToken.token, {
+    response.cookies.set('auth-token', tokens.accessToken, {
       ...cookieOptions,
       maxAge: 24 * 60 * 60, // 24 hours
     })
 
-    // Set new refresh token if rotated
-    if (shouldRotateRefreshToken) {
-      response.cookies.set('refresh-token', newRefreshToken, {
-        ...cookieOptions,
-        maxAge: 30 * 24 * 60 * 60, // 30 days
-      })
-    }
-
-    // Session was refreshed - no need to update session token
-    // The existing session token remains valid with updated expiry
+    // The refresh token is rotated on every use
+    response.cookies.set('refresh-token', tokens.refreshToken, {
+      ...cookieOptions,
+      maxAge: 30 * 24 * 60 * 60, // 30 days
+    })
 
     // Add security headers
     authMiddleware.addSecurityHeaders(response)
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { PrismaUserService } from '@/services/user.service'
+import { emailVerificationService } from '@/lib/email-verification-service'
+import { auditService } from '@/lib/audit-service'
 import { ApiResponseHandler } from '@/lib/api-response'
+import { authMiddleware } from '@/middlewares/auth'
 import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
 import { SecurityMiddleware } from '@/middlewares/security'
 
@@ -89,9 +92,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Get client information for audit trail
-    const clientIP = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 
-                     request.headers.get('x-real-ip') || 
-                     'unknown'
+    const clientIP = authMiddleware.getClientIP(request)
     const userAgent = request.headers.get('user-agent') || 'Unknown'
 
     // Create user with enhanced data
@@ -102,9 +103,23 @@ export async function POST(request: NextRequest) {
       role,
     })
 
+    await auditService.record({
+      type: 'account.created',
+      actorId: user.id,
+      targetId: user.id,
+      ipAddress: clientIP,
+      userAgent,
+      metadata: { method: 'password' },
+    })
+
     // Log successful registration
     console.log(`New user registered: ${username} (${email}) from IP: ${clientIP}`)
 
+    // Send the initial verification email (failure here must not block sign-up)
+    const verification = await emailVerificationService.sendVerificationEmail(user.id, {
+      skipThrottle: true,
+    })
+
     return ApiResponseHandler.success({
       message: 'User registered successfully',
       user: {
@@ -112,8 +127,10 @@ export async function POST(request: NextRequest) {
         email: user.email,
         username: user.username,
         role: user.role,
-        createdAt: user.createdAt
+        createdAt: user.createdAt,
+        emailVerified: false
       },
+      verificationEmailSent: verification.sent,
       nextSteps: [
         'Please check your email for verification instructions',
         'You can now sign in with your credentials'
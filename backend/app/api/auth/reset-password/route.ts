@@ -0,0 +1,87 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { passwordResetService } from '@/lib/password-reset-service'
+import { auditService } from '@/lib/audit-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+const resetPasswordSchema = z.object({
+  token: z.string()
+    .min(1, 'Reset token is required')
+    .max(256, 'Invalid reset token'),
+  password: z.string()
+    .min(8, 'Password must be at least 8 characters')
+    .max(128, 'Password must be less than 128 characters')
+    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/,
+           'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character'),
+  confirmPassword: z.string().optional(),
+}).refine(data => data.confirmPassword === undefined || data.password === data.confirmPassword, {
+  message: 'Passwords do not match',
+  path: ['confirmPassword'],
+})
+
+/**
+ * Reset password using a token from the reset email
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_reset_password',
+      RATE_LIMIT_CONFIGS.AUTH_CHANGE_PASSWORD
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(
+        retryAfter,
+        'Too many password reset attempts'
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = resetPasswordSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { token, password } = validationResult.data
+    const clientIP = authMiddleware.getClientIP(request)
+
+    const result = await passwordResetService.resetPassword(token, password)
+
+    if (!result.success) {
+      console.warn(`Invalid or expired password reset token used from IP: ${clientIP}`)
+      return ApiResponseHandler.error(
+        'TOKEN_INVALID',
+        'This password reset link is invalid or has expired',
+        400
+      )
+    }
+
+    await RateLimiter.recordAttempt(request, 'auth_reset_password', true)
+
+    await auditService.record({
+      type: 'password.reset',
+      actorId: result.userId,
+      targetId: result.userId,
+      ...auditService.requestContext(request),
+    })
+
+    console.log(`Password reset completed for user ${result.userId} from IP: ${clientIP}`)
+
+    const response = ApiResponseHandler.success({
+      message: 'Password has been reset successfully. Please sign in with your new password.',
+      sessionsRevoked: true,
+    })
+
+    authMiddleware.addSecurityHeaders(response)
+
+    return response
+  } catch (error) {
+    console.error('Reset password error:', error)
+    return ApiResponseHandler.internalError('Failed to reset password')
+  }
+}
@@ -3,6 +3,8 @@ import { z } from 'zod'
 import bcrypt from 'bcryptjs'
 import { prisma } from '@/lib/prisma'
 import { sessionService } from '@/lib/session-service'
+import { mfaService } from '@/lib/mfa-service'
+import { auditService } from '@/lib/audit-service'
 import { authMiddleware } from '@/middlewares/auth'
 import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
 import { ApiResponseHandler } from '@/lib/api-response'
@@ -63,9 +65,7 @@ export async function POST(request: NextRequest) {
     
     // Get client information for audit trail
     // Get client IP address
-    const forwarded = request.headers.get('x-forwarded-for')
-    const realIP = request.headers.get('x-real-ip')
-    const clientIP = forwarded ? forwarded.split(',')[0].trim() : (realIP || 'unknown')
+    const clientIP = authMiddleware.getClientIP(request)
     const userAgent = request.headers.get('user-agent') || deviceInfo?.userAgent || 'Unknown'
 
     // Find user by email
@@ -80,12 +80,28 @@ export async function POST(request: NextRequest) {
         isLocked: true,
         lockedUntil: true,
         loginCount: true,
+        totpEnabledAt: true,
       },
     })
 
     // Check if user exists
     if (!user) {
       console.warn(`Failed login attempt for ${email} from IP: ${clientIP} - User not found`)
+
+      await authMiddleware.logAuthAttempt({
+        email,
+        ipAddress: clientIP,
+        userAgent,
+        success: false,
+        failReason: 'User not found',
+      })
+      await auditService.record({
+        type: 'login.failed',
+        ipAddress: clientIP,
+        userAgent,
+        metadata: { method: 'password', email, reason: 'User not found' },
+      })
+
       return ApiResponseHandler.unauthorized('Invalid email or password')
     }
 
@@ -94,6 +110,13 @@ export async function POST(request: NextRequest) {
       const now = new Date()
       if (!user.lockedUntil || user.lockedUntil > now) {
         console.warn(`Login attempt for locked account: ${email} from IP: ${clientIP}`)
+        await auditService.record({
+          type: 'login.failed',
+          targetId: user.id,
+          ipAddress: clientIP,
+          userAgent,
+          metadata: { method: 'password', reason: 'Account locked' },
+        })
         return ApiResponseHandler.forbidden(
           `Account is temporarily locked until ${user.lockedUntil?.toISOString()}. Please try again later.`
         )
@@ -104,32 +127,96 @@ export async function POST(request: NextRequest) {
           data: {
             isLocked: false,
             lockedUntil: null,
+            adminLockedAt: null,
+            lockReason: null,
           },
         })
       }
     }
 
-    // Verify password
+    // Password-less accounts sign in with their passkey; answer as for an unknown email so the
+    // response does not reveal that the account exists
     if (!user.password) {
-      console.warn(`Login attempt for user without password: ${email} from IP: ${clientIP}`)
+      console.warn(`Failed login attempt for ${email} from IP: ${clientIP} - No password set`)
+
+      await authMiddleware.logAuthAttempt({
+        email,
+        ipAddress: clientIP,
+        userAgent,
+        success: false,
+        failReason: 'No password set',
+      })
+      await auditService.record({
+        type: 'login.failed',
+        targetId: user.id,
+        ipAddress: clientIP,
+        userAgent,
+        metadata: { method: 'password', reason: 'No password set' },
+      })
+
       return ApiResponseHandler.unauthorized('Invalid email or password')
     }
 
+    // Verify password
+
     const isValidPassword = await bcrypt.compare(password, user.password)
     
     if (!isValidPassword) {
       console.warn(`Failed login attempt for ${email} from IP: ${clientIP} - Invalid password`)
-      
+
+      await authMiddleware.logAuthAttempt({
+        email,
+        ipAddress: clientIP,
+        userAgent,
+        success: false,
+        failReason: 'Invalid password',
+        userId: user.id,
+      })
+      await auditService.record({
+        type: 'login.failed',
+        targetId: user.id,
+        ipAddress: clientIP,
+        userAgent,
+        metadata: { method: 'password', reason: 'Invalid password' },
+      })
+
       // Check if user should be locked
       const shouldLock = await authMiddleware.checkAndLockUser(user.id)
       
       if (shouldLock) {
+        await auditService.record({
+          type: 'account.locked',
+          targetId: user.id,
+          ipAddress: clientIP,
+          userAgent,
+          metadata: { reason: 'Too many failed login attempts' },
+        })
         return ApiResponseHandler.forbidden('Too many failed attempts. Account has been temporarily locked.')
       }
 
       return ApiResponseHandler.unauthorized('Invalid email or password')
     }
 
+    // Password accepted - require the second factor before issuing a session
+    if (user.totpEnabledAt) {
+      const challenge = await mfaService.createChallenge(user, {
+        amr: ['pwd'],
+        rememberMe,
+      })
+
+      await RateLimiter.recordAttempt(request, 'auth_login', true)
+
+      console.log(`MFA challenge issued for ${user.username} (${email}) from IP: ${clientIP}`)
+
+      return ApiResponseHandler.success({
+        message: 'Two-factor authentication required',
+        mfaRequired: true,
+        challengeToken: challenge.challengeToken,
+        challengeExpiresAt: challenge.expiresAt,
+        methods: challenge.methods,
+      })
+    }
+
     // Successful login - create session and tokens
     const sessionResult = await sessionService.createSessionWithJWT({
       userId: user.id,
@@ -144,6 +231,7 @@ export async function POST(request: NextRequest) {
         role: user.role,
       },
       authMethod: 'credentials',
+      amr: ['pwd'],
     })
 
     // Update user login statistics
@@ -156,6 +244,17 @@ export async function POST(request: NextRequest) {
     })
 
     // Log successful login
+    await RateLimiter.recordAttempt(request, 'auth_login', true)
+
+    await auditService.record({
+      type: 'login.succeeded',
+      actorId: user.id,
+      targetId: user.id,
+      ipAddress: clientIP,
+      userAgent,
+      metadata: { method: 'password', sessionId: sessionResult.session.id },
+    })
+
     console.log(`Successful login: ${user.username} (${email}) from IP: ${clientIP}`)
 
     // Create standardized response
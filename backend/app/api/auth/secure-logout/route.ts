@@ -55,9 +55,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Get client IP address
-    const forwarded = request.headers.get('x-forwarded-for')
-    const realIP = request.headers.get('x-real-ip')
-    const clientIP = forwarded ? forwarded.split(',')[0].trim() : (realIP || 'unknown')
+    const clientIP = authMiddleware.getClientIP(request)
     const userAgent = request.headers.get('user-agent') || 'Unknown'
     const { user, session } = authResult
     
@@ -211,9 +209,9 @@ export async function GET(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
   try {
     // Validate admin authentication
-    const authResult = await authMiddleware(request)
+    const authResult = await authMiddleware(request, { requiredPermissions: ['users:update'] })
 
-    if (!authResult.authenticated || !authResult.user || authResult.user.role !== 'ADMIN') {
+    if (!authResult.authenticated || !authResult.user) {
       return ApiResponseHandler.forbidden('Admin access required')
     }
 
@@ -226,9 +224,7 @@ export async function DELETE(request: NextRequest) {
     }
 
     // Get client IP address
-    const forwarded = request.headers.get('x-forwarded-for')
-    const realIP = request.headers.get('x-real-ip')
-    const clientIP = forwarded ? forwarded.split(',')[0].trim() : (realIP || 'unknown')
+    const clientIP = authMiddleware.getClientIP(request)
     const userAgent = request.headers.get('user-agent') || 'Unknown'
 
     // Force logout target user from all devices
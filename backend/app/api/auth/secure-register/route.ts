@@ -2,7 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import bcrypt from 'bcryptjs'
 import { prisma } from '@/lib/prisma'
+import { DEFAULT_ROLE } from '@/lib/permissions'
 import { sessionService } from '@/lib/session-service'
+import { emailVerificationService } from '@/lib/email-verification-service'
+import { auditService } from '@/lib/audit-service'
 import { authMiddleware } from '@/middlewares/auth'
 import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
 import { ApiResponseHandler } from '@/lib/api-response'
@@ -81,9 +84,7 @@ export async function POST(request: NextRequest) {
 
     const { email, username, password, deviceInfo } = validationResult.data
     // Get client IP address
-    const forwarded = request.headers.get('x-forwarded-for')
-    const realIP = request.headers.get('x-real-ip')
-    const clientIP = forwarded ? forwarded.split(',')[0].trim() : (realIP || 'unknown')
+    const clientIP = authMiddleware.getClientIP(request)
     const userAgent = request.headers.get('user-agent') || 'Unknown'
 
     // Check if user already exists
@@ -122,7 +123,7 @@ export async function POST(request: NextRequest) {
         email,
         username,
         password: hashedPassword,
-        role: 'USER', // Default role
+        role: DEFAULT_ROLE,
         loginCount: 0,
         isLocked: false,
         // Record registration metadata
@@ -160,8 +161,22 @@ export async function POST(request: NextRequest) {
       authMethod: 'credentials',
     })
 
+    await auditService.record({
+      type: 'account.created',
+      actorId: newUser.id,
+      targetId: newUser.id,
+      ipAddress: clientIP,
+      userAgent,
+      metadata: { method: 'password' },
+    })
+
     console.log(`New user registered and logged in: ${username} (${email}) from IP: ${clientIP}`)
 
+    // Send the initial verification email (failure here must not block sign-up)
+    const verification = await emailVerificationService.sendVerificationEmail(newUser.id, {
+      skipThrottle: true,
+    })
+
     // Update user login statistics
     await prisma.user.update({
       where: { id: newUser.id },
@@ -180,7 +195,9 @@ export async function POST(request: NextRequest) {
         username: newUser.username,
         role: newUser.role,
         createdAt: newUser.createdAt,
+        emailVerified: false,
       },
+      verificationEmailSent: verification.sent,
       session: {
         id: sessionResult.session.id,
         expiresAt: sessionResult.session.expires,
@@ -303,9 +320,9 @@ export async function GET(request: NextRequest) {
 export async function PATCH(request: NextRequest) {
   try {
     // Validate admin authentication
-    const authResult = await authMiddleware(request)
+    const authResult = await authMiddleware(request, { requiredPermissions: ['admin:access'] })
 
-    if (!authResult.authenticated || !authResult.user || authResult.user.role !== 'ADMIN') {
+    if (!authResult.authenticated || !authResult.user) {
       return ApiResponseHandler.forbidden('Admin access required')
     }
 
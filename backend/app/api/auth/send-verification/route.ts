@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server'
+import { emailVerificationService } from '@/lib/email-verification-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+/**
+ * Resend the verification email for the authenticated user
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const result = await emailVerificationService.sendVerificationEmail(authResult.user.id)
+
+    if (!result.sent) {
+      switch (result.reason) {
+        case 'ALREADY_VERIFIED':
+          return ApiResponseHandler.conflict('Email address is already verified')
+        case 'THROTTLED':
+          return ApiResponseHandler.rateLimitExceeded(
+            result.retryAfter,
+            'Please wait before requesting another verification email'
+          )
+        case 'USER_NOT_FOUND':
+          return ApiResponseHandler.notFound('User')
+        default:
+          return ApiResponseHandler.error(
+            'EXTERNAL_SERVICE_ERROR',
+            'Failed to send verification email',
+            502
+          )
+      }
+    }
+
+    return ApiResponseHandler.success({
+      message: 'Verification email sent',
+      expiresAt: result.expiresAt,
+    })
+  } catch (error) {
+    console.error('Send verification error:', error)
+    return ApiResponseHandler.internalError('Failed to send verification email')
+  }
+}
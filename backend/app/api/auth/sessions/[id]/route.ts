@@ -0,0 +1,131 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { sessionService } from '@/lib/session-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// Schema for renaming a session; null clears the name
+const renameSessionSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50, 'Name too long').nullable(),
+})
+
+/**
+ * Rename one of the authenticated user's sessions, e.g. "Work laptop"
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_sessions',
+      RATE_LIMIT_CONFIGS.AUTH_PROFILE
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many requests')
+    }
+
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const impersonationResponse = authMiddleware.rejectImpersonation(authResult)
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    const apiKeyResponse = authMiddleware.rejectApiKey(authResult)
+    if (apiKeyResponse) {
+      return apiKeyResponse
+    }
+
+    const body = await request.json()
+    const validationResult = renameSessionSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { id } = await params
+    const renamed = await sessionService.renameSession(authResult.user.id, id, validationResult.data.name)
+
+    if (!renamed) {
+      return ApiResponseHandler.notFound('Session')
+    }
+
+    return ApiResponseHandler.success({
+      message: 'Session renamed',
+      session: { id, name: validationResult.data.name },
+    })
+  } catch (error) {
+    console.error('Rename session error:', error)
+    return ApiResponseHandler.internalError('Failed to rename session')
+  }
+}
+
+/**
+ * Revoke one of the authenticated user's sessions, signing that device out
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_sessions',
+      RATE_LIMIT_CONFIGS.AUTH_PROFILE
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many requests')
+    }
+
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const impersonationResponse = authMiddleware.rejectImpersonation(authResult)
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    const apiKeyResponse = authMiddleware.rejectApiKey(authResult)
+    if (apiKeyResponse) {
+      return apiKeyResponse
+    }
+
+    const { id } = await params
+
+    if (id === authResult.token?.sessionId) {
+      return ApiResponseHandler.error(
+        'VALIDATION_ERROR',
+        'Use logout to end the current session',
+        400
+      )
+    }
+
+    const revoked = await sessionService.revokeSession(authResult.user.id, id)
+
+    if (!revoked) {
+      return ApiResponseHandler.notFound('Session')
+    }
+
+    const clientIP = authMiddleware.getClientIP(request)
+    console.log(`Session ${id} revoked by user: ${authResult.user.email} from IP: ${clientIP}`)
+
+    return ApiResponseHandler.success({ message: 'Session revoked' })
+  } catch (error) {
+    console.error('Revoke session error:', error)
+    return ApiResponseHandler.internalError('Failed to revoke session')
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest } from 'next/server'
+import { sessionService } from '@/lib/session-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+/**
+ * List the authenticated user's active sessions, marking the current one
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_sessions',
+      RATE_LIMIT_CONFIGS.AUTH_PROFILE
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many requests')
+    }
+
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const currentSessionId = authResult.token?.sessionId
+    const [sessions, stats] = await Promise.all([
+      sessionService.getUserSessions(authResult.user.id),
+      sessionService.getSessionStats(authResult.user.id),
+    ])
+
+    return ApiResponseHandler.success({
+      sessions: sessions.map(session => ({
+        id: session.id,
+        name: session.name || null,
+        device: session.device,
+        userAgent: session.userAgent || null,
+        ipAddress: session.ipAddress || null,
+        createdAt: session.createdAt,
+        lastActiveAt: session.updatedAt,
+        expiresAt: session.expires,
+        current: session.id === currentSessionId,
+        impersonated: !!session.impersonatorId,
+      })),
+      stats,
+    })
+  } catch (error) {
+    console.error('List sessions error:', error)
+    return ApiResponseHandler.internalError('Failed to retrieve sessions')
+  }
+}
+
+/**
+ * Sign out every other device: revoke all sessions except the current one
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_sessions',
+      RATE_LIMIT_CONFIGS.AUTH_PROFILE
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many requests')
+    }
+
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const impersonationResponse = authMiddleware.rejectImpersonation(authResult)
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    const apiKeyResponse = authMiddleware.rejectApiKey(authResult)
+    if (apiKeyResponse) {
+      return apiKeyResponse
+    }
+
+    const revoked = await sessionService.revokeOtherSessions(
+      authResult.user.id,
+      authResult.token?.sessionId
+    )
+    const clientIP = authMiddleware.getClientIP(request)
+
+    console.log(`Revoked ${revoked} other session(s) for user: ${authResult.user.email} from IP: ${clientIP}`)
+
+    return ApiResponseHandler.success({
+      message: revoked > 0 ? 'Signed out of all other devices' : 'No other active sessions',
+      revoked,
+    })
+  } catch (error) {
+    console.error('Revoke other sessions error:', error)
+    return ApiResponseHandler.internalError('Failed to revoke sessions')
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest } from 'next/server'
+import { sessionService } from '@/lib/session-service'
+import { jwtService } from '@/lib/jwt-service'
+import { organizationSwitchSchema } from '@/lib/validators'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+/**
+ * Switch the active organization of the current session and reissue its
+ * tokens, so the org claim names the new organization
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_refresh',
+      RATE_LIMIT_CONFIGS.AUTH_REFRESH
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many requests')
+    }
+
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const impersonationResponse = authMiddleware.rejectImpersonation(authResult)
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    const sessionId = authResult.token?.sessionId
+    if (!sessionId) {
+      return ApiResponseHandler.error('SESSION_REQUIRED', 'Switching organizations requires a session-bound token', 400)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validationResult = organizationSwitchSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const clientIP = authMiddleware.getClientIP(request)
+    const result = await sessionService.switchOrganization({
+      sessionId,
+      user: authResult.user,
+      organizationId: validationResult.data.organizationId,
+      authMethod: authResult.token?.authMethod,
+      amr: authResult.token?.amr,
+      deviceInfo: authResult.token?.deviceInfo,
+      ipAddress: clientIP,
+    })
+
+    if (!result.success) {
+      return result.error === 'NOT_A_MEMBER'
+        ? ApiResponseHandler.notFound('Organization')
+        : ApiResponseHandler.unauthorized('Session is no longer active')
+    }
+
+    // The old access token still carries the previous org claim
+    const currentToken = authMiddleware.extractToken(request)
+    if (currentToken) {
+      await jwtService.blacklistToken(currentToken, 'organization_switch', authResult.user.id)
+    }
+
+    console.log(`User ${authResult.user.id} switched to organization ${result.organization?.id || 'none'} from IP: ${clientIP}`)
+
+    const { tokens } = result
+    const response = ApiResponseHandler.success({
+      message: 'Organization switched',
+      organization: result.organization,
+      tokens: {
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        expiresIn: 15 * 60, // 15 minutes in seconds
+      },
+    })
+
+    const cookieOptions = {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax' as const,
+      path: '/',
+    }
+
+    response.cookies.set('auth-token', tokens.accessToken, {
+      ...cookieOptions,
+      maxAge: 24 * 60 * 60, // 24 hours
+    })
+
+    response.cookies.set('refresh-token', tokens.refreshToken, {
+      ...cookieOptions,
+      maxAge: 30 * 24 * 60 * 60, // 30 days
+    })
+
+    authMiddleware.addSecurityHeaders(response)
+
+    return response
+  } catch (error) {
+    console.error('Switch organization error:', error)
+    return ApiResponseHandler.internalError('Failed to switch organization')
+  }
+}
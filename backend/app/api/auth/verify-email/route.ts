@@ -0,0 +1,65 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { emailVerificationService } from '@/lib/email-verification-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+const verifyEmailSchema = z.object({
+  token: z.string()
+    .min(1, 'Verification token is required')
+    .max(256, 'Invalid verification token'),
+})
+
+/**
+ * Verify an email address using the token from the verification email
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'auth_verify_email',
+      RATE_LIMIT_CONFIGS.AUTH_PROFILE
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(
+        retryAfter,
+        'Too many verification attempts'
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = verifyEmailSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const clientIP = authMiddleware.getClientIP(request)
+    const result = await emailVerificationService.verifyEmail(validationResult.data.token)
+
+    if (!result.success) {
+      console.warn(`Email verification failed from IP: ${clientIP} - ${result.error}`)
+      return ApiResponseHandler.error(
+        'TOKEN_INVALID',
+        result.error === 'EMAIL_CHANGED'
+          ? 'This verification link was sent to a previous email address'
+          : 'This verification link is invalid or has expired',
+        400
+      )
+    }
+
+    console.log(`Email verified: ${result.email} (user ${result.userId}) from IP: ${clientIP}`)
+
+    return ApiResponseHandler.success({
+      message: 'Email verified successfully',
+      email: result.email,
+      emailVerified: true,
+    })
+  } catch (error) {
+    console.error('Verify email error:', error)
+    return ApiResponseHandler.internalError('Email verification failed')
+  }
+}
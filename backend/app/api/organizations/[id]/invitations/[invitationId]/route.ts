@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server'
+import { organizationService } from '@/lib/organization-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// DELETE /api/organizations/:id/invitations/:invitationId - Revoke a pending invitation
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; invitationId: string }> }
+) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'organizations',
+      RATE_LIMIT_CONFIGS.API_USER_MANAGEMENT
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many requests')
+    }
+
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const { id, invitationId } = await params
+    const membership = await organizationService.getMembership(id, authResult.user.id)
+
+    if (!membership) {
+      return ApiResponseHandler.notFound('Organization')
+    }
+
+    if (!organizationService.getRolePermissions(membership.role).includes('members:invite')) {
+      return ApiResponseHandler.forbidden('Insufficient organization permissions')
+    }
+
+    const revoked = await organizationService.revokeInvitation(id, invitationId)
+
+    if (!revoked) {
+      return ApiResponseHandler.notFound('Invitation')
+    }
+
+    return ApiResponseHandler.success({ message: 'Invitation revoked' })
+  } catch (error) {
+    console.error('Revoke organization invitation error:', error)
+    return ApiResponseHandler.internalError('Failed to revoke invitation')
+  }
+}
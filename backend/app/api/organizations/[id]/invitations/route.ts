@@ -0,0 +1,136 @@
+import { NextRequest } from 'next/server'
+import { organizationService } from '@/lib/organization-service'
+import { auditService } from '@/lib/audit-service'
+import { organizationInviteSchema } from '@/lib/validators'
+import { hasPermissions } from '@/lib/permissions'
+import { sendEmail, getOrganizationInvitationEmailHtml } from '@/services/email.service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+/**
+ * Rate limit and require a member of the organization who may invite.
+ * Non-members get 404 so IDs cannot be probed.
+ */
+async function authorizeInviter(request: NextRequest, organizationId: string) {
+  const rateLimitResult = await RateLimiter.checkRateLimit(
+    request,
+    'organizations',
+    RATE_LIMIT_CONFIGS.API_USER_MANAGEMENT
+  )
+
+  if (!rateLimitResult.allowed) {
+    return {
+      response: ApiResponseHandler.rateLimitExceeded(
+        Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        'Too many requests'
+      ),
+    }
+  }
+
+  const authResult = await authMiddleware(request)
+
+  if (!authResult.authenticated || !authResult.user) {
+    return { response: ApiResponseHandler.unauthorized('Authentication required') }
+  }
+
+  const membership = await organizationService.getMembership(organizationId, authResult.user.id)
+
+  if (!membership) {
+    return { response: ApiResponseHandler.notFound('Organization') }
+  }
+
+  if (!organizationService.getRolePermissions(membership.role).includes('members:invite')) {
+    return { response: ApiResponseHandler.forbidden('Insufficient organization permissions') }
+  }
+
+  return { user: authResult.user, membership }
+}
+
+// GET /api/organizations/:id/invitations - Pending invitations
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const auth = await authorizeInviter(request, id)
+    if (auth.response) {
+      return auth.response
+    }
+
+    const invitations = await organizationService.listInvitations(id)
+
+    return ApiResponseHandler.success({ invitations })
+  } catch (error) {
+    console.error('List organization invitations error:', error)
+    return ApiResponseHandler.internalError('Failed to list invitations')
+  }
+}
+
+// POST /api/organizations/:id/invitations - Invite someone by email
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const auth = await authorizeInviter(request, id)
+    if (auth.response) {
+      return auth.response
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validationResult = organizationInviteSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { email, role } = validationResult.data
+
+    // Inviting with a role that grants more than the inviter holds would be an escalation
+    const inviterPermissions = organizationService.getRolePermissions(auth.membership.role)
+    if (!hasPermissions(inviterPermissions, organizationService.getRolePermissions(role))) {
+      return ApiResponseHandler.forbidden('Cannot invite with a role that grants permissions you lack')
+    }
+
+    const created = await organizationService.createInvitation({
+      organizationId: id,
+      email,
+      role,
+      invitedById: auth.user.id,
+    })
+
+    if (!created) {
+      return ApiResponseHandler.conflict('This email address already belongs to a member')
+    }
+
+    const emailResult = await sendEmail({
+      to: email,
+      subject: `You're invited to join ${auth.membership.name}`,
+      html: getOrganizationInvitationEmailHtml(created.token, auth.membership.name, auth.user.username),
+    })
+
+    if (!emailResult.success) {
+      console.error(`Failed to send invitation email for organization ${id}:`, emailResult.error)
+      await organizationService.revokeInvitation(id, created.invitation.id)
+      return ApiResponseHandler.error('EXTERNAL_SERVICE_ERROR', 'Failed to send invitation email', 502)
+    }
+
+    const context = auditService.requestContext(request)
+    await auditService.record({
+      type: 'organization.member_invited',
+      actorId: auth.user.id,
+      ...context,
+      metadata: { organizationId: id, email, role },
+    })
+
+    console.log(`User ${auth.user.id} invited ${email} to organization ${id} from IP: ${context.ipAddress}`)
+
+    return ApiResponseHandler.success({ message: 'Invitation sent', invitation: created.invitation }, 201)
+  } catch (error) {
+    console.error('Create organization invitation error:', error)
+    return ApiResponseHandler.internalError('Failed to send invitation')
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest } from 'next/server'
+import { organizationService, type MembershipChangeResult } from '@/lib/organization-service'
+import { auditService } from '@/lib/audit-service'
+import { organizationMemberUpdateSchema } from '@/lib/validators'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+/**
+ * Rate limit and require a member of the organization. Non-members get 404
+ * so IDs cannot be probed.
+ */
+async function authorizeMember(request: NextRequest, organizationId: string) {
+  const rateLimitResult = await RateLimiter.checkRateLimit(
+    request,
+    'organizations',
+    RATE_LIMIT_CONFIGS.API_USER_MANAGEMENT
+  )
+
+  if (!rateLimitResult.allowed) {
+    return {
+      response: ApiResponseHandler.rateLimitExceeded(
+        Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        'Too many requests'
+      ),
+    }
+  }
+
+  const authResult = await authMiddleware(request)
+
+  if (!authResult.authenticated || !authResult.user) {
+    return { response: ApiResponseHandler.unauthorized('Authentication required') }
+  }
+
+  const membership = await organizationService.getMembership(organizationId, authResult.user.id)
+
+  if (!membership) {
+    return { response: ApiResponseHandler.notFound('Organization') }
+  }
+
+  return { user: authResult.user, membership }
+}
+
+/**
+ * Map a failed membership change to its response
+ */
+function membershipChangeError(result: Exclude<MembershipChangeResult, { success: true }>) {
+  switch (result.error) {
+    case 'NOT_FOUND':
+      return ApiResponseHandler.notFound('Member')
+    case 'LAST_OWNER':
+      return ApiResponseHandler.conflict('An organization needs at least one owner')
+    default:
+      return ApiResponseHandler.forbidden('Insufficient organization permissions')
+  }
+}
+
+// PATCH /api/organizations/:id/members/:userId - Change a member's role
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const { id, userId } = await params
+    const auth = await authorizeMember(request, id)
+    if (auth.response) {
+      return auth.response
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validationResult = organizationMemberUpdateSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const { role } = validationResult.data
+    const previous = await organizationService.getMembership(id, userId)
+    const result = await organizationService.updateMemberRole({
+      organizationId: id,
+      actor: { userId: auth.user.id, role: auth.membership.role },
+      userId,
+      role,
+    })
+
+    if (!result.success) {
+      return membershipChangeError(result)
+    }
+
+    const context = auditService.requestContext(request)
+    await auditService.record({
+      type: 'organization.member_role_changed',
+      actorId: auth.user.id,
+      targetId: userId,
+      ...context,
+      metadata: { organizationId: id, from: previous?.role || null, to: role },
+    })
+
+    console.log(`User ${auth.user.id} changed role of ${userId} in organization ${id} to ${role} from IP: ${context.ipAddress}`)
+
+    return ApiResponseHandler.success({ message: 'Member role updated', member: { userId, role } })
+  } catch (error) {
+    console.error('Update organization member error:', error)
+    return ApiResponseHandler.internalError('Failed to update member')
+  }
+}
+
+// DELETE /api/organizations/:id/members/:userId - Remove a member, or leave when it is the user
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const { id, userId } = await params
+    const auth = await authorizeMember(request, id)
+    if (auth.response) {
+      return auth.response
+    }
+
+    const leaving = userId === auth.user.id
+    const result = await organizationService.removeMember({
+      organizationId: id,
+      actor: leaving ? undefined : { userId: auth.user.id, role: auth.membership.role },
+      userId,
+    })
+
+    if (!result.success) {
+      return membershipChangeError(result)
+    }
+
+    const context = auditService.requestContext(request)
+    await auditService.record({
+      type: 'organization.member_removed',
+      actorId: auth.user.id,
+      targetId: userId,
+      ...context,
+      metadata: { organizationId: id, left: leaving },
+    })
+
+    console.log(`User ${auth.user.id} removed ${userId} from organization ${id} from IP: ${context.ipAddress}`)
+
+    return ApiResponseHandler.success({ message: leaving ? 'Left organization' : 'Member removed' })
+  } catch (error) {
+    console.error('Remove organization member error:', error)
+    return ApiResponseHandler.internalError('Failed to remove member')
+  }
+}
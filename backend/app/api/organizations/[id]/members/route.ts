@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server'
+import { organizationService } from '@/lib/organization-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+// GET /api/organizations/:id/members - Members and their roles, visible to every member
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'organizations',
+      RATE_LIMIT_CONFIGS.API_USER_MANAGEMENT
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many requests')
+    }
+
+    const authResult = await authMiddleware(request)
+
+    if (!authResult.authenticated || !authResult.user) {
+      return ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const { id } = await params
+    const membership = await organizationService.getMembership(id, authResult.user.id)
+
+    if (!membership) {
+      return ApiResponseHandler.notFound('Organization')
+    }
+
+    const members = await organizationService.listMembers(id)
+
+    return ApiResponseHandler.success({ members })
+  } catch (error) {
+    console.error('List organization members error:', error)
+    return ApiResponseHandler.internalError('Failed to list members')
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest } from 'next/server'
+import { organizationService } from '@/lib/organization-service'
+import { auditService } from '@/lib/audit-service'
+import { organizationUpdateSchema } from '@/lib/validators'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+import type { OrganizationPermissionName } from '@/lib/permissions'
+
+/**
+ * Rate limit and require a member of the organization, optionally holding
+ * an organization permission. Non-members get 404 so IDs cannot be probed.
+ */
+async function authorizeMember(
+  request: NextRequest,
+  organizationId: string,
+  permission?: OrganizationPermissionName
+) {
+  const rateLimitResult = await RateLimiter.checkRateLimit(
+    request,
+    'organizations',
+    RATE_LIMIT_CONFIGS.API_USER_MANAGEMENT
+  )
+
+  if (!rateLimitResult.allowed) {
+    return {
+      response: ApiResponseHandler.rateLimitExceeded(
+        Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        'Too many requests'
+      ),
+    }
+  }
+
+  const authResult = await authMiddleware(request)
+
+  if (!authResult.authenticated || !authResult.user) {
+    return { response: ApiResponseHandler.unauthorized('Authentication required') }
+  }
+
+  const membership = await organizationService.getMembership(organizationId, authResult.user.id)
+
+  if (!membership) {
+    return { response: ApiResponseHandler.notFound('Organization') }
+  }
+
+  if (permission && !organizationService.getRolePermissions(membership.role).includes(permission)) {
+    return { response: ApiResponseHandler.forbidden('Insufficient organization permissions') }
+  }
+
+  return { user: authResult.user, membership, impersonator: authResult.impersonator }
+}
+
+// GET /api/organizations/:id - Organization details and the user's role in it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const auth = await authorizeMember(request, id)
+    if (auth.response) {
+      return auth.response
+    }
+
+    return ApiResponseHandler.success({
+      organization: auth.membership,
+      permissions: organizationService.getRolePermissions(auth.membership.role),
+    })
+  } catch (error) {
+    console.error('Get organization error:', error)
+    return ApiResponseHandler.internalError('Failed to retrieve organization')
+  }
+}
+
+// PATCH /api/organizations/:id - Rename the organization
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const auth = await authorizeMember(request, id, 'org:update')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validationResult = organizationUpdateSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    await organizationService.updateOrganization(id, validationResult.data)
+
+    return ApiResponseHandler.success({
+      message: 'Organization updated',
+      organization: { ...auth.membership, name: validationResult.data.name },
+    })
+  } catch (error) {
+    console.error('Update organization error:', error)
+    return ApiResponseHandler.internalError('Failed to update organization')
+  }
+}
+
+// DELETE /api/organizations/:id - Delete the organization for every member
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const auth = await authorizeMember(request, id, 'org:delete')
+    if (auth.response) {
+      return auth.response
+    }
+
+    const impersonationResponse = authMiddleware.rejectImpersonation(auth)
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    await organizationService.deleteOrganization(id)
+
+    const context = auditService.requestContext(request)
+    await auditService.record({
+      type: 'organization.deleted',
+      actorId: auth.user.id,
+      targetId: auth.user.id,
+      ...context,
+      metadata: { organizationId: id, slug: auth.membership.slug },
+    })
+
+    console.log(`User ${auth.user.id} deleted organization ${id} from IP: ${context.ipAddress}`)
+
+    return ApiResponseHandler.success({ message: 'Organization deleted' })
+  } catch (error) {
+    console.error('Delete organization error:', error)
+    return ApiResponseHandler.internalError('Failed to delete organization')
+  }
+}
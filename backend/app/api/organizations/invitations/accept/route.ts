@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server'
+import { z } from 'zod'
+import { organizationService } from '@/lib/organization-service'
+import { auditService } from '@/lib/audit-service'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+const acceptInvitationSchema = z.object({
+  token: z.string().min(1, 'Invitation token is required'),
+})
+
+/**
+ * Accept an organization invitation as the signed-in user it was sent to
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'organization_invitation_accept',
+      RATE_LIMIT_CONFIGS.API_PROFILE_UPDATE
+    )
+
+    if (!rateLimitResult.allowed) {
+      const retryAfter = Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000)
+      return ApiResponseHandler.rateLimitExceeded(retryAfter, 'Too many requests')
+    }
+
+    const authResult = await authMiddleware(request, { requireVerifiedEmail: true })
+
+    if (!authResult.authenticated || !authResult.user) {
+      return authResult.status === 403
+        ? ApiResponseHandler.forbidden('Email verification required')
+        : ApiResponseHandler.unauthorized('Authentication required')
+    }
+
+    const impersonationResponse = authMiddleware.rejectImpersonation(authResult)
+    if (impersonationResponse) {
+      return impersonationResponse
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validationResult = acceptInvitationSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const result = await organizationService.acceptInvitation(validationResult.data.token, authResult.user)
+
+    if (!result.success) {
+      switch (result.error) {
+        case 'EMAIL_MISMATCH':
+          return ApiResponseHandler.forbidden('This invitation was sent to a different email address')
+        case 'ALREADY_MEMBER':
+          return ApiResponseHandler.conflict('You are already a member of this organization')
+        default:
+          return ApiResponseHandler.error('TOKEN_INVALID', 'This invitation is invalid or has expired', 400)
+      }
+    }
+
+    const context = auditService.requestContext(request)
+    await auditService.record({
+      type: 'organization.member_joined',
+      actorId: authResult.user.id,
+      targetId: authResult.user.id,
+      ...context,
+      metadata: { organizationId: result.organization.id, role: result.organization.role },
+    })
+
+    console.log(`User ${authResult.user.id} joined organization ${result.organization.id} from IP: ${context.ipAddress}`)
+
+    return ApiResponseHandler.success({ message: 'Invitation accepted', organization: result.organization })
+  } catch (error) {
+    console.error('Accept organization invitation error:', error)
+    return ApiResponseHandler.internalError('Failed to accept invitation')
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest } from 'next/server'
+import { organizationService } from '@/lib/organization-service'
+import { auditService } from '@/lib/audit-service'
+import { organizationCreateSchema } from '@/lib/validators'
+import { authMiddleware } from '@/middlewares/auth'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from '@/middlewares/rate-limit'
+import { ApiResponseHandler } from '@/lib/api-response'
+
+/**
+ * Rate limit and require an authenticated user
+ */
+async function authorizeUser(request: NextRequest) {
+  const rateLimitResult = await RateLimiter.checkRateLimit(
+    request,
+    'organizations',
+    RATE_LIMIT_CONFIGS.API_USER_MANAGEMENT
+  )
+
+  if (!rateLimitResult.allowed) {
+    return {
+      response: ApiResponseHandler.rateLimitExceeded(
+        Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+        'Too many requests'
+      ),
+    }
+  }
+
+  const authResult = await authMiddleware(request)
+
+  if (!authResult.authenticated || !authResult.user) {
+    return { response: ApiResponseHandler.unauthorized('Authentication required') }
+  }
+
+  return { user: authResult.user, token: authResult.token }
+}
+
+// GET /api/organizations - Organizations the user belongs to
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeUser(request)
+    if (auth.response) {
+      return auth.response
+    }
+
+    const organizations = await organizationService.listUserOrganizations(auth.user.id)
+
+    return ApiResponseHandler.success({
+      organizations,
+      activeOrganizationId: auth.token?.org?.id || null,
+    })
+  } catch (error) {
+    console.error('List organizations error:', error)
+    return ApiResponseHandler.internalError('Failed to list organizations')
+  }
+}
+
+// POST /api/organizations - Create an organization owned by the user
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeUser(request)
+    if (auth.response) {
+      return auth.response
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validationResult = organizationCreateSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return ApiResponseHandler.validationError(validationResult.error)
+    }
+
+    const organization = await organizationService.createOrganization({
+      ...validationResult.data,
+      ownerId: auth.user.id,
+    })
+
+    if (!organization) {
+      return ApiResponseHandler.conflict('Organization slug is already taken')
+    }
+
+    const context = auditService.requestContext(request)
+    await auditService.record({
+      type: 'organization.created',
+      actorId: auth.user.id,
+      targetId: auth.user.id,
+      ...context,
+      metadata: { organizationId: organization.id, slug: organization.slug },
+    })
+
+    console.log(`User ${auth.user.id} created organization ${organization.id} from IP: ${context.ipAddress}`)
+
+    return ApiResponseHandler.success({ organization }, 201)
+  } catch (error) {
+    console.error('Create organization error:', error)
+    return ApiResponseHandler.internalError('Failed to create organization')
+  }
+}
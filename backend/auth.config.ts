@@ -30,6 +30,11 @@ export default {
           return null
         }
 
+        // Accounts with two-factor enabled must use /api/auth/secure-login + /api/auth/mfa/verify
+        if (user.totpEnabledAt) {
+          return null
+        }
+
         return {
           id: user.id,
           email: user.email,
@@ -57,10 +62,14 @@ export default {
           return null
         }
 
+        if (credential.cloneDetectedAt) {
+          return null
+        }
+
         // Update last used timestamp
         await prisma.webAuthnCredential.update({
           where: { id: credential.id },
-          data: { updatedAt: new Date() }
+          data: { lastUsedAt: new Date() }
         })
 
         return {
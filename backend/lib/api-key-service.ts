@@ -0,0 +1,172 @@
+import { randomBytes, createHash } from 'crypto'
+import { prisma } from './prisma'
+import { PERMISSIONS } from './permissions'
+
+// API key configuration
+export const API_KEY_PREFIX = 'nnk_' // Recognizable by secret scanners
+const API_KEY_DISPLAY_LENGTH = 12 // Characters kept in plain text to identify a key
+const MAX_API_KEYS_PER_USER = 25
+const LAST_USED_UPDATE_INTERVAL = 60 * 1000 // Avoid a write on every request
+
+// "read" allows safe methods, "write" every method; permission scopes grant
+// those permissions, as long as the owner's role still has them
+export const API_KEY_ACCESS_SCOPES = ['read', 'write'] as const
+export const API_KEY_SCOPES = [...API_KEY_ACCESS_SCOPES, ...PERMISSIONS] as const
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number]
+
+export interface ApiKeyInfo {
+  id: string
+  name: string
+  prefix: string
+  scopes: string[]
+  expiresAt: Date | null
+  lastUsedAt: Date | null
+  lastUsedIp: string | null
+  createdAt: Date
+}
+
+/**
+ * Long-lived personal access tokens for scripts and integrations. Keys are
+ * shown once and stored as SHA-256 hashes.
+ */
+export class ApiKeyService {
+  /**
+   * Hash a key for database storage
+   */
+  private static hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex')
+  }
+
+  private static toApiKeyInfo(key: {
+    id: string
+    name: string
+    prefix: string
+    scopes: string[]
+    expiresAt: Date | null
+    lastUsedAt: Date | null
+    lastUsedIp: string | null
+    createdAt: Date
+  }): ApiKeyInfo {
+    return {
+      id: key.id,
+      name: key.name,
+      prefix: key.prefix,
+      scopes: key.scopes,
+      expiresAt: key.expiresAt,
+      lastUsedAt: key.lastUsedAt,
+      lastUsedIp: key.lastUsedIp,
+      createdAt: key.createdAt,
+    }
+  }
+
+  /**
+   * Whether a scope controls request methods rather than granting a permission
+   */
+  static isAccessScope(scope: string): boolean {
+    return (API_KEY_ACCESS_SCOPES as readonly string[]).includes(scope)
+  }
+
+  /**
+   * Whether a bearer token looks like an API key rather than a JWT
+   */
+  static isApiKey(token: string): boolean {
+    return token.startsWith(API_KEY_PREFIX)
+  }
+
+  /**
+   * Create a key. Returns null when the user has reached the key limit.
+   */
+  static async createKey(options: {
+    userId: string
+    name: string
+    scopes: ApiKeyScope[]
+    expiresAt?: Date | null
+  }): Promise<{ key: string; apiKey: ApiKeyInfo } | null> {
+    const activeKeys = await prisma.apiKey.count({
+      where: {
+        userId: options.userId,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+    })
+
+    if (activeKeys >= MAX_API_KEYS_PER_USER) {
+      return null
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        userId: options.userId,
+        name: options.name,
+        prefix: key.slice(0, API_KEY_DISPLAY_LENGTH),
+        keyHash: this.hashKey(key),
+        scopes: Array.from(new Set(options.scopes)),
+        expiresAt: options.expiresAt || null,
+      },
+    })
+
+    return { key, apiKey: this.toApiKeyInfo(apiKey) }
+  }
+
+  /**
+   * Keys that have been neither revoked nor expired, newest first
+   */
+  static async listKeys(userId: string): Promise<ApiKeyInfo[]> {
+    const keys = await prisma.apiKey.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return keys.map(key => this.toApiKeyInfo(key))
+  }
+
+  static async revokeKey(userId: string, keyId: string): Promise<boolean> {
+    const result = await prisma.apiKey.updateMany({
+      where: { id: keyId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+
+    return result.count > 0
+  }
+
+  /**
+   * Look up a presented key, recording when and from where it was used.
+   * Returns null for unknown, revoked and expired keys.
+   */
+  static async verifyKey(
+    key: string,
+    context: { ipAddress?: string } = {}
+  ): Promise<{ id: string; userId: string; name: string; scopes: string[] } | null> {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: this.hashKey(key) },
+    })
+
+    const now = new Date()
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+      return null
+    }
+
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL) {
+      await prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: now, lastUsedIp: context.ipAddress },
+      })
+    }
+
+    return {
+      id: apiKey.id,
+      userId: apiKey.userId,
+      name: apiKey.name,
+      scopes: apiKey.scopes,
+    }
+  }
+}
+
+// Export singleton instance
+export const apiKeyService = ApiKeyService
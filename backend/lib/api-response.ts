@@ -30,6 +30,7 @@ export const ERROR_CODES = {
   TOKEN_EXPIRED: 'TOKEN_EXPIRED',
   TOKEN_INVALID: 'TOKEN_INVALID',
   INSUFFICIENT_PERMISSIONS: 'INSUFFICIENT_PERMISSIONS',
+  PASSKEY_REQUIRED: 'PASSKEY_REQUIRED',
   
   // Validation
   VALIDATION_ERROR: 'VALIDATION_ERROR',
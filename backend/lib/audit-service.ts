@@ -0,0 +1,159 @@
+import { NextRequest } from 'next/server'
+import { prisma } from './prisma'
+import { getClientIP } from './client-ip'
+import { webhookService } from './webhook-service'
+
+// Audit query configuration
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 200
+
+export const AUDIT_EVENT_TYPES = [
+  'account.created',
+  'login.succeeded',
+  'login.failed',
+  'account.locked',
+  'account.unlocked',
+  'role.changed',
+  'sessions.revoked',
+  'refresh_token.reused',
+  'impersonation.started',
+  'impersonation.ended',
+  'organization.created',
+  'organization.deleted',
+  'organization.member_invited',
+  'organization.member_joined',
+  'organization.member_role_changed',
+  'organization.member_removed',
+  'password.changed',
+  'password.reset',
+  'password.reset_requested',
+  'username.changed',
+  'passkey.added',
+  'passkey.removed',
+  'api_key.created',
+  'api_key.revoked',
+  'account.deleted',
+] as const
+
+export type AuditEventType = typeof AUDIT_EVENT_TYPES[number]
+
+export type AuditMetadata = Record<string, string | number | boolean | null>
+
+export interface AuditEventInput {
+  type: AuditEventType
+  actorId?: string | null
+  targetId?: string | null
+  ipAddress?: string
+  userAgent?: string
+  metadata?: AuditMetadata
+}
+
+export interface AuditEventInfo {
+  id: string
+  type: AuditEventType
+  actorId: string | null
+  targetId: string | null
+  ipAddress: string | null
+  userAgent: string | null
+  metadata: AuditMetadata | null
+  createdAt: Date
+}
+
+export interface AuditEventQuery {
+  userId?: string // Events where the user is the actor or the target
+  types?: AuditEventType[]
+  from?: Date
+  to?: Date
+  cursor?: string // ID of the last event on the previous page
+  limit?: number
+}
+
+/**
+ * Persistent log of security-relevant account actions
+ */
+export class AuditService {
+  /**
+   * IP address and user agent of a request, for events recorded from routes
+   */
+  static requestContext(request: NextRequest): { ipAddress: string; userAgent?: string } {
+    return {
+      ipAddress: getClientIP(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+    }
+  }
+
+  /**
+   * Record an event and queue it for subscribed webhooks. Failures are logged
+   * rather than thrown, so auditing never breaks the action being audited.
+   */
+  static async record(event: AuditEventInput): Promise<void> {
+    let created
+    try {
+      created = await prisma.auditEvent.create({
+        data: {
+          type: event.type,
+          actorId: event.actorId ?? null,
+          targetId: event.targetId ?? null,
+          ipAddress: event.ipAddress,
+          userAgent: event.userAgent,
+          metadata: event.metadata,
+        },
+      })
+    } catch (error) {
+      console.error(`Failed to record audit event ${event.type}:`, error)
+      return
+    }
+
+    try {
+      await webhookService.publishAuditEvent({
+        id: created.id,
+        type: event.type,
+        actorId: created.actorId,
+        targetId: created.targetId,
+        metadata: event.metadata,
+        createdAt: created.createdAt,
+      })
+    } catch (error) {
+      console.error(`Failed to queue webhooks for audit event ${event.type}:`, error)
+    }
+  }
+
+  /**
+   * Query events, newest first. Pass nextCursor back as cursor for the next page.
+   */
+  static async query(query: AuditEventQuery = {}): Promise<{ events: AuditEventInfo[]; nextCursor: string | null }> {
+    const limit = Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+
+    const events = await prisma.auditEvent.findMany({
+      where: {
+        ...(query.userId ? { OR: [{ actorId: query.userId }, { targetId: query.userId }] } : {}),
+        ...(query.types?.length ? { type: { in: query.types } } : {}),
+        ...(query.from || query.to
+          ? { createdAt: { ...(query.from ? { gte: query.from } : {}), ...(query.to ? { lte: query.to } : {}) } }
+          : {}),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+    })
+
+    const page = events.slice(0, limit)
+
+    return {
+      events: page.map(event => ({
+        id: event.id,
+        type: event.type as AuditEventType,
+        actorId: event.actorId,
+        targetId: event.targetId,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        metadata: event.metadata as AuditMetadata | null,
+        createdAt: event.createdAt,
+      })),
+      nextCursor: events.length > limit ? page[page.length - 1].id : null,
+    }
+  }
+}
+
+// Export singleton instance
+export const auditService = AuditService
@@ -0,0 +1,52 @@
+// Friendly names for common authenticators, keyed by AAGUID.
+// Subset of the community passkey AAGUID list and the FIDO Metadata Service;
+// unknown AAGUIDs simply have no name.
+const AUTHENTICATOR_NAMES: Record<string, string> = {
+  // Platform and password manager passkeys
+  'fbfc3007-154e-4ecc-8c0b-6e020557d7bd': 'iCloud Keychain',
+  'dd4ec289-e01d-41c9-bb89-70fa845d4bf2': 'iCloud Keychain (Managed)',
+  'ea9b8d66-4d01-1d21-3ce4-b6b48cb575d4': 'Google Password Manager',
+  'adce0002-35bc-c60a-648b-0b25f1f05503': 'Chrome on Mac',
+  '08987058-cadc-4b81-b6e1-30de50dcbe96': 'Windows Hello',
+  '9ddd1817-af5a-4672-a2b9-3e3dd95000a9': 'Windows Hello',
+  '6028b017-b1d4-4c02-b4b3-afcdafc96bb2': 'Windows Hello',
+  'bada5566-a7aa-401f-bd96-45619a55120d': '1Password',
+  'd548826e-79b4-db40-a3d8-11116f7e8349': 'Bitwarden',
+  '531126d6-e717-415c-9320-3d9aa6981239': 'Dashlane',
+  '53414d53-554e-4700-0000-000000000000': 'Samsung Pass',
+
+  // Security keys
+  'cb69481e-8ff7-4039-93ec-0a2729a154a8': 'YubiKey 5',
+  'ee882879-721c-4913-9775-3dfcce97072a': 'YubiKey 5',
+  'fa2b99dc-9e39-4257-8f92-4a30d23c4118': 'YubiKey 5 NFC',
+  '2fc0579f-8113-47ea-b116-bb5a8db9202a': 'YubiKey 5 NFC',
+  'c5ef55ff-ad9a-4b9f-b580-adebafe026d0': 'YubiKey 5Ci',
+  '149a2021-8ef6-4133-96b8-81f8d5b7f1f5': 'Security Key by Yubico',
+  '6d44ba9b-f6ec-2e49-b930-0c8fe920cb73': 'Security Key by Yubico',
+  'a4e9fc6d-4cbe-4758-b8ba-37598bb5bbaa': 'Security Key by Yubico',
+  'b92c3f9a-c014-4056-887f-140a2501163b': 'Security Key by Yubico',
+  'f8a011f3-8c0a-4d15-8006-17111f9edc7d': 'Security Key by Yubico',
+}
+
+// Authenticators that don't disclose their model report the all-zero AAGUID
+const EMPTY_AAGUID = '00000000-0000-0000-0000-000000000000'
+
+/**
+ * Normalize an AAGUID, returning null when it carries no information
+ */
+export function normalizeAAGUID(aaguid: string | null | undefined): string | null {
+  if (!aaguid) {
+    return null
+  }
+
+  const normalized = aaguid.toLowerCase()
+  return normalized === EMPTY_AAGUID ? null : normalized
+}
+
+/**
+ * Look up the display name of an authenticator model
+ */
+export function getAuthenticatorName(aaguid: string | null | undefined): string | null {
+  const normalized = normalizeAAGUID(aaguid)
+  return normalized ? AUTHENTICATOR_NAMES[normalized] || null : null
+}
@@ -0,0 +1,146 @@
+// Client IP resolution behind reverse proxies. Forwarding headers are read
+// right to left and only as far as the configured proxies vouch for them, so
+// a client can't pick its own IP by sending a forged X-Forwarded-For.
+
+import { IPRangeList, canonicalizeIP } from './ip-address'
+
+export interface ClientIPConfig {
+  // "x-forwarded-for", "forwarded" (RFC 7239), or a header holding a single
+  // address set by the edge proxy, such as "x-real-ip" or "cf-connecting-ip"
+  header: string
+  // Proxies in front of the app that append to the forwarding header
+  trustedHops: number
+  // Further proxies (addresses or CIDR blocks) skipped when found in the chain
+  trustedProxies: IPRangeList<true>
+}
+
+/**
+ * Build a resolver configuration, e.g. from environment variables
+ */
+export function createClientIPConfig(options: {
+  header?: string
+  trustedHops?: number
+  trustedProxies?: string[]
+} = {}): ClientIPConfig {
+  const trustedProxies = new IPRangeList<true>()
+
+  options.trustedProxies?.forEach(proxy => {
+    if (!trustedProxies.add(proxy, true)) {
+      console.warn(`Ignoring invalid trusted proxy: ${proxy}`)
+    }
+  })
+
+  return {
+    header: (options.header || 'x-forwarded-for').toLowerCase(),
+    trustedHops: Math.max(0, options.trustedHops ?? 1),
+    trustedProxies,
+  }
+}
+
+const DEFAULT_CONFIG = createClientIPConfig({
+  header: process.env.CLIENT_IP_HEADER,
+  trustedHops: process.env.TRUSTED_PROXY_HOPS ? parseInt(process.env.TRUSTED_PROXY_HOPS) : undefined,
+  trustedProxies: process.env.TRUSTED_PROXIES?.split(',').map(proxy => proxy.trim()).filter(Boolean),
+})
+
+/**
+ * Canonical address of a forwarding entry, dropping any port
+ * ("192.0.2.1:8080", "[2001:db8::1]:443"); null for "unknown" or obfuscated values
+ */
+function parseNode(value: string): string | null {
+  let node = value.trim()
+
+  if (node.startsWith('[')) {
+    node = node.slice(1, node.indexOf(']'))
+  } else if (/^[\d.]+:\d+$/.test(node)) {
+    node = node.slice(0, node.indexOf(':'))
+  }
+
+  return canonicalizeIP(node)
+}
+
+/**
+ * The "for" parameter of each element of an RFC 7239 Forwarded header, in order
+ * (null where an element has none), e.g. `for=192.0.2.60;proto=http, for="[2001:db8::1]:4711"`
+ */
+export function parseForwardedHeader(value: string): (string | null)[] {
+  const elements: (string | null)[] = []
+  let forValue: string | null = null
+  let token = ''
+  let quoted = false
+
+  const endPair = () => {
+    const separator = token.indexOf('=')
+    if (separator > 0 && token.slice(0, separator).trim().toLowerCase() === 'for') {
+      forValue = token.slice(separator + 1).trim()
+    }
+    token = ''
+  }
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]
+
+    if (quoted) {
+      if (char === '\\' && i + 1 < value.length) {
+        token += value[++i]
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        token += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ';') {
+      endPair()
+    } else if (char === ',') {
+      endPair()
+      elements.push(forValue)
+      forValue = null
+    } else {
+      token += char
+    }
+  }
+
+  endPair()
+  elements.push(forValue)
+
+  return elements
+}
+
+/**
+ * Resolve the client IP from request headers. Returns "unknown" when no
+ * trustworthy address is available.
+ */
+export function resolveClientIP(headers: Headers, config: ClientIPConfig = DEFAULT_CONFIG): string {
+  const value = headers.get(config.header)
+
+  if (!value || config.trustedHops === 0) {
+    return 'unknown'
+  }
+
+  if (config.header !== 'x-forwarded-for' && config.header !== 'forwarded') {
+    return parseNode(value) || 'unknown'
+  }
+
+  const chain = config.header === 'forwarded'
+    ? parseForwardedHeader(value).map(node => (node ? parseNode(node) : null))
+    : value.split(',').map(parseNode)
+
+  // Each trusted proxy appended the address it received the request from, so
+  // the client is the entry added by the outermost one
+  let index = Math.max(0, chain.length - config.trustedHops)
+
+  // Step over proxies further out that are trusted by address
+  while (index > 0 && chain[index] && config.trustedProxies.match(chain[index]!)) {
+    index--
+  }
+
+  return chain[index] || 'unknown'
+}
+
+/**
+ * Client IP of a request, using the environment configuration
+ */
+export function getClientIP(request: { headers: Headers }): string {
+  return resolveClientIP(request.headers)
+}
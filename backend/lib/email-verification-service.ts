@@ -0,0 +1,159 @@
+import { randomBytes, createHash } from 'crypto'
+import { prisma } from './prisma'
+import { sendEmail, getVerificationEmailHtml } from '../services/email.service'
+
+// Verification token configuration
+const VERIFICATION_TOKEN_EXPIRY = 24 * 60 * 60 * 1000 // 24 hours (matches the email copy)
+const RESEND_COOLDOWN = 60 * 1000 // 1 minute between verification emails
+const MAX_EMAILS_PER_DAY = 5 // Per account, rolling 24 hours
+
+export type SendVerificationResult =
+  | { sent: true; expiresAt: Date }
+  | { sent: false; reason: 'ALREADY_VERIFIED' | 'THROTTLED' | 'SEND_FAILED' | 'USER_NOT_FOUND'; retryAfter?: number }
+
+export class EmailVerificationService {
+  /**
+   * Generate a random verification token
+   */
+  private static generateVerificationToken(): string {
+    return randomBytes(32).toString('base64url')
+  }
+
+  /**
+   * Hash a verification token for database storage
+   */
+  private static hashVerificationToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex')
+  }
+
+  /**
+   * Seconds until the user may request another verification email, or 0
+   */
+  static async getResendDelay(userId: string): Promise<number> {
+    const now = Date.now()
+    const recent = await prisma.emailVerificationToken.findMany({
+      where: {
+        userId,
+        createdAt: { gte: new Date(now - 24 * 60 * 60 * 1000) },
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    })
+
+    if (recent.length === 0) return 0
+
+    const sinceLast = now - recent[0].createdAt.getTime()
+    if (sinceLast < RESEND_COOLDOWN) {
+      return Math.ceil((RESEND_COOLDOWN - sinceLast) / 1000)
+    }
+
+    if (recent.length >= MAX_EMAILS_PER_DAY) {
+      const oldest = recent[recent.length - 1].createdAt.getTime()
+      return Math.ceil((oldest + 24 * 60 * 60 * 1000 - now) / 1000)
+    }
+
+    return 0
+  }
+
+  /**
+   * Issue a verification token for the user's current email and send it
+   */
+  static async sendVerificationEmail(
+    userId: string,
+    options: { skipThrottle?: boolean } = {}
+  ): Promise<SendVerificationResult> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, emailVerifiedAt: true },
+    })
+
+    if (!user) {
+      return { sent: false, reason: 'USER_NOT_FOUND' }
+    }
+
+    if (user.emailVerifiedAt) {
+      return { sent: false, reason: 'ALREADY_VERIFIED' }
+    }
+
+    if (!options.skipThrottle) {
+      const retryAfter = await this.getResendDelay(user.id)
+      if (retryAfter > 0) {
+        return { sent: false, reason: 'THROTTLED', retryAfter }
+      }
+    }
+
+    const token = this.generateVerificationToken()
+    const expiresAt = new Date(Date.now() + VERIFICATION_TOKEN_EXPIRY)
+
+    await prisma.emailVerificationToken.create({
+      data: {
+        tokenHash: this.hashVerificationToken(token),
+        userId: user.id,
+        email: user.email,
+        expiresAt,
+      },
+    })
+
+    const emailResult = await sendEmail({
+      to: user.email,
+      subject: 'Verify your email address',
+      html: getVerificationEmailHtml(token),
+    })
+
+    if (!emailResult.success) {
+      console.error(`Failed to send verification email to ${user.email}:`, emailResult.error)
+      return { sent: false, reason: 'SEND_FAILED' }
+    }
+
+    return { sent: true, expiresAt }
+  }
+
+  /**
+   * Consume a verification token and mark the email as verified
+   */
+  static async verifyEmail(
+    token: string
+  ): Promise<{ success: true; userId: string; email: string } | { success: false; error: string }> {
+    const tokenHash = this.hashVerificationToken(token)
+    const now = new Date()
+
+    const verificationToken = await prisma.emailVerificationToken.findUnique({
+      where: { tokenHash },
+      include: { user: { select: { id: true, email: true, emailVerifiedAt: true } } },
+    })
+
+    if (!verificationToken || verificationToken.usedAt || verificationToken.expiresAt <= now) {
+      return { success: false, error: 'INVALID_OR_EXPIRED_TOKEN' }
+    }
+
+    // The user changed their email after this link was sent
+    if (verificationToken.user.email !== verificationToken.email) {
+      return { success: false, error: 'EMAIL_CHANGED' }
+    }
+
+    const consumed = await prisma.emailVerificationToken.updateMany({
+      where: { id: verificationToken.id, usedAt: null },
+      data: { usedAt: now },
+    })
+
+    if (consumed.count !== 1) {
+      return { success: false, error: 'INVALID_OR_EXPIRED_TOKEN' }
+    }
+
+    if (!verificationToken.user.emailVerifiedAt) {
+      await prisma.user.update({
+        where: { id: verificationToken.userId },
+        data: { emailVerifiedAt: now },
+      })
+    }
+
+    return {
+      success: true,
+      userId: verificationToken.userId,
+      email: verificationToken.email,
+    }
+  }
+}
+
+// Export singleton instance
+export const emailVerificationService = EmailVerificationService
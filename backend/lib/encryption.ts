@@ -0,0 +1,40 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+
+/**
+ * Derive an AES-256 key from the first of the given environment variables
+ * that is set. Outside production a development fallback is used; it is
+ * public, so production refuses to start without one of the variables.
+ */
+export function deriveEncryptionKey(envNames: string[], developmentFallback: string): Buffer {
+  const secret = envNames.map(name => process.env[name]).find(Boolean)
+
+  if (!secret && process.env.NODE_ENV === 'production') {
+    throw new Error(`One of ${envNames.join(', ')} is required in production`)
+  }
+
+  return createHash('sha256').update(secret || developmentFallback).digest()
+}
+
+/**
+ * Encrypt a string with AES-256-GCM. The result holds the IV, auth tag and
+ * ciphertext as dot-separated base64url.
+ */
+export function encrypt(plaintext: string, key: Buffer): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', key, iv)
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+  const authTag = cipher.getAuthTag()
+
+  return [iv, authTag, encrypted].map(part => part.toString('base64url')).join('.')
+}
+
+/**
+ * Decrypt a value produced by encrypt(); throws if it was tampered with
+ */
+export function decrypt(stored: string, key: Buffer): string {
+  const [iv, authTag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64url'))
+  const decipher = createDecipheriv('aes-256-gcm', key, iv)
+  decipher.setAuthTag(authTag)
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8')
+}
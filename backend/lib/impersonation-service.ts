@@ -0,0 +1,77 @@
+import { prisma } from './prisma'
+import { jwtService } from './jwt-service'
+import { sessionService } from './session-service'
+
+// Impersonation configuration
+const DEFAULT_DURATION_MINUTES = 15
+const MAX_DURATION_MINUTES = 60
+
+export interface ImpersonationResult {
+  accessToken: string
+  sessionId: string
+  expiresAt: Date
+}
+
+/**
+ * Short-lived sessions that let an admin act as a user. Tokens carry an `act`
+ * claim naming the admin and come without a refresh token, so they cannot
+ * outlive the session they were issued for.
+ */
+export class ImpersonationService {
+  /**
+   * Start impersonating a user, returning an access token for the new session
+   */
+  static async start(options: {
+    admin: { id: string }
+    user: { id: string; email: string; username: string; role: string }
+    durationMinutes?: number
+    ipAddress?: string
+    userAgent?: string
+  }): Promise<ImpersonationResult> {
+    const minutes = Math.min(options.durationMinutes || DEFAULT_DURATION_MINUTES, MAX_DURATION_MINUTES)
+    const expires = new Date(Date.now() + minutes * 60 * 1000)
+
+    const { session } = await sessionService.createSession({
+      userId: options.user.id,
+      ipAddress: options.ipAddress,
+      userAgent: options.userAgent,
+      expires,
+      impersonatorId: options.admin.id,
+    })
+
+    const { token, expiresAt } = await jwtService.generateAccessToken(
+      {
+        sub: options.user.id,
+        email: options.user.email,
+        username: options.user.username,
+        role: options.user.role,
+        sessionId: session.id,
+        amr: [],
+        act: { sub: options.admin.id },
+        ipAddress: options.ipAddress,
+      },
+      { expiresIn: `${minutes}m` }
+    )
+
+    return { accessToken: token, sessionId: session.id, expiresAt }
+  }
+
+  /**
+   * End an impersonation session. Its tokens stop working immediately.
+   */
+  static async end(sessionId: string): Promise<boolean> {
+    const result = await prisma.session.updateMany({
+      where: {
+        id: sessionId,
+        impersonatorId: { not: null },
+        isActive: true,
+      },
+      data: { isActive: false },
+    })
+
+    return result.count > 0
+  }
+}
+
+// Export singleton instance
+export const impersonationService = ImpersonationService
@@ -0,0 +1,254 @@
+// IPv4/IPv6 parsing, canonicalization and CIDR matching for allow/deny lists.
+// Addresses are compared as bytes, so "2001:DB8::1", "2001:db8:0:0::1" and
+// "::ffff:192.0.2.1" / "192.0.2.1" each match as the same address.
+
+export type IPVersion = 4 | 6
+
+export interface ParsedIP {
+  version: IPVersion
+  bytes: number[] // 4 or 16 bytes
+}
+
+export interface IPRange {
+  version: IPVersion
+  bytes: number[] // Network address, host bits cleared
+  prefix: number
+}
+
+/**
+ * Parse dotted-quad IPv4 into 4 bytes (no leading zeros, which some parsers read as octal)
+ */
+function parseIPv4Bytes(input: string): number[] | null {
+  const parts = input.split('.')
+
+  if (parts.length !== 4 || !parts.every(part => /^(0|[1-9]\d{0,2})$/.test(part))) {
+    return null
+  }
+
+  const bytes = parts.map(Number)
+  return bytes.every(byte => byte <= 255) ? bytes : null
+}
+
+/**
+ * Parse IPv6, including "::" compression and an embedded IPv4 tail, into 16 bytes
+ */
+function parseIPv6Bytes(input: string): number[] | null {
+  let address = input
+  const lastColon = address.lastIndexOf(':')
+  const tail = address.slice(lastColon + 1)
+
+  if (tail.includes('.')) {
+    const ipv4 = parseIPv4Bytes(tail)
+    if (!ipv4) {
+      return null
+    }
+    address = `${address.slice(0, lastColon + 1)}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`
+  }
+
+  const halves = address.split('::')
+  if (halves.length > 2) {
+    return null
+  }
+
+  const toGroups = (part: string) => (part === '' ? [] : part.split(':'))
+  const head = toGroups(halves[0])
+  const rest = halves.length === 2 ? toGroups(halves[1]) : []
+
+  if (![...head, ...rest].every(group => /^[0-9a-f]{1,4}$/i.test(group))) {
+    return null
+  }
+
+  const missing = 8 - head.length - rest.length
+  if (halves.length === 1 ? missing !== 0 : missing < 1) {
+    return null
+  }
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...rest]
+  return groups.flatMap(group => {
+    const value = parseInt(group, 16)
+    return [value >> 8, value & 0xff]
+  })
+}
+
+/**
+ * Whether 16 bytes are an IPv4-mapped IPv6 address (::ffff:a.b.c.d)
+ */
+function isIPv4Mapped(bytes: number[]): boolean {
+  return bytes.length === 16 &&
+    bytes.slice(0, 10).every(byte => byte === 0) &&
+    bytes[10] === 0xff && bytes[11] === 0xff
+}
+
+/**
+ * Parse an IPv4 or IPv6 address. Accepts brackets and zone IDs ("[fe80::1%eth0]");
+ * IPv4-mapped IPv6 addresses are returned as IPv4.
+ */
+export function parseIP(input: string): ParsedIP | null {
+  let address = input.trim()
+
+  if (address.startsWith('[') && address.endsWith(']')) {
+    address = address.slice(1, -1)
+  }
+  address = address.replace(/%[\w.-]+$/, '')
+
+  if (!address.includes(':')) {
+    const bytes = parseIPv4Bytes(address)
+    return bytes ? { version: 4, bytes } : null
+  }
+
+  const bytes = parseIPv6Bytes(address)
+  if (!bytes) {
+    return null
+  }
+
+  return isIPv4Mapped(bytes)
+    ? { version: 4, bytes: bytes.slice(12) }
+    : { version: 6, bytes }
+}
+
+/**
+ * Format an address in canonical form (RFC 5952 for IPv6)
+ */
+export function formatIP(ip: ParsedIP): string {
+  if (ip.version === 4) {
+    return ip.bytes.join('.')
+  }
+
+  const groups: number[] = []
+  for (let i = 0; i < 16; i += 2) {
+    groups.push((ip.bytes[i] << 8) | ip.bytes[i + 1])
+  }
+
+  // Compress the longest run of two or more zero groups (the first one on a tie)
+  let bestStart = -1
+  let bestLength = 0
+  for (let i = 0; i < 8; i++) {
+    let length = 0
+    while (i + length < 8 && groups[i + length] === 0) length++
+    if (length > bestLength && length >= 2) {
+      bestStart = i
+      bestLength = length
+    }
+  }
+
+  const hex = groups.map(group => group.toString(16))
+  if (bestStart === -1) {
+    return hex.join(':')
+  }
+
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`
+}
+
+/**
+ * Canonical form of an address, or null if it isn't one
+ */
+export function canonicalizeIP(input: string): string | null {
+  const ip = parseIP(input)
+  return ip ? formatIP(ip) : null
+}
+
+/**
+ * Parse a CIDR block ("10.0.0.0/8", "2001:db8::/32") or a single address.
+ * Host bits are cleared, and IPv4-mapped IPv6 ranges become IPv4 ranges.
+ */
+export function parseCIDR(input: string): IPRange | null {
+  const [address, prefixText, ...extra] = input.trim().split('/')
+
+  if (extra.length > 0 || (prefixText !== undefined && !/^\d{1,3}$/.test(prefixText))) {
+    return null
+  }
+
+  const ip = parseIP(address)
+  if (!ip) {
+    return null
+  }
+
+  const bits = ip.bytes.length * 8
+  let prefix = prefixText === undefined ? bits : Number(prefixText)
+
+  // "::ffff:10.0.0.0/104" is written against 128 bits but parsed as IPv4
+  if (ip.version === 4 && address.includes(':') && prefixText !== undefined) {
+    prefix -= 96
+  }
+
+  if (prefix < 0 || prefix > bits) {
+    return null
+  }
+
+  return {
+    version: ip.version,
+    bytes: ip.bytes.map((byte, index) => byte & prefixMask(prefix, index)),
+    prefix,
+  }
+}
+
+/**
+ * Canonical form of a CIDR block; single addresses are written without a prefix
+ */
+export function formatCIDR(range: IPRange): string {
+  const address = formatIP({ version: range.version, bytes: range.bytes })
+  return range.prefix === range.bytes.length * 8 ? address : `${address}/${range.prefix}`
+}
+
+/**
+ * Canonical form of a CIDR block or address, or null if it isn't one
+ */
+export function canonicalizeCIDR(input: string): string | null {
+  const range = parseCIDR(input)
+  return range ? formatCIDR(range) : null
+}
+
+/**
+ * Mask for one byte of a prefix
+ */
+function prefixMask(prefix: number, byteIndex: number): number {
+  const bits = Math.min(8, Math.max(0, prefix - byteIndex * 8))
+  return (0xff << (8 - bits)) & 0xff
+}
+
+/**
+ * Whether an address falls inside a range
+ */
+export function isIPInRange(ip: ParsedIP, range: IPRange): boolean {
+  return ip.version === range.version &&
+    ip.bytes.every((byte, index) => (byte & prefixMask(range.prefix, index)) === range.bytes[index])
+}
+
+/**
+ * Ranges with a value each, matched by longest prefix
+ * (the first range added wins between equally specific ranges)
+ */
+export class IPRangeList<T> {
+  private ranges: { range: IPRange; value: T }[] = []
+
+  /**
+   * Add a CIDR block or address; returns false if it can't be parsed
+   */
+  add(cidr: string, value: T): boolean {
+    const range = parseCIDR(cidr)
+    if (!range) {
+      return false
+    }
+
+    this.ranges.push({ range, value })
+    // Stable sort keeps insertion order between equal prefixes
+    this.ranges.sort((a, b) => b.range.prefix - a.range.prefix)
+    return true
+  }
+
+  /**
+   * Value of the most specific range containing the address
+   */
+  match(address: string | ParsedIP): T | undefined {
+    const ip = typeof address === 'string' ? parseIP(address) : address
+    if (!ip) {
+      return undefined
+    }
+
+    return this.ranges.find(({ range }) => isIPInRange(ip, range))?.value
+  }
+
+  get size(): number {
+    return this.ranges.length
+  }
+}
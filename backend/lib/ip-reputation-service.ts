@@ -0,0 +1,411 @@
+import { prisma } from './prisma'
+import { IPRangeList, canonicalizeCIDR, canonicalizeIP, parseCIDR, parseIP } from './ip-address'
+
+// IP reputation configuration
+const HOUR = 60 * 60 * 1000
+const RECOVERY_PER_HOUR = parseFloat(process.env.IP_REPUTATION_RECOVERY_PER_HOUR || '5') // Score regained per hour without violations
+const AUTO_DENY_SCORE = 10
+const AUTO_DENY_MIN_VIOLATIONS = 10
+const AUTO_DENY_DURATION = parseInt(process.env.IP_AUTO_DENY_HOURS || '24') * HOUR
+const LIST_CACHE_TTL = 60 * 1000 // Pick up list changes made on other instances
+
+export type IpList = 'allow' | 'deny'
+export type IpListChangeAction = 'added' | 'updated' | 'removed' | 'expired'
+
+export interface IPReputation {
+  ipAddress: string
+  score: number // 0-100, lower is worse
+  violationCount: number
+  lastViolationAt: Date | null
+  list: IpList | null
+  listEntry: IpListEntryInfo | null
+}
+
+export interface IpListEntryInfo {
+  ipAddress: string // Canonical address or CIDR block
+  list: IpList
+  reason: string | null
+  source: string // "manual", "auto" or "env" (WHITELISTED_IPS / BLACKLISTED_IPS)
+  expiresAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export interface IpListChangeInfo {
+  id: string
+  ipAddress: string
+  action: IpListChangeAction
+  list: IpList
+  reason: string | null
+  expiresAt: Date | null
+  actorId: string | null
+  createdAt: Date
+}
+
+/**
+ * Prefix length of an entry's block (entries are stored canonical, so they parse)
+ */
+function prefixLength(entry: IpListEntryInfo): number {
+  return parseCIDR(entry.ipAddress)?.prefix ?? 0
+}
+
+/**
+ * Persisted IP reputation with allow/deny lists.
+ * Scores recover with time, so only violations are written.
+ * List entries are addresses or CIDR blocks; the most specific one wins,
+ * and deny wins over allow for the same block.
+ */
+export class IPReputationService {
+  private static envEntries: IpListEntryInfo[] = []
+  private static envRanges: IPRangeList<IpListEntryInfo> = new IPRangeList()
+  private static listCache: { ranges: IPRangeList<IpListEntryInfo>; loadedAt: number } | null = null
+
+  static {
+    // Lists from the environment can't be changed through the admin API
+    const fromEnv = (value: string | undefined, list: IpList) => {
+      value?.split(',').map(ip => ip.trim()).filter(Boolean).forEach(value => {
+        const ipAddress = canonicalizeCIDR(value)
+
+        if (!ipAddress) {
+          console.warn(`Ignoring invalid IP address or CIDR block in environment: ${value}`)
+          return
+        }
+
+        const entry: IpListEntryInfo = {
+          ipAddress,
+          list,
+          reason: 'Configured in environment',
+          source: 'env',
+          expiresAt: null,
+          createdAt: null,
+          updatedAt: null,
+        }
+
+        this.envEntries.push(entry)
+        this.envRanges.add(ipAddress, entry)
+      })
+    }
+
+    // Deny first, so it wins over an allow entry for the same block
+    fromEnv(process.env.BLACKLISTED_IPS, 'deny')
+    fromEnv(process.env.WHITELISTED_IPS, 'allow')
+  }
+
+  /**
+   * Score after recovery for the time since the last violation
+   */
+  private static recoveredScore(score: number, lastViolationAt: Date | null, now: number = Date.now()): number {
+    if (!lastViolationAt) {
+      return score
+    }
+
+    const hours = (now - lastViolationAt.getTime()) / HOUR
+    return Math.min(100, score + hours * RECOVERY_PER_HOUR)
+  }
+
+  /**
+   * Convert a database row into entry info
+   */
+  private static toEntryInfo(entry: {
+    ipAddress: string
+    list: string
+    reason: string | null
+    source: string
+    expiresAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }): IpListEntryInfo {
+    return {
+      ipAddress: entry.ipAddress,
+      list: entry.list as IpList,
+      reason: entry.reason,
+      source: entry.source,
+      expiresAt: entry.expiresAt,
+      createdAt: entry.createdAt,
+      updatedAt: entry.updatedAt,
+    }
+  }
+
+  /**
+   * Load unexpired list entries, refreshing the cache when it's stale
+   */
+  private static async loadListEntries(): Promise<IPRangeList<IpListEntryInfo>> {
+    if (this.listCache && Date.now() - this.listCache.loadedAt < LIST_CACHE_TTL) {
+      return this.listCache.ranges
+    }
+
+    const rows = await prisma.ipListEntry.findMany({
+      where: {
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+      // Deny first, so it wins over an allow entry for the same block
+      orderBy: { list: 'desc' },
+    })
+
+    const ranges = new IPRangeList<IpListEntryInfo>()
+    rows.forEach(row => ranges.add(row.ipAddress, this.toEntryInfo(row)))
+    this.listCache = { ranges, loadedAt: Date.now() }
+
+    return ranges
+  }
+
+  /**
+   * Canonical form of an IP for lookups, keeping unparseable values as they are
+   */
+  private static normalizeIP(ipAddress: string): string {
+    return canonicalizeIP(ipAddress) || ipAddress
+  }
+
+  /**
+   * Get the allow/deny entry that applies to an IP, if any. The most specific
+   * block wins; the environment wins over stored entries for the same block.
+   */
+  static async getListEntry(ipAddress: string): Promise<IpListEntryInfo | null> {
+    const ip = parseIP(ipAddress)
+    if (!ip) {
+      return null
+    }
+
+    const envEntry = this.envRanges.match(ip) || null
+    const stored = (await this.loadListEntries()).match(ip)
+
+    if (!stored || (stored.expiresAt && stored.expiresAt <= new Date())) {
+      return envEntry
+    }
+
+    return envEntry && prefixLength(envEntry) >= prefixLength(stored) ? envEntry : stored
+  }
+
+  /**
+   * Get the entry for exactly this IP or CIDR block, if any
+   */
+  static async getEntry(address: string): Promise<IpListEntryInfo | null> {
+    const ipAddress = canonicalizeCIDR(address)
+    if (!ipAddress) {
+      return null
+    }
+
+    const envEntry = this.envEntries.find(entry => entry.ipAddress === ipAddress)
+    if (envEntry) {
+      return envEntry
+    }
+
+    const entry = await prisma.ipListEntry.findUnique({ where: { ipAddress } })
+    return entry ? this.toEntryInfo(entry) : null
+  }
+
+  /**
+   * Get the current reputation of an IP
+   */
+  static async getReputation(ip: string): Promise<IPReputation> {
+    const ipAddress = this.normalizeIP(ip)
+    const [reputation, listEntry] = await Promise.all([
+      prisma.ipReputation.findUnique({ where: { ipAddress } }),
+      this.getListEntry(ipAddress),
+    ])
+
+    return {
+      ipAddress,
+      score: reputation ? this.recoveredScore(reputation.score, reputation.lastViolationAt) : 100,
+      violationCount: reputation?.violationCount || 0,
+      lastViolationAt: reputation?.lastViolationAt || null,
+      list: listEntry?.list || null,
+      listEntry,
+    }
+  }
+
+  /**
+   * Lower an IP's score for a violation, denying it for a while once it is very low
+   */
+  static async recordViolation(ip: string): Promise<IPReputation> {
+    const ipAddress = this.normalizeIP(ip)
+    const now = new Date()
+    const existing = await prisma.ipReputation.findUnique({ where: { ipAddress } })
+
+    const recovered = existing ? this.recoveredScore(existing.score, existing.lastViolationAt, now.getTime()) : 100
+    // A fully recovered IP starts counting violations again
+    const violationCount = (existing && recovered < 100 ? existing.violationCount : 0) + 1
+    const score = Math.max(0, recovered - (10 + violationCount * 2))
+
+    await prisma.ipReputation.upsert({
+      where: { ipAddress },
+      create: { ipAddress, score, violationCount, lastViolationAt: now },
+      update: { score, violationCount, lastViolationAt: now },
+    })
+
+    // Auto-deny IPs with very low reputation, unless an entry already covers them
+    if (score <= AUTO_DENY_SCORE && violationCount >= AUTO_DENY_MIN_VIOLATIONS) {
+      const entry = await this.getListEntry(ipAddress)
+
+      if (!entry) {
+        await this.setEntry(ipAddress, 'deny', {
+          reason: `Automatic: reputation score ${Math.round(score)} after ${violationCount} violations`,
+          expiresAt: new Date(now.getTime() + AUTO_DENY_DURATION),
+          source: 'auto',
+        })
+
+        console.warn(`IP ${ipAddress} automatically denied after ${violationCount} rate limit violations`)
+      }
+    }
+
+    return this.getReputation(ipAddress)
+  }
+
+  /**
+   * List allow/deny entries, including those from the environment
+   */
+  static async listEntries(options: { list?: IpList; includeExpired?: boolean } = {}): Promise<IpListEntryInfo[]> {
+    const rows = await prisma.ipListEntry.findMany({
+      where: {
+        ...(options.list ? { list: options.list } : {}),
+        ...(options.includeExpired
+          ? {}
+          : { OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] }),
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    const envEntries = this.envEntries
+      .filter(entry => !options.list || entry.list === options.list)
+
+    return [...envEntries, ...rows.map(row => this.toEntryInfo(row))]
+  }
+
+  /**
+   * Add an IP or CIDR block to a list or update its entry, recording the change.
+   * Returns null if the address can't be parsed.
+   */
+  static async setEntry(
+    address: string,
+    list: IpList,
+    options: { reason?: string | null; expiresAt?: Date | null; source?: string; actorId?: string } = {}
+  ): Promise<IpListEntryInfo | null> {
+    const ipAddress = canonicalizeCIDR(address)
+    if (!ipAddress) {
+      return null
+    }
+
+    const existing = await prisma.ipListEntry.findUnique({ where: { ipAddress } })
+    const data = {
+      list,
+      reason: options.reason ?? null,
+      source: options.source || 'manual',
+      expiresAt: options.expiresAt ?? null,
+    }
+
+    const [entry] = await prisma.$transaction([
+      prisma.ipListEntry.upsert({
+        where: { ipAddress },
+        create: { ipAddress, ...data },
+        update: data,
+      }),
+      prisma.ipListChange.create({
+        data: {
+          ipAddress,
+          action: existing ? 'updated' : 'added',
+          list,
+          reason: data.reason,
+          expiresAt: data.expiresAt,
+          actorId: options.actorId,
+        },
+      }),
+    ])
+
+    this.listCache = null
+
+    return this.toEntryInfo(entry)
+  }
+
+  /**
+   * Remove the entry for an IP or CIDR block, recording the change. Returns false if there was none.
+   */
+  static async removeEntry(
+    address: string,
+    options: { reason?: string | null; actorId?: string } = {}
+  ): Promise<boolean> {
+    const ipAddress = canonicalizeCIDR(address)
+    const existing = ipAddress ? await prisma.ipListEntry.findUnique({ where: { ipAddress } }) : null
+
+    if (!ipAddress || !existing) {
+      return false
+    }
+
+    await prisma.$transaction([
+      prisma.ipListEntry.delete({ where: { ipAddress } }),
+      prisma.ipListChange.create({
+        data: {
+          ipAddress,
+          action: 'removed',
+          list: existing.list,
+          reason: options.reason ?? null,
+          actorId: options.actorId,
+        },
+      }),
+    ])
+
+    this.listCache = null
+
+    return true
+  }
+
+  /**
+   * Change history for an IP or CIDR block, newest first
+   */
+  static async getHistory(address: string, limit: number = 50): Promise<IpListChangeInfo[]> {
+    const changes = await prisma.ipListChange.findMany({
+      where: { ipAddress: canonicalizeCIDR(address) || address },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    })
+
+    return changes.map(change => ({
+      id: change.id,
+      ipAddress: change.ipAddress,
+      action: change.action as IpListChangeAction,
+      list: change.list as IpList,
+      reason: change.reason,
+      expiresAt: change.expiresAt,
+      actorId: change.actorId,
+      createdAt: change.createdAt,
+    }))
+  }
+
+  /**
+   * Delete expired entries (recording each as expired) and fully recovered reputations
+   */
+  static async purgeExpired(): Promise<void> {
+    const now = new Date()
+    const expired = await prisma.ipListEntry.findMany({
+      where: { expiresAt: { lte: now } },
+    })
+
+    if (expired.length > 0) {
+      await prisma.$transaction([
+        prisma.ipListEntry.deleteMany({
+          where: { id: { in: expired.map(entry => entry.id) } },
+        }),
+        prisma.ipListChange.createMany({
+          data: expired.map(entry => ({
+            ipAddress: entry.ipAddress,
+            action: 'expired',
+            list: entry.list,
+            reason: entry.reason,
+            expiresAt: entry.expiresAt,
+          })),
+        }),
+      ])
+
+      this.listCache = null
+    }
+
+    // A reputation that has recovered to 100 is the same as no record
+    await prisma.ipReputation.deleteMany({
+      where: {
+        lastViolationAt: { lt: new Date(now.getTime() - 100 / RECOVERY_PER_HOUR * HOUR) },
+      },
+    })
+  }
+}
+
+// Export singleton instance
+export const ipReputationService = IPReputationService
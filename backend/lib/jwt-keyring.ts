@@ -0,0 +1,307 @@
+import {
+  generateKeyPair,
+  exportJWK,
+  importJWK,
+  type CryptoKey,
+  type JWK,
+  type JWTHeaderParameters,
+} from 'jose'
+import { randomBytes } from 'crypto'
+import { prisma } from './prisma'
+import { deriveEncryptionKey, encrypt, decrypt } from './encryption'
+
+// Keyring configuration
+export const SUPPORTED_SIGNING_ALGORITHMS = ['ES256', 'EdDSA', 'RS256'] as const
+export type SigningAlgorithm = typeof SUPPORTED_SIGNING_ALGORITHMS[number]
+
+const SIGNING_ALGORITHM: SigningAlgorithm = SUPPORTED_SIGNING_ALGORITHMS.includes(
+  process.env.JWT_SIGNING_ALG as SigningAlgorithm
+)
+  ? process.env.JWT_SIGNING_ALG as SigningAlgorithm
+  : 'ES256'
+
+const DAY = 24 * 60 * 60 * 1000
+const KEY_ROTATION_INTERVAL = parseInt(process.env.JWT_KEY_ROTATION_DAYS || '30') * DAY
+// Retired keys must outlive the longest token they signed (30-day remember-me sessions)
+const KEY_RETENTION_PERIOD = parseInt(process.env.JWT_KEY_RETENTION_DAYS || '31') * DAY
+const KEYRING_CACHE_TTL = 5 * 60 * 1000 // Pick up keys rotated by other instances
+const KEYRING_RELOAD_COOLDOWN = 30 * 1000 // Unknown kids can't force a reload more often than this
+
+// HS256 secret used before asymmetric signing; keeps older tokens valid until they expire
+const LEGACY_SECRET = process.env.JWT_LEGACY_SECRET
+  ? new TextEncoder().encode(process.env.JWT_LEGACY_SECRET)
+  : null
+
+// Private keys are encrypted at rest with AES-256-GCM
+const KEY_ENCRYPTION_KEY = deriveEncryptionKey(
+  ['JWT_KEY_ENCRYPTION_KEY', 'JWT_SECRET', 'NEXTAUTH_SECRET'],
+  'fallback-jwt-key-encryption-key-change-in-production'
+)
+
+export interface SigningKey {
+  kid: string
+  algorithm: SigningAlgorithm
+  privateKey: CryptoKey | Uint8Array
+}
+
+export interface SigningKeyInfo {
+  kid: string
+  algorithm: string
+  status: string
+  createdAt: Date
+  retiredAt: Date | null
+  expiresAt: Date | null
+}
+
+interface LoadedKey {
+  info: SigningKeyInfo
+  publicJwk: JWK
+  publicKey: CryptoKey | Uint8Array
+  privateJwk: string // Encrypted, only imported for the key that signs
+}
+
+interface KeyringCache {
+  keys: LoadedKey[]
+  loadedAt: number
+}
+
+export class JWTKeyring {
+  private static cache: KeyringCache | null = null
+  private static loading: Promise<KeyringCache> | null = null
+  private static signingKey: SigningKey | null = null
+
+  /**
+   * Encrypt a private JWK for database storage
+   */
+  private static encryptPrivateKey(jwk: JWK): string {
+    return encrypt(JSON.stringify(jwk), KEY_ENCRYPTION_KEY)
+  }
+
+  /**
+   * Decrypt a stored private JWK
+   */
+  private static decryptPrivateKey(stored: string): JWK {
+    return JSON.parse(decrypt(stored, KEY_ENCRYPTION_KEY))
+  }
+
+  /**
+   * Generate a new key pair and store it as the active signing key
+   */
+  private static async createKey(): Promise<{ kid: string; createdAt: Date }> {
+    const { publicKey, privateKey } = await generateKeyPair(SIGNING_ALGORITHM, { extractable: true })
+    const kid = randomBytes(12).toString('base64url')
+
+    return prisma.signingKey.create({
+      data: {
+        kid,
+        algorithm: SIGNING_ALGORITHM,
+        publicKey: JSON.stringify(await exportJWK(publicKey)),
+        privateKey: this.encryptPrivateKey(await exportJWK(privateKey)),
+        status: 'active',
+      },
+      select: { kid: true, createdAt: true },
+    })
+  }
+
+  /**
+   * Load the usable keys from the database, creating or rotating the
+   * active key when there is none or it is due
+   */
+  private static async loadKeys(): Promise<KeyringCache> {
+    const now = new Date()
+    const rows = await prisma.signingKey.findMany({
+      where: {
+        OR: [
+          { status: 'active' },
+          { status: 'retired', expiresAt: { gt: now } },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    const active = rows.find(row => row.status === 'active')
+
+    if (!active) {
+      await this.createKey()
+      return this.loadKeys()
+    }
+
+    if (now.getTime() - active.createdAt.getTime() > KEY_ROTATION_INTERVAL) {
+      await this.rotateKeys()
+      return this.loadKeys()
+    }
+
+    const keys = await Promise.all(rows.map(async row => {
+      const publicJwk = JSON.parse(row.publicKey) as JWK
+
+      return {
+        info: {
+          kid: row.kid,
+          algorithm: row.algorithm,
+          status: row.status,
+          createdAt: row.createdAt,
+          retiredAt: row.retiredAt,
+          expiresAt: row.expiresAt,
+        },
+        publicJwk,
+        publicKey: await importJWK(publicJwk, row.algorithm),
+        privateJwk: row.privateKey,
+      }
+    }))
+
+    return { keys, loadedAt: Date.now() }
+  }
+
+  /**
+   * Get the cached keyring, reloading it when stale
+   */
+  private static async getKeys(forceReload = false): Promise<KeyringCache> {
+    if (this.cache && !forceReload && Date.now() - this.cache.loadedAt < KEYRING_CACHE_TTL) {
+      return this.cache
+    }
+
+    // Share one database load between concurrent callers
+    if (!this.loading) {
+      this.loading = this.loadKeys()
+        .then(cache => {
+          this.cache = cache
+          return cache
+        })
+        .finally(() => {
+          this.loading = null
+        })
+    }
+
+    return this.loading
+  }
+
+  /**
+   * Get the key that signs new tokens.
+   * If several instances created a key at the same time, the newest one wins.
+   */
+  static async getSigningKey(): Promise<SigningKey> {
+    const { keys } = await this.getKeys()
+    const active = keys.find(key => key.info.status === 'active')!
+
+    if (this.signingKey?.kid !== active.info.kid) {
+      this.signingKey = {
+        kid: active.info.kid,
+        algorithm: active.info.algorithm as SigningAlgorithm,
+        privateKey: await importJWK(this.decryptPrivateKey(active.privateJwk), active.info.algorithm),
+      }
+    }
+
+    return this.signingKey
+  }
+
+  /**
+   * Resolve the key that verifies a token from its protected header.
+   * Used as the key function of jwtVerify.
+   */
+  static async getVerificationKey(header: JWTHeaderParameters): Promise<CryptoKey | Uint8Array> {
+    // Tokens issued before the keyring have no kid
+    if (!header.kid) {
+      if (header.alg === 'HS256' && LEGACY_SECRET) {
+        return LEGACY_SECRET
+      }
+      throw new Error('TOKEN_KEY_ID_MISSING')
+    }
+
+    let cache = await JWTKeyring.getKeys()
+    let key = cache.keys.find(candidate => candidate.info.kid === header.kid)
+
+    // The token may be signed by a key another instance has just created
+    if (!key && Date.now() - cache.loadedAt > KEYRING_RELOAD_COOLDOWN) {
+      cache = await JWTKeyring.getKeys(true)
+      key = cache.keys.find(candidate => candidate.info.kid === header.kid)
+    }
+
+    if (!key || key.info.algorithm !== header.alg) {
+      throw new Error('TOKEN_KEY_UNKNOWN')
+    }
+
+    return key.publicKey
+  }
+
+  /**
+   * Algorithms accepted when verifying tokens
+   */
+  static getAcceptedAlgorithms(): string[] {
+    return LEGACY_SECRET
+      ? [...SUPPORTED_SIGNING_ALGORITHMS, 'HS256']
+      : [...SUPPORTED_SIGNING_ALGORITHMS]
+  }
+
+  /**
+   * Public keys of the active and retired keys, as a JSON Web Key Set
+   */
+  static async getPublicJWKS(): Promise<{ keys: JWK[] }> {
+    const { keys } = await this.getKeys()
+
+    return {
+      keys: keys.map(key => ({
+        ...key.publicJwk,
+        kid: key.info.kid,
+        alg: key.info.algorithm,
+        use: 'sig',
+      })),
+    }
+  }
+
+  /**
+   * List the keys in the keyring (without key material)
+   */
+  static async listKeys(): Promise<SigningKeyInfo[]> {
+    const { keys } = await this.getKeys(true)
+    return keys.map(key => key.info)
+  }
+
+  /**
+   * Create a new active key and retire the previous ones. Retired keys keep
+   * verifying until the tokens they signed have expired, unless revokePrevious
+   * is set (e.g. after a key compromise), which invalidates those tokens at once.
+   */
+  static async rotateKeys(options: { revokePrevious?: boolean } = {}): Promise<string> {
+    const newKey = await this.createKey()
+    const now = new Date()
+
+    await prisma.signingKey.updateMany({
+      where: {
+        status: 'active',
+        createdAt: { lt: newKey.createdAt },
+      },
+      data: {
+        status: 'retired',
+        retiredAt: now,
+        expiresAt: options.revokePrevious ? now : new Date(now.getTime() + KEY_RETENTION_PERIOD),
+      },
+    })
+
+    if (options.revokePrevious) {
+      await prisma.signingKey.updateMany({
+        where: { status: 'retired', expiresAt: { gt: now } },
+        data: { expiresAt: now },
+      })
+    }
+
+    this.cache = null
+    console.log(`JWT signing key rotated, new key ${newKey.kid} (${SIGNING_ALGORITHM})`)
+
+    return newKey.kid
+  }
+
+  /**
+   * Delete retired keys that no longer verify anything
+   */
+  static async purgeExpiredKeys(): Promise<void> {
+    await prisma.signingKey.deleteMany({
+      where: {
+        status: 'retired',
+        expiresAt: { lt: new Date() },
+      },
+    })
+  }
+}
+
+// Export singleton instance
+export const jwtKeyring = JWTKeyring
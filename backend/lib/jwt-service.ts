@@ -1,12 +1,12 @@
 import { SignJWT, jwtVerify, type JWTPayload } from 'jose'
 import { randomBytes, createHash } from 'crypto'
 import { prisma } from './prisma'
+import { jwtKeyring } from './jwt-keyring'
+import { organizationService, type OrganizationClaim } from './organization-service'
+import { auditService } from './audit-service'
 import type { RefreshToken } from '@prisma/client'
 
-// JWT Configuration
-const JWT_SECRET = new TextEncoder().encode(
-  process.env.JWT_SECRET || process.env.NEXTAUTH_SECRET || 'fallback-jwt-secret-change-in-production'
-)
+// JWT Configuration (signing keys live in the keyring, see jwt-keyring.ts)
 const JWT_ISSUER = process.env.JWT_ISSUER || 'next-nuxt-app'
 const JWT_AUDIENCE = process.env.JWT_AUDIENCE || 'next-nuxt-users'
 
@@ -21,8 +21,11 @@ export interface JWTClaims extends JWTPayload {
   username: string
   role: string
   sessionId?: string
-  tokenType: 'access' | 'refresh'
-  authMethod?: 'credentials' | 'passkey' | 'oauth'
+  tokenType: 'access' | 'refresh' | 'mfa_challenge' | 'magic_link'
+  authMethod?: 'credentials' | 'passkey' | 'oauth' | 'magic_link'
+  amr?: string[] // Authentication methods references (RFC 8176), e.g. ['pwd', 'otp', 'mfa']
+  act?: { sub: string } // Actor (RFC 8693): the admin impersonating the subject
+  org?: OrganizationClaim // Active organization and the subject's role in it
   deviceInfo?: string
   ipAddress?: string
 }
@@ -34,6 +37,18 @@ export interface TokenPair {
   refreshTokenExpiry: Date
 }
 
+export type RefreshResult =
+  | {
+      success: true
+      tokens: TokenPair
+      user: { id: string; email: string; username: string; role: string }
+      sessionId: string | null
+    }
+  | {
+      success: false
+      error: 'INVALID_TOKEN' | 'TOKEN_REVOKED' | 'TOKEN_REUSED' | 'ACCOUNT_LOCKED'
+    }
+
 export class JWTService {
   /**
    * Generate a unique JWT ID (jti)
@@ -57,6 +72,7 @@ export class JWTService {
     options: {
       expiresIn?: string
       rememberMe?: boolean
+      tokenType?: 'access' | 'mfa_challenge' | 'magic_link'
     } = {}
   ): Promise<{ token: string; jti: string; expiresAt: Date }> {
     const jti = this.generateJTI()
@@ -64,18 +80,19 @@ export class JWTService {
     
     const now = new Date()
     const expiresAt = new Date(now.getTime() + this.parseExpiry(expiresIn))
+    const signingKey = await jwtKeyring.getSigningKey()
 
     const token = await new SignJWT({
       ...payload,
-      tokenType: 'access' as const,
+      tokenType: options.tokenType || 'access',
     })
-      .setProtectedHeader({ alg: 'HS256' })
+      .setProtectedHeader({ alg: signingKey.algorithm, kid: signingKey.kid, typ: 'JWT' })
       .setIssuedAt(now)
       .setExpirationTime(expiresAt)
       .setIssuer(JWT_ISSUER)
       .setAudience(JWT_AUDIENCE)
       .setJti(jti)
-      .sign(JWT_SECRET)
+      .sign(signingKey.privateKey)
 
     return { token, jti, expiresAt }
   }
@@ -89,6 +106,10 @@ export class JWTService {
       expiresIn?: string
       deviceInfo?: string
       ipAddress?: string
+      authMethod?: JWTClaims['authMethod']
+      amr?: string[]
+      familyId?: string // Continue an existing family when rotating
+      sessionId?: string
     } = {}
   ): Promise<{ token: string; expiresAt: Date; dbToken: RefreshToken }> {
     const jti = this.generateJTI()
@@ -96,26 +117,31 @@ export class JWTService {
     
     const now = new Date()
     const expiresAt = new Date(now.getTime() + this.parseExpiry(expiresIn))
+    const signingKey = await jwtKeyring.getSigningKey()
 
     const token = await new SignJWT({
       sub: userId,
       tokenType: 'refresh' as const,
       deviceInfo: options.deviceInfo,
       ipAddress: options.ipAddress,
+      authMethod: options.authMethod,
+      amr: options.amr,
     })
-      .setProtectedHeader({ alg: 'HS256' })
+      .setProtectedHeader({ alg: signingKey.algorithm, kid: signingKey.kid, typ: 'JWT' })
       .setIssuedAt(now)
       .setExpirationTime(expiresAt)
       .setIssuer(JWT_ISSUER)
       .setAudience(JWT_AUDIENCE)
       .setJti(jti)
-      .sign(JWT_SECRET)
+      .sign(signingKey.privateKey)
 
     // Store refresh token in database
     const dbToken = await prisma.refreshToken.create({
       data: {
         token: this.hashToken(token),
         userId,
+        familyId: options.familyId || this.generateJTI(),
+        sessionId: options.sessionId,
         expiresAt,
       },
     })
@@ -132,6 +158,7 @@ export class JWTService {
       rememberMe?: boolean
       deviceInfo?: string
       ipAddress?: string
+      familyId?: string
     } = {}
   ): Promise<TokenPair> {
     const accessTokenResult = await this.generateAccessToken(payload, {
@@ -141,6 +168,10 @@ export class JWTService {
     const refreshTokenResult = await this.generateRefreshToken(payload.sub as string, {
       deviceInfo: options.deviceInfo,
       ipAddress: options.ipAddress,
+      authMethod: payload.authMethod as JWTClaims['authMethod'],
+      amr: payload.amr as string[] | undefined,
+      familyId: options.familyId,
+      sessionId: payload.sessionId as string | undefined,
     })
 
     return {
@@ -166,9 +197,10 @@ export class JWTService {
         return { valid: false, error: 'TOKEN_BLACKLISTED' }
       }
 
-      const { payload } = await jwtVerify(token, JWT_SECRET, {
+      const { payload } = await jwtVerify(token, jwtKeyring.getVerificationKey, {
         issuer: JWT_ISSUER,
         audience: JWT_AUDIENCE,
+        algorithms: jwtKeyring.getAcceptedAlgorithms(),
       })
 
       return { valid: true, payload: payload as JWTClaims }
@@ -182,57 +214,146 @@ export class JWTService {
   }
 
   /**
-   * Refresh access token using refresh token
+   * Exchange a refresh token for a new token pair. Every use rotates the
+   * refresh token within its family; presenting a token that was already
+   * rotated revokes the whole family and ends its session (RFC 9700 4.14).
    */
-  static async refreshAccessToken(refreshToken: string): Promise<TokenPair | null> {
+  static async refreshAccessToken(
+    refreshToken: string,
+    context: { ipAddress?: string; userAgent?: string } = {}
+  ): Promise<RefreshResult> {
     try {
       const verificationResult = await this.verifyToken(refreshToken)
-      
+
       if (!verificationResult.valid || !verificationResult.payload || verificationResult.payload.tokenType !== 'refresh') {
-        return null
+        return { success: false, error: 'INVALID_TOKEN' }
       }
 
       const payload = verificationResult.payload
 
-      // Check if refresh token exists in database and is not revoked
-      const tokenHash = this.hashToken(refreshToken)
-      const dbToken = await prisma.refreshToken.findFirst({
-        where: {
-          token: tokenHash,
-          userId: payload.sub,
-          isRevoked: false,
-          expiresAt: { gt: new Date() },
+      const dbToken = await prisma.refreshToken.findUnique({
+        where: { token: this.hashToken(refreshToken) },
+        include: {
+          user: true,
+          session: { select: { isActive: true, activeOrganizationId: true } },
         },
-        include: { user: true },
       })
 
-      if (!dbToken) {
-        return null
+      if (!dbToken || dbToken.userId !== payload.sub || dbToken.expiresAt < new Date()) {
+        return { success: false, error: 'INVALID_TOKEN' }
       }
 
-      // Generate new token pair
-      const newTokenPair = await this.generateTokenPair({
-        sub: dbToken.user.id,
-        email: dbToken.user.email,
-        username: dbToken.user.username,
-        role: dbToken.user.role,
-        deviceInfo: payload.deviceInfo,
-        ipAddress: payload.ipAddress,
-      })
+      if (dbToken.rotatedAt) {
+        await this.handleRefreshTokenReuse(dbToken, context)
+        return { success: false, error: 'TOKEN_REUSED' }
+      }
+
+      if (dbToken.isRevoked || (dbToken.session && !dbToken.session.isActive)) {
+        return { success: false, error: 'TOKEN_REVOKED' }
+      }
 
-      // Revoke old refresh token
-      await prisma.refreshToken.update({
-        where: { id: dbToken.id },
-        data: { isRevoked: true },
+      const user = dbToken.user
+      if (user.isLocked && (!user.lockedUntil || user.lockedUntil > new Date())) {
+        return { success: false, error: 'ACCOUNT_LOCKED' }
+      }
+
+      // Claim the token atomically; losing the race means it was used twice
+      const claimed = await prisma.refreshToken.updateMany({
+        where: { id: dbToken.id, isRevoked: false, rotatedAt: null },
+        data: { isRevoked: true, rotatedAt: new Date() },
       })
 
-      return newTokenPair
+      if (claimed.count !== 1) {
+        await this.handleRefreshTokenReuse(dbToken, context)
+        return { success: false, error: 'TOKEN_REUSED' }
+      }
+
+      // Membership is checked again, so a removed member loses the claim
+      const activeOrganizationId = dbToken.session?.activeOrganizationId
+      const org = activeOrganizationId
+        ? await organizationService.getOrganizationClaim(activeOrganizationId, user.id)
+        : null
+
+      // Generate new token pair in the same family
+      const tokens = await this.generateTokenPair(
+        {
+          sub: user.id,
+          email: user.email,
+          username: user.username,
+          role: user.role,
+          sessionId: dbToken.sessionId || undefined,
+          org: org || undefined,
+          authMethod: payload.authMethod,
+          amr: payload.amr,
+          deviceInfo: payload.deviceInfo,
+          ipAddress: context.ipAddress || payload.ipAddress,
+        },
+        {
+          deviceInfo: payload.deviceInfo,
+          ipAddress: context.ipAddress || payload.ipAddress,
+          familyId: dbToken.familyId,
+        }
+      )
+
+      return {
+        success: true,
+        tokens,
+        user: {
+          id: user.id,
+          email: user.email,
+          username: user.username,
+          role: user.role,
+        },
+        sessionId: dbToken.sessionId,
+      }
     } catch (error) {
       console.error('Token refresh failed:', error)
-      return null
+      return { success: false, error: 'INVALID_TOKEN' }
     }
   }
 
+  /**
+   * A rotated refresh token was presented again, so it has leaked: revoke
+   * its family, end the login session and record the event
+   */
+  private static async handleRefreshTokenReuse(
+    dbToken: Pick<RefreshToken, 'userId' | 'familyId' | 'sessionId'>,
+    context: { ipAddress?: string; userAgent?: string }
+  ): Promise<void> {
+    await this.revokeTokenFamily(dbToken.familyId)
+
+    if (dbToken.sessionId) {
+      await prisma.session.updateMany({
+        where: { id: dbToken.sessionId },
+        data: { isActive: false },
+      })
+    }
+
+    // Not a login attempt: counting it toward the lockout would let a leaked token lock the user out
+    await auditService.record({
+      type: 'refresh_token.reused',
+      targetId: dbToken.userId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      metadata: { familyId: dbToken.familyId, sessionId: dbToken.sessionId },
+    })
+
+    console.warn(
+      `Refresh token reuse detected for user ${dbToken.userId}, family ${dbToken.familyId} revoked ` +
+      `from IP: ${context.ipAddress || 'unknown'}`
+    )
+  }
+
+  /**
+   * Revoke every refresh token descended from the same login
+   */
+  static async revokeTokenFamily(familyId: string): Promise<void> {
+    await prisma.refreshToken.updateMany({
+      where: { familyId, isRevoked: false },
+      data: { isRevoked: true },
+    })
+  }
+
   /**
    * Blacklist a token (for logout or security purposes)
    */
@@ -288,6 +409,29 @@ export class JWTService {
     await prisma.refreshToken.deleteMany({
       where: { expiresAt: { lt: now } },
     })
+
+    // Remove expired or already used password reset tokens
+    await prisma.passwordResetToken.deleteMany({
+      where: {
+        OR: [
+          { expiresAt: { lt: now } },
+          { usedAt: { not: null } },
+        ],
+      },
+    })
+
+    // Remove expired email verification tokens
+    await prisma.emailVerificationToken.deleteMany({
+      where: { expiresAt: { lt: now } },
+    })
+
+    // Remove expired WebAuthn challenges
+    await prisma.webAuthnChallenge.deleteMany({
+      where: { expiresAt: { lt: now } },
+    })
+
+    // Remove retired signing keys whose tokens have all expired
+    await jwtKeyring.purgeExpiredKeys()
   }
 
   /**
@@ -0,0 +1,108 @@
+import { randomBytes, createHash } from 'crypto'
+import { prisma } from './prisma'
+import { jwtService, type JWTClaims } from './jwt-service'
+
+// Magic link configuration
+const MAGIC_LINK_EXPIRY = '15m' // Matches the email copy
+export const MAGIC_LINK_DEVICE_COOKIE = 'magic-link-device'
+export const MAGIC_LINK_DEVICE_COOKIE_MAX_AGE = 15 * 60 // Seconds; links outlive their cookie otherwise
+
+export interface MagicLinkClaims extends JWTClaims {
+  deviceHash: string // SHA-256 of the device cookie of the requesting browser
+  rememberMe?: boolean
+}
+
+export type MagicLinkVerifyResult =
+  | { success: true; claims: MagicLinkClaims }
+  | { success: false; error: 'INVALID_OR_EXPIRED_TOKEN' | 'DEVICE_MISMATCH' }
+
+/**
+ * Passwordless login by email. Links carry a signed, short-lived token that
+ * only works in the browser that requested it and only once.
+ */
+export class MagicLinkService {
+  private static hashValue(value: string): string {
+    return createHash('sha256').update(value).digest('hex')
+  }
+
+  /**
+   * Random value for the device-binding cookie
+   */
+  static generateDeviceNonce(): string {
+    return randomBytes(32).toString('base64url')
+  }
+
+  /**
+   * Whether a cookie value looks like a device nonce we issued
+   */
+  static isDeviceNonce(value: string | undefined): value is string {
+    return !!value && /^[A-Za-z0-9_-]{43}$/.test(value)
+  }
+
+  /**
+   * Sign a login token for the user, bound to the requesting browser's device nonce
+   */
+  static async createToken(
+    user: { id: string; email: string; username: string; role: string },
+    options: { deviceNonce: string; rememberMe?: boolean }
+  ): Promise<{ token: string; expiresAt: Date }> {
+    const { token, expiresAt } = await jwtService.generateAccessToken(
+      {
+        sub: user.id,
+        email: user.email,
+        username: user.username,
+        role: user.role,
+        authMethod: 'magic_link',
+        deviceHash: this.hashValue(options.deviceNonce),
+        rememberMe: options.rememberMe,
+      },
+      { expiresIn: MAGIC_LINK_EXPIRY, tokenType: 'magic_link' }
+    )
+
+    return { token, expiresAt }
+  }
+
+  /**
+   * Check a token's signature, expiry and device binding. Does not consume it.
+   */
+  static async verifyToken(token: string, deviceNonce: string | undefined): Promise<MagicLinkVerifyResult> {
+    const result = await jwtService.verifyToken(token)
+
+    if (!result.valid || !result.payload || result.payload.tokenType !== 'magic_link') {
+      return { success: false, error: 'INVALID_OR_EXPIRED_TOKEN' }
+    }
+
+    const claims = result.payload as MagicLinkClaims
+
+    if (!deviceNonce || this.hashValue(deviceNonce) !== claims.deviceHash) {
+      return { success: false, error: 'DEVICE_MISMATCH' }
+    }
+
+    return { success: true, claims }
+  }
+
+  /**
+   * Mark a verified token as used. The blacklist entry is unique per token,
+   * so when the same link is exchanged concurrently only one call returns true.
+   */
+  static async consumeToken(token: string, claims: MagicLinkClaims): Promise<boolean> {
+    try {
+      await prisma.tokenBlacklist.create({
+        data: {
+          jti: claims.jti || '',
+          userId: claims.sub,
+          tokenHash: this.hashValue(token),
+          reason: 'Magic link used',
+          expiresAt: new Date((claims.exp || 0) * 1000),
+        },
+      })
+      return true
+    } catch (error) {
+      console.warn('Magic link token already used:', error instanceof Error ? error.message : error)
+      return false
+    }
+  }
+}
+
+// Export singleton instance
+export const magicLinkService = MagicLinkService
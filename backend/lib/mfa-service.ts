@@ -0,0 +1,214 @@
+import { prisma } from './prisma'
+import { deriveEncryptionKey, encrypt, decrypt } from './encryption'
+import { jwtService, type JWTClaims } from './jwt-service'
+import { generateTOTPSecret, verifyTOTP, buildOtpAuthURI } from './totp'
+
+// MFA configuration
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Next.js Auth App'
+const MFA_CHALLENGE_EXPIRY = '5m' // Time allowed to enter the second factor
+
+// TOTP secrets are encrypted at rest with AES-256-GCM
+const MFA_ENCRYPTION_KEY = deriveEncryptionKey(
+  ['MFA_ENCRYPTION_KEY', 'JWT_SECRET', 'NEXTAUTH_SECRET'],
+  'fallback-mfa-key-change-in-production'
+)
+
+export interface TOTPEnrollment {
+  secret: string
+  otpauthUri: string
+  qrData: string
+}
+
+export interface MFAChallenge {
+  challengeToken: string
+  expiresAt: Date
+  methods: string[]
+}
+
+export class MFAService {
+  /**
+   * Encrypt a TOTP secret for database storage
+   */
+  private static encryptSecret(secret: string): string {
+    return encrypt(secret, MFA_ENCRYPTION_KEY)
+  }
+
+  /**
+   * Decrypt a stored TOTP secret
+   */
+  private static decryptSecret(stored: string): string {
+    return decrypt(stored, MFA_ENCRYPTION_KEY)
+  }
+
+  /**
+   * Check whether a user has confirmed TOTP enrollment
+   */
+  static async isTOTPEnabled(userId: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpEnabledAt: true },
+    })
+
+    return !!user?.totpEnabledAt
+  }
+
+  /**
+   * Start TOTP enrollment: generate and store a pending secret.
+   * Returns null if TOTP is already enabled.
+   */
+  static async beginTOTPEnrollment(userId: string, accountName: string): Promise<TOTPEnrollment | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpEnabledAt: true },
+    })
+
+    if (!user || user.totpEnabledAt) {
+      return null
+    }
+
+    const secret = generateTOTPSecret()
+    const otpauthUri = buildOtpAuthURI(secret, accountName, TOTP_ISSUER)
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        totpSecret: this.encryptSecret(secret),
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+      },
+    })
+
+    return {
+      secret,
+      otpauthUri,
+      qrData: otpauthUri, // Clients render this string as a QR code
+    }
+  }
+
+  /**
+   * Confirm TOTP enrollment with a code from the authenticator app
+   */
+  static async confirmTOTPEnrollment(userId: string, code: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpSecret: true, totpEnabledAt: true },
+    })
+
+    if (!user?.totpSecret || user.totpEnabledAt) {
+      return false
+    }
+
+    const matchedStep = verifyTOTP(this.decryptSecret(user.totpSecret), code)
+    if (matchedStep === null) {
+      return false
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        totpEnabledAt: new Date(),
+        totpLastUsedStep: matchedStep,
+      },
+    })
+
+    return true
+  }
+
+  /**
+   * Verify a TOTP code for an enrolled user.
+   * Each time step can only be used once to prevent replay.
+   */
+  static async verifyTOTPCode(userId: string, code: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { totpSecret: true, totpEnabledAt: true, totpLastUsedStep: true },
+    })
+
+    if (!user?.totpSecret || !user.totpEnabledAt) {
+      return false
+    }
+
+    const matchedStep = verifyTOTP(this.decryptSecret(user.totpSecret), code)
+    if (matchedStep === null) {
+      return false
+    }
+
+    // Atomically advance the last used step; fails if this step (or a later one) was already used
+    const updated = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [
+          { totpLastUsedStep: null },
+          { totpLastUsedStep: { lt: matchedStep } },
+        ],
+      },
+      data: { totpLastUsedStep: matchedStep },
+    })
+
+    return updated.count === 1
+  }
+
+  /**
+   * Remove TOTP from an account
+   */
+  static async disableTOTP(userId: string): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+      },
+    })
+  }
+
+  /**
+   * Issue a short-lived challenge token after the first factor succeeded
+   */
+  static async createChallenge(
+    user: { id: string; email: string; username: string; role: string },
+    options: { amr: string[]; rememberMe?: boolean; authMethod?: JWTClaims['authMethod'] }
+  ): Promise<MFAChallenge> {
+    const { token, expiresAt } = await jwtService.generateAccessToken(
+      {
+        sub: user.id,
+        email: user.email,
+        username: user.username,
+        role: user.role,
+        amr: options.amr,
+        authMethod: options.authMethod,
+        rememberMe: options.rememberMe,
+      },
+      { expiresIn: MFA_CHALLENGE_EXPIRY, tokenType: 'mfa_challenge' }
+    )
+
+    return {
+      challengeToken: token,
+      expiresAt,
+      methods: ['totp', 'recovery_code'],
+    }
+  }
+
+  /**
+   * Validate a challenge token and return its claims
+   */
+  static async verifyChallenge(challengeToken: string): Promise<(JWTClaims & { rememberMe?: boolean }) | null> {
+    const result = await jwtService.verifyToken(challengeToken)
+
+    if (!result.valid || !result.payload || result.payload.tokenType !== 'mfa_challenge') {
+      return null
+    }
+
+    return result.payload as JWTClaims & { rememberMe?: boolean }
+  }
+
+  /**
+   * Mark a challenge token as used so it cannot be exchanged twice
+   */
+  static async consumeChallenge(challengeToken: string, userId: string): Promise<void> {
+    await jwtService.blacklistToken(challengeToken, 'MFA challenge completed', userId)
+  }
+}
+
+// Export singleton instance
+export const mfaService = MFAService
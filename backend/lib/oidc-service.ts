@@ -0,0 +1,489 @@
+import { SignJWT, jwtVerify, createRemoteJWKSet, type JWTPayload } from 'jose'
+import { randomBytes, createHash } from 'crypto'
+import { prisma } from './prisma'
+
+// OIDC configuration
+const OIDC_STATE_KEY = process.env.OIDC_STATE_SECRET || process.env.JWT_SECRET || process.env.NEXTAUTH_SECRET
+
+// The development fallback is public and would let anyone forge state cookies
+if (!OIDC_STATE_KEY && process.env.NODE_ENV === 'production') {
+  throw new Error('OIDC_STATE_SECRET or JWT_SECRET is required in production')
+}
+
+const OIDC_STATE_SECRET = new TextEncoder().encode(OIDC_STATE_KEY || 'fallback-oidc-secret-change-in-production')
+const OIDC_STATE_EXPIRY = '10m' // Time allowed to complete the provider login
+const DISCOVERY_CACHE_TTL = 60 * 60 * 1000 // Re-fetch provider metadata hourly
+const DEFAULT_SCOPE = 'openid email profile'
+
+export const OIDC_STATE_COOKIE = 'oidc-state'
+
+export interface OIDCProviderConfig {
+  id: string
+  name: string
+  clientId: string
+  clientSecret?: string
+  issuer?: string // Discovery is used when set
+  authorizationEndpoint?: string
+  tokenEndpoint?: string
+  userinfoEndpoint?: string
+  jwksUri?: string
+  scope: string
+  subjectClaim: string // Claim holding the stable user id ('sub' for OIDC)
+}
+
+export interface OIDCProfile {
+  subject: string
+  email?: string
+  emailVerified: boolean
+  name?: string
+  preferredUsername?: string
+}
+
+export interface OIDCAuthorizationRequest {
+  url: string
+  stateCookie: string
+}
+
+interface OIDCState extends JWTPayload {
+  provider: string
+  state: string
+  nonce: string
+  codeVerifier: string
+  returnTo?: string
+  rememberMe?: boolean
+}
+
+interface OIDCMetadata {
+  issuer?: string
+  authorization_endpoint: string
+  token_endpoint: string
+  userinfo_endpoint?: string
+  jwks_uri?: string
+}
+
+export type OIDCCallbackResult =
+  | { success: true; profile: OIDCProfile; returnTo?: string; rememberMe: boolean }
+  | { success: false; error: 'INVALID_STATE' | 'TOKEN_EXCHANGE_FAILED' | 'INVALID_ID_TOKEN' | 'PROFILE_FAILED' }
+
+export type OIDCUserResult =
+  | {
+      success: true
+      created: boolean
+      user: { id: string; email: string; username: string; role: string; isLocked: boolean; lockedUntil: Date | null; totpEnabledAt: Date | null }
+    }
+  | { success: false; error: 'EMAIL_REQUIRED' | 'ACCOUNT_EXISTS' }
+
+// Built-in defaults, so only client credentials are needed for well-known providers
+const PROVIDER_PRESETS: Record<string, Partial<OIDCProviderConfig>> = {
+  google: {
+    name: 'Google',
+    issuer: 'https://accounts.google.com',
+    clientId: process.env.AUTH_GOOGLE_ID,
+    clientSecret: process.env.AUTH_GOOGLE_SECRET,
+  },
+  github: {
+    // GitHub is plain OAuth 2.0: no discovery or ID token, the profile comes from its API
+    name: 'GitHub',
+    authorizationEndpoint: 'https://github.com/login/oauth/authorize',
+    tokenEndpoint: 'https://github.com/login/oauth/access_token',
+    userinfoEndpoint: 'https://api.github.com/user',
+    scope: 'read:user user:email',
+    subjectClaim: 'id',
+    clientId: process.env.AUTH_GITHUB_ID,
+    clientSecret: process.env.AUTH_GITHUB_SECRET,
+  },
+}
+
+const metadataCache = new Map<string, { metadata: OIDCMetadata; fetchedAt: number }>()
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>()
+
+export class OIDCService {
+  /**
+   * Read a provider's configuration from OIDC_<ID>_* environment variables
+   */
+  private static loadProvider(id: string): OIDCProviderConfig | null {
+    const prefix = `OIDC_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`
+    const env = (key: string) => process.env[prefix + key] || undefined
+    const preset = PROVIDER_PRESETS[id] || {}
+
+    const config: OIDCProviderConfig = {
+      id,
+      name: env('NAME') || preset.name || id,
+      clientId: env('CLIENT_ID') || preset.clientId || '',
+      clientSecret: env('CLIENT_SECRET') || preset.clientSecret,
+      issuer: env('ISSUER') || preset.issuer,
+      authorizationEndpoint: env('AUTHORIZATION_URL') || preset.authorizationEndpoint,
+      tokenEndpoint: env('TOKEN_URL') || preset.tokenEndpoint,
+      userinfoEndpoint: env('USERINFO_URL') || preset.userinfoEndpoint,
+      jwksUri: env('JWKS_URL') || preset.jwksUri,
+      scope: env('SCOPE') || preset.scope || DEFAULT_SCOPE,
+      subjectClaim: env('SUBJECT_CLAIM') || preset.subjectClaim || 'sub',
+    }
+
+    if (!config.clientId || (!config.issuer && (!config.authorizationEndpoint || !config.tokenEndpoint))) {
+      console.warn(`OIDC provider "${id}" is missing a client id or endpoints and has been disabled`)
+      return null
+    }
+
+    return config
+  }
+
+  /**
+   * List the configured providers (OIDC_PROVIDERS is a comma separated list of ids)
+   */
+  static getProviders(): OIDCProviderConfig[] {
+    return (process.env.OIDC_PROVIDERS || '')
+      .split(',')
+      .map(id => id.trim().toLowerCase())
+      .filter(Boolean)
+      .map(id => this.loadProvider(id))
+      .filter((provider): provider is OIDCProviderConfig => provider !== null)
+  }
+
+  /**
+   * Get a configured provider by id
+   */
+  static getProvider(id: string): OIDCProviderConfig | null {
+    return this.getProviders().find(provider => provider.id === id) || null
+  }
+
+  /**
+   * Resolve provider endpoints, using OIDC discovery when an issuer is configured.
+   * Explicitly configured endpoints take precedence over discovered ones.
+   */
+  private static async getMetadata(provider: OIDCProviderConfig): Promise<OIDCMetadata> {
+    let discovered: Partial<OIDCMetadata> = {}
+
+    if (provider.issuer) {
+      const cached = metadataCache.get(provider.issuer)
+
+      if (cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_TTL) {
+        discovered = cached.metadata
+      } else {
+        const discoveryUrl = `${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`
+        const response = await fetch(discoveryUrl, { headers: { Accept: 'application/json' } })
+
+        if (!response.ok) {
+          throw new Error(`OIDC discovery failed for ${provider.id}: HTTP ${response.status}`)
+        }
+
+        const metadata = await response.json() as OIDCMetadata
+        if (metadata.issuer !== provider.issuer) {
+          throw new Error(`OIDC discovery issuer mismatch for ${provider.id}`)
+        }
+
+        metadataCache.set(provider.issuer, { metadata, fetchedAt: Date.now() })
+        discovered = metadata
+      }
+    }
+
+    return {
+      issuer: discovered.issuer,
+      authorization_endpoint: provider.authorizationEndpoint || discovered.authorization_endpoint!,
+      token_endpoint: provider.tokenEndpoint || discovered.token_endpoint!,
+      userinfo_endpoint: provider.userinfoEndpoint || discovered.userinfo_endpoint,
+      jwks_uri: provider.jwksUri || discovered.jwks_uri,
+    }
+  }
+
+  /**
+   * Build the callback URL registered with the provider
+   */
+  static getRedirectUri(providerId: string, requestOrigin: string): string {
+    const baseUrl = process.env.NEXTAUTH_URL || requestOrigin
+    return `${baseUrl.replace(/\/$/, '')}/api/auth/oidc/${providerId}/callback`
+  }
+
+  /**
+   * Base URL of the app the browser is sent back to after the provider login
+   */
+  static getAppUrl(requestOrigin: string): string {
+    return (process.env.OIDC_APP_URL || process.env.NEXTAUTH_URL || requestOrigin).replace(/\/$/, '')
+  }
+
+  /**
+   * Only allow same-site relative redirects after login
+   */
+  static sanitizeReturnTo(returnTo: string | null | undefined): string | undefined {
+    if (!returnTo || !returnTo.startsWith('/') || returnTo.startsWith('//') || returnTo.includes('\\')) {
+      return undefined
+    }
+
+    return returnTo
+  }
+
+  /**
+   * Start an authorization code + PKCE flow.
+   * The returned state cookie must be set on the redirect response.
+   */
+  static async createAuthorizationRequest(
+    provider: OIDCProviderConfig,
+    redirectUri: string,
+    options: { returnTo?: string; rememberMe?: boolean } = {}
+  ): Promise<OIDCAuthorizationRequest> {
+    const metadata = await this.getMetadata(provider)
+
+    const state = randomBytes(16).toString('base64url')
+    const nonce = randomBytes(16).toString('base64url')
+    const codeVerifier = randomBytes(32).toString('base64url')
+    const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url')
+
+    const url = new URL(metadata.authorization_endpoint)
+    url.searchParams.set('response_type', 'code')
+    url.searchParams.set('client_id', provider.clientId)
+    url.searchParams.set('redirect_uri', redirectUri)
+    url.searchParams.set('scope', provider.scope)
+    url.searchParams.set('state', state)
+    url.searchParams.set('code_challenge', codeChallenge)
+    url.searchParams.set('code_challenge_method', 'S256')
+    if (provider.scope.split(' ').includes('openid')) {
+      url.searchParams.set('nonce', nonce)
+    }
+
+    const stateCookie = await new SignJWT({
+      provider: provider.id,
+      state,
+      nonce,
+      codeVerifier,
+      returnTo: options.returnTo,
+      rememberMe: options.rememberMe,
+    })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setIssuedAt()
+      .setExpirationTime(OIDC_STATE_EXPIRY)
+      .sign(OIDC_STATE_SECRET)
+
+    return { url: url.toString(), stateCookie }
+  }
+
+  /**
+   * Complete the flow: check state, exchange the code and read the user's profile
+   */
+  static async handleCallback(
+    provider: OIDCProviderConfig,
+    params: { code: string; state: string },
+    stateCookie: string | undefined,
+    redirectUri: string
+  ): Promise<OIDCCallbackResult> {
+    let storedState: OIDCState
+    try {
+      if (!stateCookie) {
+        return { success: false, error: 'INVALID_STATE' }
+      }
+      const { payload } = await jwtVerify(stateCookie, OIDC_STATE_SECRET)
+      storedState = payload as OIDCState
+    } catch {
+      return { success: false, error: 'INVALID_STATE' }
+    }
+
+    if (storedState.provider !== provider.id || storedState.state !== params.state) {
+      return { success: false, error: 'INVALID_STATE' }
+    }
+
+    const metadata = await this.getMetadata(provider)
+
+    const tokenResponse = await fetch(metadata.token_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: params.code,
+        redirect_uri: redirectUri,
+        code_verifier: storedState.codeVerifier,
+        client_id: provider.clientId,
+        ...(provider.clientSecret ? { client_secret: provider.clientSecret } : {}),
+      }),
+    })
+
+    const tokens = await tokenResponse.json().catch(() => ({})) as {
+      access_token?: string
+      id_token?: string
+      error?: string
+    }
+
+    if (!tokenResponse.ok || tokens.error || (!tokens.access_token && !tokens.id_token)) {
+      console.warn(`OIDC token exchange failed for ${provider.id}: ${tokens.error || tokenResponse.status}`)
+      return { success: false, error: 'TOKEN_EXCHANGE_FAILED' }
+    }
+
+    let claims: Record<string, unknown> = {}
+
+    if (tokens.id_token) {
+      if (!metadata.jwks_uri || !metadata.issuer) {
+        return { success: false, error: 'INVALID_ID_TOKEN' }
+      }
+
+      try {
+        let jwks = jwksCache.get(metadata.jwks_uri)
+        if (!jwks) {
+          jwks = createRemoteJWKSet(new URL(metadata.jwks_uri))
+          jwksCache.set(metadata.jwks_uri, jwks)
+        }
+
+        const { payload } = await jwtVerify(tokens.id_token, jwks, {
+          issuer: metadata.issuer,
+          audience: provider.clientId,
+        })
+
+        if (payload.nonce !== storedState.nonce) {
+          return { success: false, error: 'INVALID_ID_TOKEN' }
+        }
+
+        claims = payload
+      } catch (error) {
+        console.warn(`OIDC ID token rejected for ${provider.id}:`, error)
+        return { success: false, error: 'INVALID_ID_TOKEN' }
+      }
+    }
+
+    // Fall back to (or top up from) the userinfo endpoint
+    if ((!claims.email || !tokens.id_token) && metadata.userinfo_endpoint && tokens.access_token) {
+      const userinfoResponse = await fetch(metadata.userinfo_endpoint, {
+        headers: {
+          Authorization: `Bearer ${tokens.access_token}`,
+          Accept: 'application/json',
+        },
+      })
+
+      if (userinfoResponse.ok) {
+        const userinfo = await userinfoResponse.json() as Record<string, unknown>
+
+        // Userinfo must describe the same subject as the ID token
+        if (!tokens.id_token || String(userinfo[provider.subjectClaim]) === String(claims[provider.subjectClaim])) {
+          claims = { ...userinfo, ...claims }
+        }
+      }
+    }
+
+    const subject = claims[provider.subjectClaim]
+    if (subject === undefined || subject === null || subject === '') {
+      return { success: false, error: 'PROFILE_FAILED' }
+    }
+
+    return {
+      success: true,
+      profile: {
+        subject: String(subject),
+        email: typeof claims.email === 'string' ? claims.email.toLowerCase() : undefined,
+        emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+        name: typeof claims.name === 'string' ? claims.name : undefined,
+        preferredUsername: typeof claims.preferred_username === 'string'
+          ? claims.preferred_username
+          : typeof claims.login === 'string' ? claims.login : undefined,
+      },
+      returnTo: storedState.returnTo,
+      rememberMe: !!storedState.rememberMe,
+    }
+  }
+
+  /**
+   * Pick an unused username based on the provider profile
+   */
+  private static async generateUsername(profile: OIDCProfile): Promise<string> {
+    const source = profile.preferredUsername || profile.email?.split('@')[0] || profile.name || 'user'
+    const base = source.replace(/[^a-zA-Z0-9_]/g, '_').slice(0, 20).padEnd(3, '_')
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const candidate = attempt === 0 ? base : `${base}_${randomBytes(3).toString('hex')}`
+      const existing = await prisma.user.findUnique({ where: { username: candidate }, select: { id: true } })
+
+      if (!existing) {
+        return candidate
+      }
+    }
+
+    return `user_${randomBytes(6).toString('hex')}`
+  }
+
+  /**
+   * Find the user linked to a provider account, linking or creating one on first login.
+   * Existing local accounts are only linked when both sides have verified the email.
+   */
+  static async findOrCreateUser(providerId: string, profile: OIDCProfile): Promise<OIDCUserResult> {
+    const userSelect = {
+      id: true,
+      email: true,
+      username: true,
+      role: true,
+      isLocked: true,
+      lockedUntil: true,
+      totpEnabledAt: true,
+      emailVerifiedAt: true,
+    } as const
+
+    const account = await prisma.account.findUnique({
+      where: {
+        provider_providerAccountId: {
+          provider: providerId,
+          providerAccountId: profile.subject,
+        },
+      },
+      select: { id: true, user: { select: userSelect } },
+    })
+
+    if (account) {
+      await prisma.account.update({
+        where: { id: account.id },
+        data: { lastLoginAt: new Date() },
+      })
+
+      return { success: true, created: false, user: account.user }
+    }
+
+    if (!profile.email) {
+      return { success: false, error: 'EMAIL_REQUIRED' }
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email: profile.email },
+      select: userSelect,
+    })
+
+    if (existingUser) {
+      if (!profile.emailVerified || !existingUser.emailVerifiedAt) {
+        return { success: false, error: 'ACCOUNT_EXISTS' }
+      }
+
+      await prisma.account.create({
+        data: {
+          userId: existingUser.id,
+          provider: providerId,
+          providerAccountId: profile.subject,
+          email: profile.email,
+          lastLoginAt: new Date(),
+        },
+      })
+
+      console.log(`Linked ${providerId} account to existing user ${existingUser.email}`)
+
+      return { success: true, created: false, user: existingUser }
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email: profile.email,
+        username: await this.generateUsername(profile),
+        emailVerifiedAt: profile.emailVerified ? new Date() : null,
+        accounts: {
+          create: {
+            provider: providerId,
+            providerAccountId: profile.subject,
+            email: profile.email,
+            lastLoginAt: new Date(),
+          },
+        },
+      },
+      select: userSelect,
+    })
+
+    console.log(`Created user ${user.email} from ${providerId} login`)
+
+    return { success: true, created: true, user }
+  }
+}
+
+// Export singleton instance
+export const oidcService = OIDCService
@@ -0,0 +1,455 @@
+import { randomBytes, createHash } from 'crypto'
+import { prisma } from './prisma'
+import {
+  hasPermissions,
+  ORGANIZATION_ROLES,
+  ORGANIZATION_ROLE_PERMISSIONS,
+  type OrganizationPermissionName,
+  type OrganizationRole,
+} from './permissions'
+
+// Invitation configuration
+const INVITATION_EXPIRY = 7 * 24 * 60 * 60 * 1000 // 7 days (matches the email copy)
+
+// Active organization as carried in the org claim of access tokens
+export interface OrganizationClaim {
+  id: string
+  slug: string
+  role: OrganizationRole
+  permissions: OrganizationPermissionName[]
+}
+
+export interface OrganizationInfo {
+  id: string
+  name: string
+  slug: string
+  role: OrganizationRole
+  joinedAt: Date
+}
+
+export interface MemberInfo {
+  userId: string
+  email: string
+  username: string
+  role: OrganizationRole
+  joinedAt: Date
+}
+
+export interface InvitationInfo {
+  id: string
+  email: string
+  role: OrganizationRole
+  invitedById: string | null
+  expiresAt: Date
+  createdAt: Date
+}
+
+export type MembershipChangeResult =
+  | { success: true }
+  | { success: false; error: 'NOT_FOUND' | 'FORBIDDEN' | 'LAST_OWNER' }
+
+/**
+ * Organizations (tenants), their memberships and email invitations
+ */
+export class OrganizationService {
+  /**
+   * Generate a random invitation token
+   */
+  private static generateInvitationToken(): string {
+    return randomBytes(32).toString('base64url')
+  }
+
+  /**
+   * Hash an invitation token for database storage
+   */
+  private static hashInvitationToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex')
+  }
+
+  static isOrganizationRole(role: string): role is OrganizationRole {
+    return (ORGANIZATION_ROLES as readonly string[]).includes(role)
+  }
+
+  /**
+   * Permissions granted by an organization role; none for unknown roles
+   */
+  static getRolePermissions(role: string): OrganizationPermissionName[] {
+    return this.isOrganizationRole(role) ? [...ORGANIZATION_ROLE_PERMISSIONS[role]] : []
+  }
+
+  /**
+   * Whether a member may assign a role to, or remove, another member. Nobody
+   * manages themselves, and nobody hands out or takes away permissions they
+   * do not hold.
+   */
+  static canManageMember(
+    actor: { userId: string; role: string },
+    target: { userId: string; role: string },
+    newRole?: string
+  ): boolean {
+    const actorPermissions = this.getRolePermissions(actor.role)
+
+    return actor.userId !== target.userId &&
+      hasPermissions(actorPermissions, ['members:manage']) &&
+      hasPermissions(actorPermissions, this.getRolePermissions(target.role)) &&
+      (!newRole || hasPermissions(actorPermissions, this.getRolePermissions(newRole)))
+  }
+
+  /**
+   * Create an organization owned by the given user.
+   * Returns null when the slug is taken.
+   */
+  static async createOrganization(options: {
+    name: string
+    slug: string
+    ownerId: string
+  }): Promise<OrganizationInfo | null> {
+    const existing = await prisma.organization.findUnique({
+      where: { slug: options.slug },
+      select: { id: true },
+    })
+
+    if (existing) {
+      return null
+    }
+
+    const organization = await prisma.organization.create({
+      data: {
+        name: options.name,
+        slug: options.slug,
+        memberships: {
+          create: { userId: options.ownerId, role: 'owner' },
+        },
+      },
+    })
+
+    return {
+      id: organization.id,
+      name: organization.name,
+      slug: organization.slug,
+      role: 'owner',
+      joinedAt: organization.createdAt,
+    }
+  }
+
+  /**
+   * Organizations the user belongs to, oldest membership first
+   */
+  static async listUserOrganizations(userId: string): Promise<OrganizationInfo[]> {
+    const memberships = await prisma.membership.findMany({
+      where: { userId },
+      include: { organization: true },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return memberships.map(membership => ({
+      id: membership.organization.id,
+      name: membership.organization.name,
+      slug: membership.organization.slug,
+      role: membership.role as OrganizationRole,
+      joinedAt: membership.createdAt,
+    }))
+  }
+
+  /**
+   * The user's membership in an organization, or null when not a member
+   */
+  static async getMembership(organizationId: string, userId: string): Promise<OrganizationInfo | null> {
+    const membership = await prisma.membership.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+      include: { organization: true },
+    })
+
+    if (!membership) {
+      return null
+    }
+
+    return {
+      id: membership.organization.id,
+      name: membership.organization.name,
+      slug: membership.organization.slug,
+      role: membership.role as OrganizationRole,
+      joinedAt: membership.createdAt,
+    }
+  }
+
+  /**
+   * Org claim for a user's tokens, or null when the user is not a member
+   */
+  static async getOrganizationClaim(organizationId: string, userId: string): Promise<OrganizationClaim | null> {
+    const membership = await this.getMembership(organizationId, userId)
+
+    if (!membership) {
+      return null
+    }
+
+    return {
+      id: membership.id,
+      slug: membership.slug,
+      role: membership.role,
+      permissions: this.getRolePermissions(membership.role),
+    }
+  }
+
+  static async updateOrganization(organizationId: string, data: { name: string }): Promise<void> {
+    await prisma.organization.update({
+      where: { id: organizationId },
+      data: { name: data.name },
+    })
+  }
+
+  /**
+   * Delete an organization with its memberships and invitations. Sessions
+   * that had it active lose their org claim on the next refresh.
+   */
+  static async deleteOrganization(organizationId: string): Promise<void> {
+    await prisma.organization.delete({
+      where: { id: organizationId },
+    })
+  }
+
+  static async listMembers(organizationId: string): Promise<MemberInfo[]> {
+    const memberships = await prisma.membership.findMany({
+      where: { organizationId },
+      include: { user: { select: { email: true, username: true } } },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return memberships.map(membership => ({
+      userId: membership.userId,
+      email: membership.user.email,
+      username: membership.user.username,
+      role: membership.role as OrganizationRole,
+      joinedAt: membership.createdAt,
+    }))
+  }
+
+  /**
+   * Whether removing or demoting the member would leave the organization
+   * without an owner
+   */
+  private static async isLastOwner(organizationId: string, membership: { role: string }): Promise<boolean> {
+    if (membership.role !== 'owner') {
+      return false
+    }
+
+    const owners = await prisma.membership.count({
+      where: { organizationId, role: 'owner' },
+    })
+
+    return owners <= 1
+  }
+
+  static async updateMemberRole(options: {
+    organizationId: string
+    actor: { userId: string; role: string }
+    userId: string
+    role: OrganizationRole
+  }): Promise<MembershipChangeResult> {
+    const membership = await prisma.membership.findUnique({
+      where: { organizationId_userId: { organizationId: options.organizationId, userId: options.userId } },
+    })
+
+    if (!membership) {
+      return { success: false, error: 'NOT_FOUND' }
+    }
+
+    if (!this.canManageMember(options.actor, membership, options.role)) {
+      return { success: false, error: 'FORBIDDEN' }
+    }
+
+    if (options.role !== 'owner' && await this.isLastOwner(options.organizationId, membership)) {
+      return { success: false, error: 'LAST_OWNER' }
+    }
+
+    await prisma.membership.update({
+      where: { id: membership.id },
+      data: { role: options.role },
+    })
+
+    return { success: true }
+  }
+
+  /**
+   * Remove a member. Without an actor the member is leaving on their own.
+   */
+  static async removeMember(options: {
+    organizationId: string
+    actor?: { userId: string; role: string }
+    userId: string
+  }): Promise<MembershipChangeResult> {
+    const membership = await prisma.membership.findUnique({
+      where: { organizationId_userId: { organizationId: options.organizationId, userId: options.userId } },
+    })
+
+    if (!membership) {
+      return { success: false, error: 'NOT_FOUND' }
+    }
+
+    if (options.actor && !this.canManageMember(options.actor, membership)) {
+      return { success: false, error: 'FORBIDDEN' }
+    }
+
+    if (await this.isLastOwner(options.organizationId, membership)) {
+      return { success: false, error: 'LAST_OWNER' }
+    }
+
+    await prisma.membership.delete({
+      where: { id: membership.id },
+    })
+
+    // Sessions that had the organization active drop it from their tokens
+    await prisma.session.updateMany({
+      where: { userId: options.userId, activeOrganizationId: options.organizationId },
+      data: { activeOrganizationId: null },
+    })
+
+    return { success: true }
+  }
+
+  /**
+   * Invite an email address to an organization. A pending invitation for the
+   * same address is replaced. Returns null when the address already belongs
+   * to a member.
+   */
+  static async createInvitation(options: {
+    organizationId: string
+    email: string
+    role: OrganizationRole
+    invitedById: string
+  }): Promise<{ token: string; invitation: InvitationInfo } | null> {
+    const email = options.email.toLowerCase()
+
+    const existingMember = await prisma.membership.findFirst({
+      where: { organizationId: options.organizationId, user: { email } },
+      select: { id: true },
+    })
+
+    if (existingMember) {
+      return null
+    }
+
+    await prisma.organizationInvitation.deleteMany({
+      where: { organizationId: options.organizationId, email, acceptedAt: null },
+    })
+
+    const token = this.generateInvitationToken()
+    const invitation = await prisma.organizationInvitation.create({
+      data: {
+        organizationId: options.organizationId,
+        email,
+        role: options.role,
+        tokenHash: this.hashInvitationToken(token),
+        invitedById: options.invitedById,
+        expiresAt: new Date(Date.now() + INVITATION_EXPIRY),
+      },
+    })
+
+    return {
+      token,
+      invitation: {
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role as OrganizationRole,
+        invitedById: invitation.invitedById,
+        expiresAt: invitation.expiresAt,
+        createdAt: invitation.createdAt,
+      },
+    }
+  }
+
+  /**
+   * Invitations that have been neither accepted nor expired
+   */
+  static async listInvitations(organizationId: string): Promise<InvitationInfo[]> {
+    const invitations = await prisma.organizationInvitation.findMany({
+      where: {
+        organizationId,
+        acceptedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return invitations.map(invitation => ({
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role as OrganizationRole,
+      invitedById: invitation.invitedById,
+      expiresAt: invitation.expiresAt,
+      createdAt: invitation.createdAt,
+    }))
+  }
+
+  static async revokeInvitation(organizationId: string, invitationId: string): Promise<boolean> {
+    const result = await prisma.organizationInvitation.deleteMany({
+      where: { id: invitationId, organizationId, acceptedAt: null },
+    })
+
+    return result.count > 0
+  }
+
+  /**
+   * Accept an invitation as the user it was sent to, creating the membership
+   */
+  static async acceptInvitation(
+    token: string,
+    user: { id: string; email: string }
+  ): Promise<
+    | { success: true; organization: OrganizationInfo }
+    | { success: false; error: 'INVALID_OR_EXPIRED_TOKEN' | 'EMAIL_MISMATCH' | 'ALREADY_MEMBER' }
+  > {
+    const tokenHash = this.hashInvitationToken(token)
+    const now = new Date()
+
+    const invitation = await prisma.organizationInvitation.findUnique({
+      where: { tokenHash },
+    })
+
+    if (!invitation || invitation.acceptedAt || invitation.expiresAt <= now) {
+      return { success: false, error: 'INVALID_OR_EXPIRED_TOKEN' }
+    }
+
+    if (invitation.email !== user.email.toLowerCase()) {
+      return { success: false, error: 'EMAIL_MISMATCH' }
+    }
+
+    if (await this.getMembership(invitation.organizationId, user.id)) {
+      return { success: false, error: 'ALREADY_MEMBER' }
+    }
+
+    const accepted = await prisma.$transaction(async (tx) => {
+      // Consume the invitation only if it is still pending, so concurrent
+      // requests with the same token cannot both succeed
+      const consumed = await tx.organizationInvitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null, expiresAt: { gt: now } },
+        data: { acceptedAt: now },
+      })
+
+      if (consumed.count !== 1) {
+        return false
+      }
+
+      await tx.membership.create({
+        data: {
+          organizationId: invitation.organizationId,
+          userId: user.id,
+          role: invitation.role,
+        },
+      })
+
+      return true
+    })
+
+    const organization = accepted ? await this.getMembership(invitation.organizationId, user.id) : null
+
+    if (!organization) {
+      return { success: false, error: 'INVALID_OR_EXPIRED_TOKEN' }
+    }
+
+    return { success: true, organization }
+  }
+}
+
+// Export singleton instance
+export const organizationService = OrganizationService
@@ -0,0 +1,121 @@
+import { generateAuthenticationOptions, verifyAuthenticationResponse } from '@simplewebauthn/server'
+import type { AuthenticatorTransportFuture, PublicKeyCredentialRequestOptionsJSON } from '@simplewebauthn/types'
+import { prisma } from './prisma'
+import { webauthnChallengeService } from './webauthn-challenge-service'
+
+const rpID = process.env.NODE_ENV === 'production' ? process.env.VERCEL_URL || 'localhost' : 'localhost'
+const origin = process.env.NODE_ENV === 'production'
+  ? `https://${process.env.VERCEL_URL}`
+  : 'http://localhost:3001'
+
+export interface PasskeyAssertion {
+  id: string
+  rawId: string
+  response: {
+    clientDataJSON: string
+    authenticatorData: string
+    signature: string
+    userHandle?: string
+  }
+  type: 'public-key'
+}
+
+/**
+ * Confirms sensitive changes on accounts without a password. A stolen access
+ * token can't produce an assertion, so the user has to be present with one
+ * of their passkeys.
+ */
+export class PasskeyReauthService {
+  /**
+   * Authentication options limited to the user's usable passkeys.
+   * Returns null when the user has none.
+   */
+  static async createOptions(userId: string): Promise<PublicKeyCredentialRequestOptionsJSON | null> {
+    const credentials = await prisma.webAuthnCredential.findMany({
+      where: { userId, cloneDetectedAt: null },
+      select: { credentialID: true, transports: true },
+    })
+
+    if (credentials.length === 0) {
+      return null
+    }
+
+    const options = await generateAuthenticationOptions({
+      rpID,
+      allowCredentials: credentials.map(credential => ({
+        id: Buffer.from(credential.credentialID, 'base64url'),
+        type: 'public-key' as const,
+        transports: credential.transports
+          ? JSON.parse(credential.transports) as AuthenticatorTransportFuture[]
+          : undefined,
+      })),
+      userVerification: 'required',
+    })
+
+    await webauthnChallengeService.storeChallenge('reauthentication', { userId }, options.challenge)
+
+    return options
+  }
+
+  /**
+   * Check an assertion against the user's pending challenge. The challenge is
+   * consumed either way, and the passkey must belong to the user.
+   */
+  static async verify(userId: string, assertion: PasskeyAssertion): Promise<boolean> {
+    const pendingChallenge = await webauthnChallengeService.consumeChallenge('reauthentication', { userId })
+    if (!pendingChallenge) {
+      return false
+    }
+
+    const credential = await prisma.webAuthnCredential.findUnique({
+      where: { credentialID: assertion.id },
+    })
+
+    if (!credential || credential.userId !== userId || credential.cloneDetectedAt) {
+      return false
+    }
+
+    try {
+      const verification = await verifyAuthenticationResponse({
+        response: { ...assertion, clientExtensionResults: {} },
+        expectedChallenge: pendingChallenge.challenge,
+        expectedOrigin: origin,
+        expectedRPID: rpID,
+        authenticator: {
+          credentialID: Buffer.from(credential.credentialID, 'base64url'),
+          credentialPublicKey: credential.credentialPublicKey,
+          counter: 0,
+          transports: credential.transports ? JSON.parse(credential.transports) : undefined,
+        },
+      })
+
+      if (!verification.verified) {
+        return false
+      }
+
+      // Same clone check as passkey sign-in
+      const { newCounter } = verification.authenticationInfo
+      if ((newCounter > 0 || credential.counter > 0) && newCounter <= credential.counter) {
+        await prisma.webAuthnCredential.update({
+          where: { id: credential.id },
+          data: { cloneDetectedAt: new Date() },
+        })
+        console.warn(`Possible cloned passkey ${credential.id} used to reauthenticate user ${userId}`)
+        return false
+      }
+
+      await prisma.webAuthnCredential.update({
+        where: { id: credential.id },
+        data: { counter: newCounter, lastUsedAt: new Date() },
+      })
+
+      return true
+    } catch (error) {
+      console.warn('Passkey reauthentication failed:', error instanceof Error ? error.message : error)
+      return false
+    }
+  }
+}
+
+// Export singleton instance
+export const passkeyReauthService = PasskeyReauthService
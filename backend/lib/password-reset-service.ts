@@ -0,0 +1,149 @@
+import { randomBytes, createHash } from 'crypto'
+import bcrypt from 'bcryptjs'
+import { prisma } from './prisma'
+import { jwtService } from './jwt-service'
+import { sessionService } from './session-service'
+
+// Reset token configuration
+const RESET_TOKEN_EXPIRY = 60 * 60 * 1000 // 1 hour (matches the email copy)
+const RESET_REQUEST_COOLDOWN = 60 * 1000 // Minimum gap between emails for one account
+const MAX_ACTIVE_RESET_TOKENS = 3 // Per account, within the expiry window
+
+export interface ResetTokenResult {
+  token: string
+  expiresAt: Date
+}
+
+export class PasswordResetService {
+  /**
+   * Generate a random reset token
+   */
+  private static generateResetToken(): string {
+    return randomBytes(32).toString('base64url')
+  }
+
+  /**
+   * Hash a reset token for database storage
+   */
+  private static hashResetToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex')
+  }
+
+  /**
+   * Create a reset token for a user.
+   * Returns null when the account is being throttled.
+   */
+  static async createResetToken(
+    userId: string,
+    options: { ipAddress?: string } = {}
+  ): Promise<ResetTokenResult | null> {
+    const now = new Date()
+
+    const recentTokens = await prisma.passwordResetToken.findMany({
+      where: {
+        userId,
+        usedAt: null,
+        expiresAt: { gt: now },
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    })
+
+    if (recentTokens.length >= MAX_ACTIVE_RESET_TOKENS) {
+      return null
+    }
+
+    if (
+      recentTokens.length > 0 &&
+      now.getTime() - recentTokens[0].createdAt.getTime() < RESET_REQUEST_COOLDOWN
+    ) {
+      return null
+    }
+
+    const token = this.generateResetToken()
+    const expiresAt = new Date(now.getTime() + RESET_TOKEN_EXPIRY)
+
+    await prisma.passwordResetToken.create({
+      data: {
+        tokenHash: this.hashResetToken(token),
+        userId,
+        expiresAt,
+        ipAddress: options.ipAddress,
+      },
+    })
+
+    return { token, expiresAt }
+  }
+
+  /**
+   * Consume a reset token and set the new password.
+   * On success every session and refresh token of the user is revoked.
+   */
+  static async resetPassword(
+    token: string,
+    newPassword: string
+  ): Promise<{ success: true; userId: string } | { success: false; error: string }> {
+    const tokenHash = this.hashResetToken(token)
+    const now = new Date()
+    const hashedPassword = await bcrypt.hash(newPassword, 12)
+
+    const userId = await prisma.$transaction(async (tx) => {
+      // Mark the token as used only if it is still valid, so concurrent
+      // requests with the same token cannot both succeed
+      const consumed = await tx.passwordResetToken.updateMany({
+        where: {
+          tokenHash,
+          usedAt: null,
+          expiresAt: { gt: now },
+        },
+        data: { usedAt: now },
+      })
+
+      if (consumed.count !== 1) {
+        return null
+      }
+
+      const resetToken = await tx.passwordResetToken.findUnique({
+        where: { tokenHash },
+        select: { userId: true },
+      })
+
+      if (!resetToken) {
+        return null
+      }
+
+      await tx.user.update({
+        where: { id: resetToken.userId },
+        data: { password: hashedPassword },
+      })
+
+      // Lift a failed-login lockout, but not a lock an admin put in place
+      await tx.user.updateMany({
+        where: { id: resetToken.userId, adminLockedAt: null },
+        data: { isLocked: false, lockedUntil: null },
+      })
+
+      // Any other outstanding reset links for this account are now stale
+      await tx.passwordResetToken.updateMany({
+        where: { userId: resetToken.userId, usedAt: null },
+        data: { usedAt: now },
+      })
+
+      return resetToken.userId
+    })
+
+    if (!userId) {
+      return { success: false, error: 'INVALID_OR_EXPIRED_TOKEN' }
+    }
+
+    await Promise.all([
+      sessionService.invalidateAllUserSessions(userId),
+      jwtService.revokeAllRefreshTokens(userId),
+    ])
+
+    return { success: true, userId }
+  }
+}
+
+// Export singleton instance
+export const passwordResetService = PasswordResetService
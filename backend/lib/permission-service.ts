@@ -0,0 +1,105 @@
+import { prisma } from './prisma'
+import { hasPermissions, type PermissionName } from './permissions'
+
+// Permission lookup configuration
+const ROLE_CACHE_TTL = 60 * 1000 // Pick up role changes made on other instances
+
+export interface RoleInfo {
+  name: string
+  description: string | null
+  isSystem: boolean
+  permissions: string[]
+}
+
+/**
+ * Resolves roles to permissions. The roles table is small and read on every
+ * authenticated request, so it is cached whole.
+ */
+export class PermissionService {
+  private static roleCache: { roles: Map<string, RoleInfo>; loadedAt: number } | null = null
+
+  /**
+   * All roles with their permissions, keyed by name
+   */
+  private static async loadRoles(): Promise<Map<string, RoleInfo>> {
+    if (this.roleCache && Date.now() - this.roleCache.loadedAt < ROLE_CACHE_TTL) {
+      return this.roleCache.roles
+    }
+
+    const rows = await prisma.role.findMany({
+      include: { permissions: { include: { permission: true } } },
+      orderBy: { name: 'asc' },
+    })
+
+    const roles = new Map<string, RoleInfo>()
+    rows.forEach(row => roles.set(row.name, {
+      name: row.name,
+      description: row.description,
+      isSystem: row.isSystem,
+      permissions: row.permissions.map(grant => grant.permission.name).sort(),
+    }))
+    this.roleCache = { roles, loadedAt: Date.now() }
+
+    return roles
+  }
+
+  /**
+   * Permissions granted by a role; none for unknown roles
+   */
+  static async getRolePermissions(role: string): Promise<string[]> {
+    const roles = await this.loadRoles()
+    return roles.get(role)?.permissions || []
+  }
+
+  /**
+   * Whether a role grants every required permission
+   */
+  static async roleHasPermissions(role: string, required: PermissionName[]): Promise<boolean> {
+    return hasPermissions(await this.getRolePermissions(role), required)
+  }
+
+  static async getRole(role: string): Promise<RoleInfo | null> {
+    const roles = await this.loadRoles()
+    return roles.get(role) || null
+  }
+
+  static async listRoles(): Promise<RoleInfo[]> {
+    const roles = await this.loadRoles()
+    return Array.from(roles.values())
+  }
+
+  /**
+   * Names of the roles that grant a permission
+   */
+  static async getRolesWithPermission(permission: PermissionName): Promise<string[]> {
+    const roles = await this.listRoles()
+    return roles.filter(role => role.permissions.includes(permission)).map(role => role.name)
+  }
+
+  /**
+   * Whether an actor may change, lock, sign out or impersonate another user.
+   * Nobody manages themselves, and users who hold any permission can only be
+   * managed with roles:assign.
+   */
+  static async canManageUser(
+    actor: { id: string; permissions: string[] },
+    target: { id: string; role: string }
+  ): Promise<boolean> {
+    if (actor.id === target.id) {
+      return false
+    }
+
+    const targetPermissions = await this.getRolePermissions(target.role)
+    return targetPermissions.length === 0 || hasPermissions(actor.permissions, ['roles:assign'])
+  }
+
+  /**
+   * Forget cached roles, e.g. after changing role permissions
+   */
+  static clearCache(): void {
+    this.roleCache = null
+  }
+}
+
+// Export singleton instance
+export const permissionService = PermissionService
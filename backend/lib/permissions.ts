@@ -0,0 +1,93 @@
+// Permission catalog and the default role set. Roles live in the database
+// (roles, permissions, role_permissions) and are seeded from DEFAULT_ROLES;
+// code checks permissions, never role names.
+
+export const PERMISSIONS = [
+  'admin:access',
+  'users:read',
+  'users:update',
+  'users:impersonate',
+  'roles:assign',
+  'audit:read',
+  'ip_lists:manage',
+  'jwt_keys:manage',
+  'webhooks:manage',
+] as const
+
+export type PermissionName = typeof PERMISSIONS[number]
+
+export const PERMISSION_DESCRIPTIONS: Record<PermissionName, string> = {
+  'admin:access': 'Admin dashboard and statistics',
+  'users:read': 'List and inspect users',
+  'users:update': 'Lock, unlock, sign out and reset passwords of users',
+  'users:impersonate': 'Act as a user for support',
+  'roles:assign': 'Change roles and manage users who hold any permission',
+  'audit:read': 'Query the audit log',
+  'ip_lists:manage': 'Manage IP allow/deny lists',
+  'jwt_keys:manage': 'Rotate JWT signing keys',
+  'webhooks:manage': 'Manage webhook endpoints and deliveries',
+}
+
+export interface RoleDefinition {
+  name: string
+  description: string
+  permissions: readonly PermissionName[]
+}
+
+// Role given to new accounts
+export const DEFAULT_ROLE = 'user'
+
+export const DEFAULT_ROLES: RoleDefinition[] = [
+  {
+    name: DEFAULT_ROLE,
+    description: 'Regular account',
+    permissions: [],
+  },
+  {
+    name: 'admin',
+    description: 'Support and moderation',
+    permissions: [
+      'admin:access',
+      'users:read',
+      'users:update',
+      'users:impersonate',
+      'audit:read',
+      'ip_lists:manage',
+      'jwt_keys:manage',
+      'webhooks:manage',
+    ],
+  },
+  {
+    name: 'super_admin',
+    description: 'Full access, including role assignment',
+    permissions: PERMISSIONS,
+  },
+]
+
+// Per-organization roles. These are fixed in code rather than stored, so the
+// org claim in access tokens can be checked without a database lookup.
+export const ORGANIZATION_PERMISSIONS = [
+  'org:update',
+  'org:delete',
+  'members:invite',
+  'members:manage',
+] as const
+
+export type OrganizationPermissionName = typeof ORGANIZATION_PERMISSIONS[number]
+
+export const ORGANIZATION_ROLES = ['owner', 'admin', 'member'] as const
+
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number]
+
+export const ORGANIZATION_ROLE_PERMISSIONS: Record<OrganizationRole, readonly OrganizationPermissionName[]> = {
+  owner: ORGANIZATION_PERMISSIONS,
+  admin: ['org:update', 'members:invite', 'members:manage'],
+  member: [],
+}
+
+/**
+ * Whether a permission set contains every required permission
+ */
+export function hasPermissions(granted: readonly string[], required: readonly string[]): boolean {
+  return required.every(permission => granted.includes(permission))
+}
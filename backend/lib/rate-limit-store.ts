@@ -0,0 +1,575 @@
+import net from 'net'
+import tls from 'tls'
+
+// Rate limit storage configuration
+const RATE_LIMIT_STORE = process.env.RATE_LIMIT_STORE || (process.env.REDIS_URL ? 'redis' : 'memory')
+const KEY_PREFIX = process.env.RATE_LIMIT_KEY_PREFIX || 'rl:'
+const REDIS_TIMEOUT = 2000 // Fail fast; the rate limiter fails open on store errors
+
+export interface RateLimitCounter {
+  count: number
+  resetTime: Date
+}
+
+export interface TokenBucketState {
+  allowed: boolean
+  tokens: number // Whole tokens left in the bucket
+  resetTime: Date // When the next token is added
+}
+
+export interface SlidingWindowState {
+  allowed: boolean
+  count: number // Hits logged in the window, including this one if allowed
+  resetTime: Date // When the oldest logged hit leaves the window
+}
+
+/**
+ * Storage for rate limit counters and blocks, shared by every RateLimiter check
+ */
+export interface RateLimitStore {
+  /** Count a hit in the key's fixed window, opening a new window if none is running */
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>
+  /** Take a hit back, e.g. a successful login when only failures should count */
+  decrement(key: string): Promise<void>
+  /** Take a token from the key's bucket, refilling it for the time that has passed */
+  takeToken(key: string, capacity: number, refillPerSecond: number): Promise<TokenBucketState>
+  /** Put a token back into the key's bucket */
+  returnToken(key: string, capacity: number, refillPerSecond: number): Promise<void>
+  /** Log a hit if fewer than limit hits were logged within the last windowMs */
+  logHit(key: string, windowMs: number, limit: number): Promise<SlidingWindowState>
+  /** Remove the most recently logged hit */
+  removeHit(key: string): Promise<void>
+  /** Block a key until the duration has passed */
+  block(key: string, durationMs: number): Promise<Date>
+  /** When the block on a key ends, or null if it isn't blocked */
+  getBlock(key: string): Promise<Date | null>
+  /** Delete counters and blocks whose key matches a pattern (`*` wildcards only) */
+  reset(pattern: string): Promise<void>
+}
+
+/**
+ * In-process store. Counters are per instance and lost on restart,
+ * which is fine for development and single-instance deployments.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters: Map<string, { count: number; resetAt: number }> = new Map()
+  private buckets: Map<string, { tokens: number; updatedAt: number; fullAt: number }> = new Map()
+  private logs: Map<string, { hits: number[]; expiresAt: number }> = new Map()
+  private blocks: Map<string, number> = new Map()
+  private operations = 0
+
+  /**
+   * Drop expired entries every so often so idle keys don't accumulate
+   */
+  private sweep(): void {
+    if (++this.operations % 1000 !== 0) {
+      return
+    }
+
+    const now = Date.now()
+    this.counters.forEach((counter, key) => {
+      if (counter.resetAt <= now) this.counters.delete(key)
+    })
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.fullAt <= now) this.buckets.delete(key)
+    })
+    this.logs.forEach((log, key) => {
+      if (log.expiresAt <= now) this.logs.delete(key)
+    })
+    this.blocks.forEach((blockedUntil, key) => {
+      if (blockedUntil <= now) this.blocks.delete(key)
+    })
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    this.sweep()
+
+    const now = Date.now()
+    let counter = this.counters.get(key)
+
+    if (!counter || counter.resetAt <= now) {
+      counter = { count: 0, resetAt: now + windowMs }
+      this.counters.set(key, counter)
+    }
+
+    counter.count++
+
+    return { count: counter.count, resetTime: new Date(counter.resetAt) }
+  }
+
+  async decrement(key: string): Promise<void> {
+    const counter = this.counters.get(key)
+
+    if (counter && counter.count > 0 && counter.resetAt > Date.now()) {
+      counter.count--
+    }
+  }
+
+  async takeToken(key: string, capacity: number, refillPerSecond: number): Promise<TokenBucketState> {
+    this.sweep()
+    return this.updateBucket(key, capacity, refillPerSecond, -1)
+  }
+
+  async returnToken(key: string, capacity: number, refillPerSecond: number): Promise<void> {
+    this.updateBucket(key, capacity, refillPerSecond, 1)
+  }
+
+  /**
+   * Refill a bucket for the elapsed time, then take (-1) or return (+1) a token
+   */
+  private updateBucket(key: string, capacity: number, refillPerSecond: number, change: number): TokenBucketState {
+    const now = Date.now()
+    const refillPerMs = refillPerSecond / 1000
+    const bucket = this.buckets.get(key)
+    let tokens = bucket
+      ? Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs)
+      : capacity
+
+    const allowed = change > 0 || tokens >= 1
+    if (allowed) {
+      tokens = Math.min(capacity, tokens + change)
+    }
+
+    this.buckets.set(key, {
+      tokens,
+      updatedAt: now,
+      fullAt: now + (capacity - tokens) / refillPerMs,
+    })
+
+    return tokenBucketState(allowed, tokens, capacity, refillPerMs, now)
+  }
+
+  async logHit(key: string, windowMs: number, limit: number): Promise<SlidingWindowState> {
+    this.sweep()
+
+    const now = Date.now()
+    const hits = (this.logs.get(key)?.hits || []).filter(hit => hit > now - windowMs)
+    const allowed = hits.length < limit
+
+    if (allowed) {
+      hits.push(now)
+    }
+    this.logs.set(key, { hits, expiresAt: now + windowMs })
+
+    return {
+      allowed,
+      count: hits.length,
+      resetTime: new Date((hits[0] ?? now) + windowMs),
+    }
+  }
+
+  async removeHit(key: string): Promise<void> {
+    this.logs.get(key)?.hits.pop()
+  }
+
+  async block(key: string, durationMs: number): Promise<Date> {
+    const blockedUntil = Date.now() + durationMs
+    this.blocks.set(key, blockedUntil)
+    return new Date(blockedUntil)
+  }
+
+  async getBlock(key: string): Promise<Date | null> {
+    const blockedUntil = this.blocks.get(key)
+
+    if (!blockedUntil || blockedUntil <= Date.now()) {
+      this.blocks.delete(key)
+      return null
+    }
+
+    return new Date(blockedUntil)
+  }
+
+  async reset(pattern: string): Promise<void> {
+    const regex = globToRegExp(pattern)
+
+    Array.from(this.counters.keys())
+      .filter(key => regex.test(key))
+      .forEach(key => this.counters.delete(key))
+    Array.from(this.buckets.keys())
+      .filter(key => regex.test(key))
+      .forEach(key => this.buckets.delete(key))
+    Array.from(this.logs.keys())
+      .filter(key => regex.test(key))
+      .forEach(key => this.logs.delete(key))
+    Array.from(this.blocks.keys())
+      .filter(key => regex.test(key))
+      .forEach(key => this.blocks.delete(key))
+  }
+}
+
+// Increment a fixed-window counter, setting its expiry when the window opens
+const INCREMENT_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+local ttl = redis.call('PTTL', KEYS[1])
+if count == 1 or ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return {count, ttl}
+`
+
+// Decrement without going below zero or recreating an expired key
+const DECREMENT_SCRIPT = `
+local count = tonumber(redis.call('GET', KEYS[1]) or '0')
+if count > 0 then
+  redis.call('DECR', KEYS[1])
+end
+return 0
+`
+
+// Refill a token bucket (hash of tokens and last update) and take or return a token.
+// The key expires once the bucket would be full again, which is the same as no key.
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill_per_ms = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local change = tonumber(ARGV[4])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updated_at')
+local tokens = capacity
+if state[1] then
+  tokens = math.min(capacity, tonumber(state[1]) + math.max(0, now - tonumber(state[2])) * refill_per_ms)
+end
+local allowed = 0
+if change > 0 or tokens >= 1 then
+  tokens = math.min(capacity, tokens + change)
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated_at', now)
+redis.call('PEXPIRE', KEYS[1], math.max(1, math.ceil((capacity - tokens) / refill_per_ms)))
+return {allowed, tostring(tokens)}
+`
+
+// Drop hits older than the window, then log this one (a unique member scored by time) if under the limit
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return {allowed, count, oldest[2] or tostring(now)}
+`
+
+/**
+ * Store backed by Redis or any server speaking the Redis protocol
+ * (Valkey, KeyDB, Dragonfly), shared by all instances
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private client: RedisClient
+
+  constructor(url: string) {
+    this.client = new RedisClient(new URL(url))
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const [count, ttl] = await this.client.command(
+      ['EVAL', INCREMENT_SCRIPT, 1, KEY_PREFIX + key, windowMs]
+    ) as number[]
+
+    return { count, resetTime: new Date(Date.now() + ttl) }
+  }
+
+  async decrement(key: string): Promise<void> {
+    await this.client.command(['EVAL', DECREMENT_SCRIPT, 1, KEY_PREFIX + key])
+  }
+
+  async takeToken(key: string, capacity: number, refillPerSecond: number): Promise<TokenBucketState> {
+    const now = Date.now()
+    const refillPerMs = refillPerSecond / 1000
+    const [allowed, tokens] = await this.client.command(
+      ['EVAL', TOKEN_BUCKET_SCRIPT, 1, KEY_PREFIX + key, capacity, refillPerMs, now, -1]
+    ) as [number, string]
+
+    return tokenBucketState(allowed === 1, Number(tokens), capacity, refillPerMs, now)
+  }
+
+  async returnToken(key: string, capacity: number, refillPerSecond: number): Promise<void> {
+    await this.client.command(
+      ['EVAL', TOKEN_BUCKET_SCRIPT, 1, KEY_PREFIX + key, capacity, refillPerSecond / 1000, Date.now(), 1]
+    )
+  }
+
+  async logHit(key: string, windowMs: number, limit: number): Promise<SlidingWindowState> {
+    const now = Date.now()
+    const member = `${now}-${Math.random().toString(36).slice(2)}`
+    const [allowed, count, oldest] = await this.client.command(
+      ['EVAL', SLIDING_WINDOW_SCRIPT, 1, KEY_PREFIX + key, now, windowMs, limit, member]
+    ) as [number, number, string]
+
+    return {
+      allowed: allowed === 1,
+      count,
+      resetTime: new Date(Number(oldest) + windowMs),
+    }
+  }
+
+  async removeHit(key: string): Promise<void> {
+    await this.client.command(['ZPOPMAX', KEY_PREFIX + key])
+  }
+
+  async block(key: string, durationMs: number): Promise<Date> {
+    await this.client.command(['SET', `${KEY_PREFIX}block:${key}`, 1, 'PX', durationMs])
+    return new Date(Date.now() + durationMs)
+  }
+
+  async getBlock(key: string): Promise<Date | null> {
+    const ttl = await this.client.command(['PTTL', `${KEY_PREFIX}block:${key}`]) as number
+    return ttl > 0 ? new Date(Date.now() + ttl) : null
+  }
+
+  async reset(pattern: string): Promise<void> {
+    for (const match of [KEY_PREFIX + pattern, `${KEY_PREFIX}block:${pattern}`]) {
+      let cursor = '0'
+
+      do {
+        const [nextCursor, keys] = await this.client.command(
+          ['SCAN', cursor, 'MATCH', match, 'COUNT', 100]
+        ) as [string, string[]]
+
+        if (keys.length > 0) {
+          await this.client.command(['DEL', ...keys])
+        }
+        cursor = nextCursor
+      } while (cursor !== '0')
+    }
+  }
+
+  /**
+   * Close the connection (used by tests and scripts)
+   */
+  disconnect(): void {
+    this.client.disconnect()
+  }
+}
+
+type RedisReply = string | number | null | RedisReply[]
+
+/**
+ * Minimal RESP2 client: one pipelined connection, reconnecting on demand
+ */
+class RedisClient {
+  private socket: net.Socket | null = null
+  private pending: { resolve: (reply: RedisReply) => void; reject: (error: Error) => void }[] = []
+  private buffer = Buffer.alloc(0)
+
+  constructor(private url: URL) {}
+
+  /**
+   * Send a command and wait for its reply
+   */
+  command(args: (string | number)[]): Promise<RedisReply> {
+    const socket = this.socket || this.connect()
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.fail(new Error('Redis command timed out'))
+      }, REDIS_TIMEOUT)
+
+      this.pending.push({
+        resolve: reply => {
+          clearTimeout(timer)
+          resolve(reply)
+        },
+        reject: error => {
+          clearTimeout(timer)
+          reject(error)
+        },
+      })
+      socket.write(encodeCommand(args))
+    })
+  }
+
+  disconnect(): void {
+    this.socket?.end()
+    this.socket = null
+  }
+
+  /**
+   * Open the connection; AUTH and SELECT are queued ahead of any command
+   */
+  private connect(): net.Socket {
+    const port = Number(this.url.port) || 6379
+    const host = this.url.hostname || 'localhost'
+    const socket = this.url.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port })
+
+    socket.setNoDelay(true)
+    socket.on('data', data => this.onData(data))
+    // Ignore events from a connection that has already been replaced
+    socket.on('error', error => socket === this.socket && this.fail(error))
+    socket.on('close', () => socket === this.socket && this.fail(new Error('Redis connection closed')))
+    this.socket = socket
+    this.buffer = Buffer.alloc(0)
+
+    const password = decodeURIComponent(this.url.password)
+    const username = decodeURIComponent(this.url.username)
+    const db = this.url.pathname.slice(1)
+
+    if (password) {
+      this.command(username ? ['AUTH', username, password] : ['AUTH', password]).catch(() => {})
+    }
+    if (db && db !== '0') {
+      this.command(['SELECT', db]).catch(() => {})
+    }
+
+    return socket
+  }
+
+  /**
+   * Reject every pending command and drop the connection
+   */
+  private fail(error: Error): void {
+    const pending = this.pending
+    this.pending = []
+    pending.forEach(({ reject }) => reject(error))
+
+    if (this.socket) {
+      this.socket.destroy()
+      this.socket = null
+    }
+  }
+
+  private onData(data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data])
+
+    while (this.buffer.length > 0) {
+      const parsed = parseReply(this.buffer, 0)
+      if (!parsed) {
+        return // Wait for the rest of the reply
+      }
+
+      this.buffer = this.buffer.subarray(parsed.offset)
+      const request = this.pending.shift()
+
+      if (parsed.value instanceof Error) {
+        request?.reject(parsed.value)
+      } else {
+        request?.resolve(parsed.value)
+      }
+    }
+  }
+}
+
+/**
+ * Whole tokens left and when the next one arrives (now if the bucket is full)
+ */
+function tokenBucketState(
+  allowed: boolean,
+  tokens: number,
+  capacity: number,
+  refillPerMs: number,
+  now: number
+): TokenBucketState {
+  const remaining = Math.floor(tokens)
+  const untilNextToken = remaining >= capacity ? 0 : (remaining + 1 - tokens) / refillPerMs
+
+  return {
+    allowed,
+    tokens: remaining,
+    resetTime: new Date(now + Math.ceil(untilNextToken)),
+  }
+}
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+function encodeCommand(args: (string | number)[]): Buffer {
+  const parts = args.map(arg => {
+    const value = Buffer.from(String(arg))
+    return Buffer.concat([Buffer.from(`$${value.length}\r\n`), value, Buffer.from('\r\n')])
+  })
+
+  return Buffer.concat([Buffer.from(`*${args.length}\r\n`), ...parts])
+}
+
+/**
+ * Parse one RESP2 reply starting at offset; null if the buffer is incomplete
+ */
+function parseReply(buffer: Buffer, offset: number): { value: RedisReply | Error; offset: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset)
+  if (lineEnd === -1) {
+    return null
+  }
+
+  const type = String.fromCharCode(buffer[offset])
+  const line = buffer.toString('utf8', offset + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next }
+    case '-':
+      return { value: new Error(line), offset: next }
+    case ':':
+      return { value: Number(line), offset: next }
+    case '$': {
+      const length = Number(line)
+      if (length === -1) {
+        return { value: null, offset: next }
+      }
+      if (buffer.length < next + length + 2) {
+        return null
+      }
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 }
+    }
+    case '*': {
+      const count = Number(line)
+      if (count === -1) {
+        return { value: null, offset: next }
+      }
+
+      const items: RedisReply[] = []
+      let position = next
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position)
+        if (!item) {
+          return null
+        }
+        if (item.value instanceof Error) {
+          return item
+        }
+        items.push(item.value)
+        position = item.offset
+      }
+      return { value: items, offset: position }
+    }
+    default:
+      return { value: new Error(`Unexpected Redis reply type: ${type}`), offset: buffer.length }
+  }
+}
+
+/**
+ * Convert a `*` glob into an anchored regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+  return new RegExp(`^${escaped.join('.*')}$`)
+}
+
+let store: RateLimitStore | null = null
+
+/**
+ * Get the configured store (RATE_LIMIT_STORE=memory|redis, REDIS_URL)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    if (RATE_LIMIT_STORE === 'redis') {
+      if (!process.env.REDIS_URL) {
+        throw new Error('REDIS_URL is required when RATE_LIMIT_STORE=redis')
+      }
+      store = new RedisRateLimitStore(process.env.REDIS_URL)
+    } else {
+      store = new MemoryRateLimitStore()
+    }
+  }
+
+  return store
+}
@@ -0,0 +1,107 @@
+import { randomInt, createHmac } from 'crypto'
+import { prisma } from './prisma'
+
+// Recovery code configuration
+const RECOVERY_CODE_COUNT = 10 // Codes per generated set
+const RECOVERY_CODE_LENGTH = 10 // Characters per code, shown as two groups of five
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789' // No 0/o, 1/l/i
+
+// Codes carry only ~49 bits, so hashes are keyed with a server-side pepper
+// that a database dump alone doesn't reveal
+const RECOVERY_CODE_PEPPER = process.env.RECOVERY_CODE_PEPPER || process.env.JWT_SECRET || process.env.NEXTAUTH_SECRET
+
+if (!RECOVERY_CODE_PEPPER && process.env.NODE_ENV === 'production') {
+  throw new Error('RECOVERY_CODE_PEPPER or JWT_SECRET is required in production')
+}
+
+export class RecoveryCodeService {
+  /**
+   * Generate a single human-friendly recovery code (e.g. "k7m2p-x9qrt")
+   */
+  private static generateCode(): string {
+    let code = ''
+    for (let i = 0; i < RECOVERY_CODE_LENGTH; i++) {
+      code += RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]
+    }
+
+    return `${code.slice(0, RECOVERY_CODE_LENGTH / 2)}-${code.slice(RECOVERY_CODE_LENGTH / 2)}`
+  }
+
+  /**
+   * Normalize user input so case, spaces and dashes don't matter
+   */
+  private static normalizeCode(code: string): string {
+    return code.toLowerCase().replace(/[^a-z0-9]/g, '')
+  }
+
+  /**
+   * Hash a recovery code for database storage. The user ID is mixed in so
+   * equal codes of different users don't share a hash.
+   */
+  private static hashCode(userId: string, code: string): string {
+    return createHmac('sha256', RECOVERY_CODE_PEPPER || 'fallback-recovery-code-pepper-change-in-production')
+      .update(`${userId}:${this.normalizeCode(code)}`)
+      .digest('hex')
+  }
+
+  /**
+   * Generate a new set of recovery codes, invalidating any previous set.
+   * The plaintext codes are returned once and never stored.
+   */
+  static async generateCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => this.generateCode())
+
+    await prisma.$transaction([
+      prisma.recoveryCode.deleteMany({ where: { userId } }),
+      prisma.recoveryCode.createMany({
+        data: codes.map(code => ({
+          userId,
+          codeHash: this.hashCode(userId, code),
+        })),
+      }),
+    ])
+
+    return codes
+  }
+
+  /**
+   * Consume a recovery code. Returns false if it is unknown or already used.
+   */
+  static async consumeCode(userId: string, code: string): Promise<boolean> {
+    const normalized = this.normalizeCode(code)
+    if (normalized.length !== RECOVERY_CODE_LENGTH) {
+      return false
+    }
+
+    // Atomically mark the code used so it can't be redeemed twice
+    const consumed = await prisma.recoveryCode.updateMany({
+      where: {
+        userId,
+        codeHash: this.hashCode(userId, normalized),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    })
+
+    return consumed.count > 0
+  }
+
+  /**
+   * Count the unused recovery codes of a user
+   */
+  static async countRemaining(userId: string): Promise<number> {
+    return prisma.recoveryCode.count({
+      where: { userId, usedAt: null },
+    })
+  }
+
+  /**
+   * Delete all recovery codes of a user
+   */
+  static async deleteCodes(userId: string): Promise<void> {
+    await prisma.recoveryCode.deleteMany({ where: { userId } })
+  }
+}
+
+// Export singleton instance
+export const recoveryCodeService = RecoveryCodeService
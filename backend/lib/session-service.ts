@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { randomBytes, createHash } from 'crypto'
+import type { Session } from '@prisma/client'
 import { prisma } from './prisma'
-import { jwtService } from './jwt-service'
+import { jwtService, type JWTClaims, type TokenPair } from './jwt-service'
+import { organizationService, type OrganizationClaim } from './organization-service'
+import { parseUserAgent, describeDevice, type DeviceInfo, type DeviceType } from './user-agent'
 
 // Session configuration
 const SESSION_COOKIE_NAME = 'session-token'
@@ -16,7 +19,9 @@ export interface SessionData {
   expires: Date
   ipAddress?: string
   userAgent?: string
-  deviceInfo?: string
+  device: DeviceInfo & { description: string }
+  name?: string
+  impersonatorId?: string
   isActive: boolean
   createdAt: Date
   updatedAt: Date
@@ -28,6 +33,8 @@ export interface CreateSessionOptions {
   userAgent?: string
   deviceInfo?: string
   rememberMe?: boolean
+  expires?: Date // Overrides the default expiry
+  impersonatorId?: string
 }
 
 export interface CookieOptions {
@@ -62,19 +69,44 @@ export class SessionService {
   }
 
   /**
-   * Get device info from user agent
+   * Convert a session row for callers, grouping the parsed device fields
    */
-  private static parseDeviceInfo(userAgent?: string): string {
-    if (!userAgent) return 'Unknown Device'
-    
-    // Simple device detection
-    if (userAgent.includes('Mobile')) return 'Mobile Device'
-    if (userAgent.includes('Tablet')) return 'Tablet'
-    if (userAgent.includes('Windows')) return 'Windows PC'
-    if (userAgent.includes('Mac')) return 'Mac'
-    if (userAgent.includes('Linux')) return 'Linux PC'
-    
-    return 'Unknown Device'
+  private static toSessionData(session: Session): SessionData {
+    const device: DeviceInfo = {
+      browserName: session.browserName,
+      browserVersion: session.browserVersion,
+      osName: session.osName,
+      osVersion: session.osVersion,
+      deviceType: session.deviceType as DeviceType,
+      isBot: session.isBot,
+    }
+
+    return {
+      id: session.id,
+      userId: session.userId,
+      sessionToken: session.sessionToken,
+      expires: session.expires,
+      ipAddress: session.ipAddress ?? undefined,
+      userAgent: session.userAgent ?? undefined,
+      device: { ...device, description: describeDevice(device) },
+      name: session.name ?? undefined,
+      impersonatorId: session.impersonatorId ?? undefined,
+      isActive: session.isActive,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+    }
+  }
+
+  /**
+   * Default authentication methods references (RFC 8176) for a single-factor login
+   */
+  private static getDefaultAMR(authMethod: NonNullable<JWTClaims['authMethod']>): string[] {
+    switch (authMethod) {
+      case 'credentials': return ['pwd']
+      case 'passkey': return ['hwk', 'user']
+      case 'magic_link': return ['email']
+      default: return []
+    }
   }
 
   /**
@@ -103,11 +135,9 @@ export class SessionService {
     const csrfToken = this.generateCSRFToken()
     const hashedToken = this.hashSessionToken(sessionToken)
     
-    const expiryTime = options.rememberMe 
+    const expiryTime = options.expires || (options.rememberMe
       ? new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) // 30 days
-      : new Date(Date.now() + SESSION_EXPIRY) // 24 hours
-
-    const deviceInfo = this.parseDeviceInfo(options.userAgent)
+      : new Date(Date.now() + SESSION_EXPIRY)) // 24 hours
 
     const session = await prisma.session.create({
       data: {
@@ -116,18 +146,14 @@ export class SessionService {
         expires: expiryTime,
         ipAddress: options.ipAddress,
         userAgent: options.userAgent,
-        deviceInfo,
+        ...parseUserAgent(options.userAgent),
+        impersonatorId: options.impersonatorId,
         isActive: true,
       },
     })
 
     return {
-      session: {
-        ...session,
-        ipAddress: session.ipAddress ?? undefined,
-        userAgent: session.userAgent ?? undefined,
-        deviceInfo: session.deviceInfo ?? undefined,
-      },
+      session: this.toSessionData(session),
       sessionToken,
       csrfToken,
     }
@@ -156,12 +182,7 @@ export class SessionService {
         data: { updatedAt: new Date() },
       })
 
-      return {
-        ...session,
-        ipAddress: session.ipAddress ?? undefined,
-        userAgent: session.userAgent ?? undefined,
-        deviceInfo: session.deviceInfo ?? undefined,
-      }
+      return this.toSessionData(session)
     } catch (error) {
       console.error('Session validation failed:', error)
       return null
@@ -190,12 +211,7 @@ export class SessionService {
         },
       })
 
-      return {
-        ...session,
-        ipAddress: session.ipAddress ?? undefined,
-        userAgent: session.userAgent ?? undefined,
-        deviceInfo: session.deviceInfo ?? undefined,
-      }
+      return this.toSessionData(session)
     } catch (error) {
       console.error('Session refresh failed:', error)
       return null
@@ -228,6 +244,74 @@ export class SessionService {
     })
   }
 
+  /**
+   * Revoke one of a user's sessions together with the refresh tokens issued
+   * for it. Access tokens carrying the session id are rejected from then on.
+   * Returns false if the session doesn't exist or is already inactive.
+   */
+  static async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    const revoked = await prisma.session.updateMany({
+      where: { id: sessionId, userId, isActive: true },
+      data: { isActive: false },
+    })
+
+    if (revoked.count === 0) {
+      return false
+    }
+
+    await prisma.refreshToken.updateMany({
+      where: { sessionId, isRevoked: false },
+      data: { isRevoked: true },
+    })
+
+    return true
+  }
+
+  /**
+   * Revoke all of a user's sessions except the current one.
+   * Returns the number of sessions revoked.
+   */
+  static async revokeOtherSessions(userId: string, currentSessionId?: string): Promise<number> {
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId,
+        isActive: true,
+        ...(currentSessionId ? { id: { not: currentSessionId } } : {}),
+      },
+      select: { id: true },
+    })
+
+    const sessionIds = sessions.map(session => session.id)
+    if (sessionIds.length === 0) {
+      return 0
+    }
+
+    await prisma.$transaction([
+      prisma.session.updateMany({
+        where: { id: { in: sessionIds } },
+        data: { isActive: false },
+      }),
+      prisma.refreshToken.updateMany({
+        where: { sessionId: { in: sessionIds }, isRevoked: false },
+        data: { isRevoked: true },
+      }),
+    ])
+
+    return sessionIds.length
+  }
+
+  /**
+   * Set or clear the display name of one of a user's sessions
+   */
+  static async renameSession(userId: string, sessionId: string, name: string | null): Promise<boolean> {
+    const renamed = await prisma.session.updateMany({
+      where: { id: sessionId, userId, isActive: true },
+      data: { name },
+    })
+
+    return renamed.count === 1
+  }
+
   /**
    * Clean up expired sessions
    */
@@ -328,12 +412,7 @@ export class SessionService {
       orderBy: { updatedAt: 'desc' },
     })
     
-    return sessions.map(session => ({
-      ...session,
-      ipAddress: session.ipAddress ?? undefined,
-      userAgent: session.userAgent ?? undefined,
-      deviceInfo: session.deviceInfo ?? undefined,
-    }))
+    return sessions.map(session => this.toSessionData(session))
   }
 
   /**
@@ -367,13 +446,12 @@ export class SessionService {
           isActive: true,
           expires: { gt: new Date() },
         },
-        select: { deviceInfo: true },
+        select: { deviceType: true },
       }),
     ])
 
     const deviceTypes = allSessions.reduce((acc, session) => {
-      const device = session.deviceInfo || 'Unknown'
-      acc[device] = (acc[device] || 0) + 1
+      acc[session.deviceType] = (acc[session.deviceType] || 0) + 1
       return acc
     }, {} as Record<string, number>)
 
@@ -396,7 +474,8 @@ export class SessionService {
         username: string
         role: string
       }
-      authMethod?: 'credentials' | 'passkey' | 'oauth'
+      authMethod?: JWTClaims['authMethod']
+      amr?: string[]
     }
   ): Promise<{
     session: SessionData
@@ -408,6 +487,8 @@ export class SessionService {
     // Create session
     const { session, sessionToken, csrfToken } = await this.createSession(options)
 
+    const authMethod = options.authMethod || 'credentials'
+
     // Generate JWT tokens
     const tokenPair = await jwtService.generateTokenPair(
       {
@@ -416,7 +497,8 @@ export class SessionService {
         username: options.user.username,
         role: options.user.role,
         sessionId: session.id,
-        authMethod: options.authMethod || 'credentials',
+        authMethod,
+        amr: options.amr || this.getDefaultAMR(authMethod),
         deviceInfo: options.deviceInfo,
         ipAddress: options.ipAddress,
       },
@@ -435,6 +517,77 @@ export class SessionService {
       refreshToken: tokenPair.refreshToken,
     }
   }
+
+  /**
+   * Make an organization active for a session, or clear it with null, and
+   * issue new tokens carrying the matching org claim. The session's previous
+   * refresh tokens are revoked so they cannot restore the old claim.
+   */
+  static async switchOrganization(options: {
+    sessionId: string
+    user: {
+      id: string
+      email: string
+      username: string
+      role: string
+    }
+    organizationId: string | null
+    authMethod?: JWTClaims['authMethod']
+    amr?: string[]
+    deviceInfo?: string
+    ipAddress?: string
+  }): Promise<
+    | { success: true; tokens: TokenPair; organization: OrganizationClaim | null }
+    | { success: false; error: 'NOT_A_MEMBER' | 'SESSION_NOT_FOUND' }
+  > {
+    const org = options.organizationId
+      ? await organizationService.getOrganizationClaim(options.organizationId, options.user.id)
+      : null
+
+    if (options.organizationId && !org) {
+      return { success: false, error: 'NOT_A_MEMBER' }
+    }
+
+    const updated = await prisma.session.updateMany({
+      where: {
+        id: options.sessionId,
+        userId: options.user.id,
+        isActive: true,
+        impersonatorId: null,
+      },
+      data: { activeOrganizationId: org?.id || null },
+    })
+
+    if (updated.count !== 1) {
+      return { success: false, error: 'SESSION_NOT_FOUND' }
+    }
+
+    await prisma.refreshToken.updateMany({
+      where: { sessionId: options.sessionId, isRevoked: false },
+      data: { isRevoked: true },
+    })
+
+    const tokens = await jwtService.generateTokenPair(
+      {
+        sub: options.user.id,
+        email: options.user.email,
+        username: options.user.username,
+        role: options.user.role,
+        sessionId: options.sessionId,
+        org: org || undefined,
+        authMethod: options.authMethod,
+        amr: options.amr,
+        deviceInfo: options.deviceInfo,
+        ipAddress: options.ipAddress,
+      },
+      {
+        deviceInfo: options.deviceInfo,
+        ipAddress: options.ipAddress,
+      }
+    )
+
+    return { success: true, tokens, organization: org }
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,166 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+// RFC 6238 defaults (what every authenticator app supports)
+const TOTP_STEP_SECONDS = 30
+const TOTP_DIGITS = 6
+const TOTP_SECRET_BYTES = 20 // 160 bits, as recommended by RFC 4226
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export interface TOTPOptions {
+  step?: number
+  digits?: number
+}
+
+/**
+ * Encode bytes as RFC 4648 base32 (no padding)
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+/**
+ * Decode an RFC 4648 base32 string (case-insensitive, padding and spaces ignored)
+ */
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`)
+    }
+
+    value = (value << 5) | index
+    bits += 5
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+/**
+ * Generate a new random base32 TOTP secret
+ */
+export function generateTOTPSecret(): string {
+  return base32Encode(randomBytes(TOTP_SECRET_BYTES))
+}
+
+/**
+ * Get the time step counter for a timestamp
+ */
+export function getTimeStep(timestampMs: number = Date.now(), step: number = TOTP_STEP_SECONDS): number {
+  return Math.floor(timestampMs / 1000 / step)
+}
+
+/**
+ * Compute the HOTP value for a counter (RFC 4226, HMAC-SHA1)
+ */
+export function generateHOTP(secret: string, counter: number, digits: number = TOTP_DIGITS): string {
+  const counterBuffer = Buffer.alloc(8)
+  counterBuffer.writeBigUInt64BE(BigInt(counter))
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest()
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3]
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0')
+}
+
+/**
+ * Generate the TOTP code for a point in time
+ */
+export function generateTOTP(
+  secret: string,
+  timestampMs: number = Date.now(),
+  options: TOTPOptions = {}
+): string {
+  return generateHOTP(
+    secret,
+    getTimeStep(timestampMs, options.step),
+    options.digits
+  )
+}
+
+/**
+ * Verify a TOTP code, allowing for clock drift of `window` steps either way.
+ * Returns the matched time step (for replay protection) or null.
+ */
+export function verifyTOTP(
+  secret: string,
+  code: string,
+  options: TOTPOptions & { window?: number; timestampMs?: number } = {}
+): number | null {
+  const digits = options.digits ?? TOTP_DIGITS
+  const normalized = code.replace(/\s/g, '')
+
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) {
+    return null
+  }
+
+  const window = options.window ?? 1
+  const currentStep = getTimeStep(options.timestampMs ?? Date.now(), options.step)
+  const provided = Buffer.from(normalized)
+
+  for (let drift = -window; drift <= window; drift++) {
+    const candidateStep = currentStep + drift
+    const expected = Buffer.from(generateHOTP(secret, candidateStep, digits))
+
+    if (timingSafeEqual(expected, provided)) {
+      return candidateStep
+    }
+  }
+
+  return null
+}
+
+/**
+ * Build the otpauth:// URI understood by authenticator apps (and encoded in the QR code)
+ */
+export function buildOtpAuthURI(
+  secret: string,
+  accountName: string,
+  issuer: string,
+  options: TOTPOptions = {}
+): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(options.digits ?? TOTP_DIGITS),
+    period: String(options.step ?? TOTP_STEP_SECONDS),
+  })
+
+  return `otpauth://totp/${label}?${params.toString()}`
+}
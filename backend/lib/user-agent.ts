@@ -0,0 +1,176 @@
+// Lightweight User-Agent parsing for session device information.
+// Covers the browsers and operating systems we actually see; anything else
+// is reported as unknown rather than guessed.
+
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'bot' | 'unknown'
+
+export interface DeviceInfo {
+  browserName: string | null
+  browserVersion: string | null
+  osName: string | null
+  osVersion: string | null
+  deviceType: DeviceType
+  isBot: boolean
+}
+
+// Crawlers, monitoring tools and HTTP libraries, checked before browsers
+const BOT_PATTERNS: [RegExp, string][] = [
+  [/Googlebot/i, 'Googlebot'],
+  [/bingbot/i, 'Bingbot'],
+  [/DuckDuckBot/i, 'DuckDuckBot'],
+  [/YandexBot/i, 'YandexBot'],
+  [/Baiduspider/i, 'Baiduspider'],
+  [/facebookexternalhit/i, 'Facebook'],
+  [/Twitterbot/i, 'Twitterbot'],
+  [/Slackbot/i, 'Slackbot'],
+  [/HeadlessChrome/, 'Headless Chrome'],
+  [/curl\//i, 'curl'],
+  [/Wget\//i, 'Wget'],
+  [/python-requests|python-urllib|aiohttp/i, 'Python'],
+  [/PostmanRuntime/i, 'Postman'],
+  [/node-fetch|undici|axios/i, 'Node.js'],
+  [/bot\b|crawler|spider|slurp/i, 'Bot'],
+]
+
+// Order matters: most browsers also claim to be Chrome and/or Safari
+const BROWSER_PATTERNS: [RegExp, string][] = [
+  [/Edg(?:e|A|iOS)?\/([\d.]+)/, 'Edge'],
+  [/(?:OPR|Opera)\/([\d.]+)/, 'Opera'],
+  [/SamsungBrowser\/([\d.]+)/, 'Samsung Internet'],
+  [/(?:Firefox|FxiOS)\/([\d.]+)/, 'Firefox'],
+  [/(?:Chrome|CriOS)\/([\d.]+)/, 'Chrome'],
+  [/Version\/([\d.]+).*Safari\//, 'Safari'],
+  [/(?:MSIE |Trident\/.*rv:)([\d.]+)/, 'Internet Explorer'],
+]
+
+// Windows NT kernel versions to marketing names (Windows 11 still reports 10.0)
+const WINDOWS_VERSIONS: Record<string, string> = {
+  '10.0': '10',
+  '6.3': '8.1',
+  '6.2': '8',
+  '6.1': '7',
+}
+
+/**
+ * Detect the operating system and its version
+ */
+function parseOS(userAgent: string): { osName: string | null; osVersion: string | null } {
+  let match = userAgent.match(/(?:iPhone|iPad|iPod).*? OS (\d+(?:_\d+)*)/)
+  if (match) {
+    return { osName: 'iOS', osVersion: match[1].replace(/_/g, '.') }
+  }
+
+  match = userAgent.match(/Android (\d+(?:\.\d+)*)/)
+  if (match) {
+    return { osName: 'Android', osVersion: match[1] }
+  }
+
+  match = userAgent.match(/Windows NT (\d+\.\d+)/)
+  if (match) {
+    return { osName: 'Windows', osVersion: WINDOWS_VERSIONS[match[1]] || match[1] }
+  }
+
+  match = userAgent.match(/Mac OS X (\d+(?:[_.]\d+)*)/)
+  if (match) {
+    return { osName: 'macOS', osVersion: match[1].replace(/_/g, '.') }
+  }
+
+  if (/CrOS/.test(userAgent)) {
+    return { osName: 'Chrome OS', osVersion: null }
+  }
+
+  if (/Linux/.test(userAgent)) {
+    return { osName: 'Linux', osVersion: null }
+  }
+
+  return { osName: null, osVersion: null }
+}
+
+/**
+ * Detect the browser and its version
+ */
+function parseBrowser(userAgent: string): { browserName: string | null; browserVersion: string | null } {
+  for (const [pattern, name] of BROWSER_PATTERNS) {
+    const match = userAgent.match(pattern)
+    if (match) {
+      return { browserName: name, browserVersion: match[1] }
+    }
+  }
+
+  return { browserName: null, browserVersion: null }
+}
+
+/**
+ * Classify the device from the UA and the detected operating system
+ */
+function parseDeviceType(userAgent: string, osName: string | null): DeviceType {
+  if (/iPad|Tablet/.test(userAgent) || (osName === 'Android' && !/Mobile/.test(userAgent))) {
+    return 'tablet'
+  }
+
+  if (/Mobi|iPhone|iPod/.test(userAgent)) {
+    return 'mobile'
+  }
+
+  if (osName && ['Windows', 'macOS', 'Linux', 'Chrome OS'].includes(osName)) {
+    return 'desktop'
+  }
+
+  return 'unknown'
+}
+
+/**
+ * Parse a User-Agent header into structured device information
+ */
+export function parseUserAgent(userAgent: string | null | undefined): DeviceInfo {
+  if (!userAgent || userAgent === 'Unknown') {
+    return {
+      browserName: null,
+      browserVersion: null,
+      osName: null,
+      osVersion: null,
+      deviceType: 'unknown',
+      isBot: false,
+    }
+  }
+
+  const { osName, osVersion } = parseOS(userAgent)
+  const bot = BOT_PATTERNS.find(([pattern]) => pattern.test(userAgent))
+
+  if (bot) {
+    return {
+      browserName: bot[1],
+      browserVersion: null,
+      osName,
+      osVersion,
+      deviceType: 'bot',
+      isBot: true,
+    }
+  }
+
+  return {
+    ...parseBrowser(userAgent),
+    osName,
+    osVersion,
+    deviceType: parseDeviceType(userAgent, osName),
+    isBot: false,
+  }
+}
+
+/**
+ * Human-readable device label, e.g. "Chrome 126 on macOS 14.5"
+ */
+export function describeDevice(device: DeviceInfo): string {
+  const browser = device.browserName
+    ? [device.browserName, device.isBot ? null : device.browserVersion?.split('.')[0]].filter(Boolean).join(' ')
+    : null
+  const os = device.osName
+    ? [device.osName, device.osVersion].filter(Boolean).join(' ')
+    : null
+
+  if (browser && os) {
+    return `${browser} on ${os}`
+  }
+
+  return browser || os || 'Unknown device'
+}
@@ -1,4 +1,6 @@
 import { z } from 'zod'
+import { ORGANIZATION_ROLES } from './permissions'
+import { WEBHOOK_EVENT_TYPES } from './webhook-events'
 
 // User validation schemas
 export const userRegistrationSchema = z.object({
@@ -82,28 +84,101 @@ export const passkeyAuthInitSchema = z.object({
   email: z.string().email('Invalid email format')
 })
 
+export const passkeyAssertionSchema = z.object({
+  id: z.string(),
+  rawId: z.string(),
+  response: z.object({
+    clientDataJSON: z.string(),
+    authenticatorData: z.string(),
+    signature: z.string(),
+    userHandle: z.string().optional()
+  }),
+  type: z.literal('public-key')
+})
+
 export const passkeyAuthVerifySchema = z.object({
   email: z.string().email('Invalid email format'),
-  credential: z.object({
-    id: z.string(),
-    rawId: z.string(),
-    response: z.object({
-      clientDataJSON: z.string(),
-      authenticatorData: z.string(),
-      signature: z.string(),
-      userHandle: z.string().optional()
-    }),
-    type: z.literal('public-key')
-  })
+  credential: passkeyAssertionSchema
 })
 
 // Admin validation schemas
+// Locking without lockedUntil keeps the account locked until it is unlocked
 export const adminUserUpdateSchema = z.object({
-  role: z.enum(['USER', 'ADMIN']).optional(),
+  role: z.string().trim().min(1).max(50).optional(), // Name of an existing role
   isLocked: z.boolean().optional(),
-  lockedUntil: z.date().optional()
+  lockedUntil: z.coerce.date()
+    .refine(date => date > new Date(), 'Lock expiry must be in the future')
+    .nullable()
+    .optional(),
+  reason: z.string().trim().min(1).max(500).optional()
+}).refine(data => data.role !== undefined || data.isLocked !== undefined || data.lockedUntil !== undefined, {
+  message: 'Nothing to update',
+}).refine(data => !data.lockedUntil || data.isLocked !== false, {
+  message: 'lockedUntil cannot be set when unlocking',
+  path: ['lockedUntil'],
+}).refine(data => !data.reason || data.isLocked === true || !!data.lockedUntil, {
+  message: 'reason can only be given when locking',
+  path: ['reason'],
 })
 
+// Organization validation schemas
+const organizationRoleSchema = z.enum(ORGANIZATION_ROLES)
+
+export const organizationCreateSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be less than 100 characters')
+    .regex(/^[^<>]*$/, 'Name cannot contain angle brackets'),
+  slug: z.string()
+    .min(3, 'Slug must be at least 3 characters')
+    .max(50, 'Slug must be less than 50 characters')
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug can only contain lowercase letters, numbers, and single hyphens')
+})
+
+export const organizationUpdateSchema = organizationCreateSchema.pick({ name: true })
+
+export const organizationInviteSchema = z.object({
+  email: z.string()
+    .email('Invalid email format')
+    .toLowerCase()
+    .max(255, 'Email must be less than 255 characters'),
+  role: organizationRoleSchema.default('member')
+})
+
+export const organizationMemberUpdateSchema = z.object({
+  role: organizationRoleSchema
+})
+
+// organizationId null clears the active organization
+export const organizationSwitchSchema = z.object({
+  organizationId: z.string().min(1).nullable()
+})
+
+// Webhook endpoint schemas; plain http is only accepted outside production,
+// e.g. for a local receiver
+export const webhookEndpointSchema = z.object({
+  url: z.string()
+    .trim()
+    .url('Invalid URL')
+    .max(2048, 'URL must be less than 2048 characters')
+    .refine(value => {
+      const { protocol } = new URL(value)
+      return protocol === 'https:' || (protocol === 'http:' && process.env.NODE_ENV !== 'production')
+    }, 'URL must use https'),
+  description: z.string().trim().max(200, 'Description must be less than 200 characters').optional(),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1, 'At least one event is required')
+})
+
+// rotateSecret generates a new signing secret, returned in the response
+export const webhookEndpointUpdateSchema = webhookEndpointSchema
+  .extend({
+    description: z.string().trim().max(200, 'Description must be less than 200 characters').nullable(),
+    enabled: z.boolean(),
+    rotateSecret: z.literal(true)
+  })
+  .partial()
+
 // Generic validation helpers
 export const paginationSchema = z.object({
   page: z.coerce.number().min(1).default(1),
@@ -123,5 +198,8 @@ export type PasskeyRegistrationVerify = z.infer<typeof passkeyRegistrationVerify
 export type PasskeyAuthInit = z.infer<typeof passkeyAuthInitSchema>
 export type PasskeyAuthVerify = z.infer<typeof passkeyAuthVerifySchema>
 export type AdminUserUpdate = z.infer<typeof adminUserUpdateSchema>
+export type OrganizationCreate = z.infer<typeof organizationCreateSchema>
+export type OrganizationInvite = z.infer<typeof organizationInviteSchema>
+export type WebhookEndpointInput = z.infer<typeof webhookEndpointSchema>
 export type Pagination = z.infer<typeof paginationSchema>
 export type IdParam = z.infer<typeof idParamSchema>
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { randomBytes, createHash } from 'crypto'
+import { prisma } from './prisma'
+
+// Challenge configuration
+const CHALLENGE_TTL = 5 * 60 * 1000 // 5 minutes to complete a ceremony
+export const WEBAUTHN_SESSION_COOKIE = 'webauthn-session'
+
+export type WebAuthnCeremony = 'registration' | 'authentication' | 'reauthentication'
+
+// Registration and reauthentication are bound to the signed-in user;
+// authentication and passwordless sign-up (no user yet) to an anonymous cookie
+export type WebAuthnChallengeKey = { userId: string } | { sessionId: string }
+
+export interface PendingWebAuthnChallenge {
+  challenge: string
+  data: Record<string, string> | null // Ceremony context saved with the challenge
+}
+
+export class WebAuthnChallengeService {
+  /**
+   * Hash the anonymous ceremony id for database storage
+   */
+  private static hashSessionId(sessionId: string): string {
+    return createHash('sha256').update(sessionId).digest('hex')
+  }
+
+  /**
+   * Build the where clause identifying a ceremony's owner
+   */
+  private static keyWhere(ceremony: WebAuthnCeremony, key: WebAuthnChallengeKey) {
+    return 'userId' in key
+      ? { ceremony, userId: key.userId }
+      : { ceremony, sessionKey: this.hashSessionId(key.sessionId) }
+  }
+
+  /**
+   * Store a challenge, replacing any pending challenge for the same ceremony
+   */
+  static async storeChallenge(
+    ceremony: WebAuthnCeremony,
+    key: WebAuthnChallengeKey,
+    challenge: string,
+    data?: Record<string, string>
+  ): Promise<void> {
+    const where = this.keyWhere(ceremony, key)
+
+    await prisma.$transaction([
+      prisma.webAuthnChallenge.deleteMany({ where }),
+      prisma.webAuthnChallenge.create({
+        data: {
+          ...where,
+          challenge,
+          data: data ? JSON.stringify(data) : null,
+          expiresAt: new Date(Date.now() + CHALLENGE_TTL),
+        },
+      }),
+    ])
+  }
+
+  /**
+   * Take the pending challenge for a ceremony. Each challenge can be consumed once;
+   * returns null if there is none or it has expired.
+   */
+  static async consumeChallenge(
+    ceremony: WebAuthnCeremony,
+    key: WebAuthnChallengeKey
+  ): Promise<PendingWebAuthnChallenge | null> {
+    const where = this.keyWhere(ceremony, key)
+
+    const pending = await prisma.webAuthnChallenge.findFirst({
+      where,
+      orderBy: { createdAt: 'desc' },
+    })
+
+    if (!pending) {
+      return null
+    }
+
+    // Delete before use so concurrent verifications can't share a challenge
+    const deleted = await prisma.webAuthnChallenge.deleteMany({
+      where: { id: pending.id },
+    })
+
+    if (deleted.count !== 1 || pending.expiresAt < new Date()) {
+      return null
+    }
+
+    return {
+      challenge: pending.challenge,
+      data: pending.data ? JSON.parse(pending.data) : null,
+    }
+  }
+
+  /**
+   * Get the anonymous ceremony id from the request, or create a new one
+   */
+  static getSessionId(request: NextRequest): { sessionId: string; isNew: boolean } {
+    const existing = request.cookies.get(WEBAUTHN_SESSION_COOKIE)?.value
+
+    if (existing && /^[A-Za-z0-9_-]{32,64}$/.test(existing)) {
+      return { sessionId: existing, isNew: false }
+    }
+
+    return { sessionId: randomBytes(32).toString('base64url'), isNew: true }
+  }
+
+  /**
+   * Set the anonymous ceremony cookie on a response
+   */
+  static setSessionCookie(response: NextResponse, sessionId: string): void {
+    response.cookies.set(WEBAUTHN_SESSION_COOKIE, sessionId, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      maxAge: CHALLENGE_TTL / 1000,
+      path: '/api/auth/passkey',
+    })
+  }
+
+  /**
+   * Clear the anonymous ceremony cookie once the ceremony is over
+   */
+  static clearSessionCookie(response: NextResponse): void {
+    response.cookies.delete({ name: WEBAUTHN_SESSION_COOKIE, path: '/api/auth/passkey' })
+  }
+}
+
+// Export singleton instance
+export const webauthnChallengeService = WebAuthnChallengeService
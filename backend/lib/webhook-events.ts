@@ -0,0 +1,19 @@
+// Webhook event catalog. Kept free of imports so validators and clients can
+// use it without pulling in the delivery service.
+
+export const WEBHOOK_EVENT_TYPES = [
+  'user.registered',
+  'user.login',
+  'user.locked',
+  'user.unlocked',
+  'user.deleted',
+  'user.password_changed',
+  'user.role_changed',
+  'passkey.added',
+  'passkey.removed',
+] as const
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number]
+
+// Sent by the test endpoint only; endpoints cannot subscribe to it
+export const WEBHOOK_PING_EVENT = 'webhook.ping'
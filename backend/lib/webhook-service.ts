@@ -0,0 +1,526 @@
+import { createHmac, randomBytes } from 'crypto'
+import { prisma } from './prisma'
+import { deriveEncryptionKey, encrypt, decrypt } from './encryption'
+import { WEBHOOK_PING_EVENT, type WebhookEventType } from './webhook-events'
+import type { AuditEventType, AuditMetadata } from './audit-service'
+
+// Webhook configuration
+const WEBHOOK_SECRET_PREFIX = 'whsec_'
+const WEBHOOK_TIMEOUT = 10 * 1000 // Per delivery attempt
+const WEBHOOK_MAX_ATTEMPTS = 10
+const WEBHOOK_RETRY_BASE_DELAY = 60 * 1000 // Doubles after every failed attempt
+const WEBHOOK_RETRY_MAX_DELAY = 6 * 60 * 60 * 1000
+const WEBHOOK_BATCH_SIZE = 20 // Deliveries sent per processing run
+const WEBHOOK_ERROR_MAX_LENGTH = 500
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 200
+
+// Signing secrets are encrypted at rest with AES-256-GCM
+const WEBHOOK_ENCRYPTION_KEY = deriveEncryptionKey(
+  ['WEBHOOK_ENCRYPTION_KEY', 'JWT_SECRET', 'NEXTAUTH_SECRET'],
+  'fallback-webhook-key-change-in-production'
+)
+
+// Audit events that are published as webhook events
+const AUDIT_EVENT_WEBHOOKS: Partial<Record<AuditEventType, WebhookEventType>> = {
+  'account.created': 'user.registered',
+  'login.succeeded': 'user.login',
+  'account.locked': 'user.locked',
+  'account.unlocked': 'user.unlocked',
+  'account.deleted': 'user.deleted',
+  'password.changed': 'user.password_changed',
+  'password.reset': 'user.password_changed',
+  'role.changed': 'user.role_changed',
+  'passkey.added': 'passkey.added',
+  'passkey.removed': 'passkey.removed',
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
+export interface WebhookPayload {
+  id: string // Event ID; receivers can use it to ignore duplicates
+  type: string
+  createdAt: string
+  data: {
+    userId: string | null
+    actorId: string | null
+    metadata: AuditMetadata | null
+  }
+}
+
+export interface WebhookEndpointInfo {
+  id: string
+  url: string
+  description: string | null
+  events: string[]
+  enabled: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface WebhookDeliveryInfo {
+  id: string
+  endpointId: string
+  eventId: string
+  eventType: string
+  payload: WebhookPayload
+  status: WebhookDeliveryStatus
+  attempts: number
+  nextAttemptAt: Date | null
+  lastAttemptAt: Date | null
+  responseStatus: number | null
+  lastError: string | null
+  deliveredAt: Date | null
+  replayOfId: string | null
+  createdAt: Date
+}
+
+/**
+ * Publishes account events to admin-registered HTTP endpoints. Deliveries are
+ * queued in the database and retried with exponential backoff; each request
+ * is signed with the endpoint's secret.
+ */
+export class WebhookService {
+  private static processing = false
+  private static rerunRequested = false
+
+  private static encryptSecret(secret: string): string {
+    return encrypt(secret, WEBHOOK_ENCRYPTION_KEY)
+  }
+
+  private static decryptSecret(stored: string): string {
+    return decrypt(stored, WEBHOOK_ENCRYPTION_KEY)
+  }
+
+  private static toEndpointInfo(endpoint: {
+    id: string
+    url: string
+    description: string | null
+    events: string[]
+    enabled: boolean
+    createdAt: Date
+    updatedAt: Date
+  }): WebhookEndpointInfo {
+    return {
+      id: endpoint.id,
+      url: endpoint.url,
+      description: endpoint.description,
+      events: endpoint.events,
+      enabled: endpoint.enabled,
+      createdAt: endpoint.createdAt,
+      updatedAt: endpoint.updatedAt,
+    }
+  }
+
+  private static toDeliveryInfo(delivery: {
+    id: string
+    endpointId: string
+    eventId: string
+    eventType: string
+    payload: unknown
+    status: string
+    attempts: number
+    nextAttemptAt: Date | null
+    lastAttemptAt: Date | null
+    responseStatus: number | null
+    lastError: string | null
+    deliveredAt: Date | null
+    replayOfId: string | null
+    createdAt: Date
+  }): WebhookDeliveryInfo {
+    return {
+      id: delivery.id,
+      endpointId: delivery.endpointId,
+      eventId: delivery.eventId,
+      eventType: delivery.eventType,
+      payload: delivery.payload as WebhookPayload,
+      status: delivery.status as WebhookDeliveryStatus,
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.nextAttemptAt,
+      lastAttemptAt: delivery.lastAttemptAt,
+      responseStatus: delivery.responseStatus,
+      lastError: delivery.lastError,
+      deliveredAt: delivery.deliveredAt,
+      replayOfId: delivery.replayOfId,
+      createdAt: delivery.createdAt,
+    }
+  }
+
+  /**
+   * Signature header value for a payload: HMAC-SHA256 over "<timestamp>.<body>"
+   */
+  static sign(secret: string, timestamp: number, body: string): string {
+    return `v1=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+  }
+
+  /**
+   * Delay before the next attempt after the given number of failed attempts
+   */
+  static retryDelay(attempts: number): number {
+    return Math.min(WEBHOOK_RETRY_BASE_DELAY * 2 ** Math.max(attempts - 1, 0), WEBHOOK_RETRY_MAX_DELAY)
+  }
+
+  /**
+   * Register an endpoint. The signing secret is only returned here.
+   */
+  static async createEndpoint(options: {
+    url: string
+    description?: string
+    events: WebhookEventType[]
+    createdById: string
+  }): Promise<{ secret: string; endpoint: WebhookEndpointInfo }> {
+    const secret = `${WEBHOOK_SECRET_PREFIX}${randomBytes(32).toString('base64url')}`
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        url: options.url,
+        description: options.description,
+        events: Array.from(new Set(options.events)),
+        secret: this.encryptSecret(secret),
+        createdById: options.createdById,
+      },
+    })
+
+    return { secret, endpoint: this.toEndpointInfo(endpoint) }
+  }
+
+  static async listEndpoints(): Promise<WebhookEndpointInfo[]> {
+    const endpoints = await prisma.webhookEndpoint.findMany({ orderBy: { createdAt: 'desc' } })
+
+    return endpoints.map(endpoint => this.toEndpointInfo(endpoint))
+  }
+
+  static async getEndpoint(endpointId: string): Promise<WebhookEndpointInfo | null> {
+    const endpoint = await prisma.webhookEndpoint.findUnique({ where: { id: endpointId } })
+
+    return endpoint ? this.toEndpointInfo(endpoint) : null
+  }
+
+  /**
+   * Update an endpoint. With rotateSecret a new secret is generated and
+   * returned; deliveries already queued are signed with it too.
+   */
+  static async updateEndpoint(
+    endpointId: string,
+    changes: {
+      url?: string
+      description?: string | null
+      events?: WebhookEventType[]
+      enabled?: boolean
+      rotateSecret?: boolean
+    }
+  ): Promise<{ secret?: string; endpoint: WebhookEndpointInfo } | null> {
+    const existing = await prisma.webhookEndpoint.findUnique({ where: { id: endpointId } })
+
+    if (!existing) {
+      return null
+    }
+
+    const secret = changes.rotateSecret
+      ? `${WEBHOOK_SECRET_PREFIX}${randomBytes(32).toString('base64url')}`
+      : undefined
+
+    const endpoint = await prisma.webhookEndpoint.update({
+      where: { id: endpointId },
+      data: {
+        url: changes.url,
+        description: changes.description,
+        events: changes.events ? Array.from(new Set(changes.events)) : undefined,
+        enabled: changes.enabled,
+        secret: secret ? this.encryptSecret(secret) : undefined,
+      },
+    })
+
+    return { secret, endpoint: this.toEndpointInfo(endpoint) }
+  }
+
+  /**
+   * Delete an endpoint together with its delivery log
+   */
+  static async deleteEndpoint(endpointId: string): Promise<boolean> {
+    const result = await prisma.webhookEndpoint.deleteMany({ where: { id: endpointId } })
+
+    return result.count > 0
+  }
+
+  /**
+   * Queue an audit event for every enabled endpoint subscribed to it. Audit
+   * events without a webhook counterpart are ignored.
+   */
+  static async publishAuditEvent(event: {
+    id: string
+    type: AuditEventType
+    actorId: string | null
+    targetId: string | null
+    metadata?: AuditMetadata
+    createdAt: Date
+  }): Promise<void> {
+    const eventType = AUDIT_EVENT_WEBHOOKS[event.type]
+
+    if (!eventType) {
+      return
+    }
+
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { enabled: true, events: { has: eventType } },
+      select: { id: true },
+    })
+
+    if (endpoints.length === 0) {
+      return
+    }
+
+    const payload: WebhookPayload = {
+      id: event.id,
+      type: eventType,
+      createdAt: event.createdAt.toISOString(),
+      data: {
+        userId: event.targetId,
+        actorId: event.actorId,
+        metadata: event.metadata || null,
+      },
+    }
+
+    await prisma.webhookDelivery.createMany({
+      data: endpoints.map(endpoint => ({
+        endpointId: endpoint.id,
+        eventId: event.id,
+        eventType,
+        payload: payload as object,
+        nextAttemptAt: event.createdAt,
+      })),
+    })
+
+    this.processInBackground()
+  }
+
+  /**
+   * Queue a ping to a single endpoint, regardless of its subscriptions
+   */
+  static async sendPing(endpointId: string): Promise<WebhookDeliveryInfo | null> {
+    const endpoint = await prisma.webhookEndpoint.findUnique({ where: { id: endpointId } })
+
+    if (!endpoint) {
+      return null
+    }
+
+    const eventId = `ping_${randomBytes(12).toString('hex')}`
+    const now = new Date()
+    const payload: WebhookPayload = {
+      id: eventId,
+      type: WEBHOOK_PING_EVENT,
+      createdAt: now.toISOString(),
+      data: { userId: null, actorId: null, metadata: null },
+    }
+
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        endpointId,
+        eventId,
+        eventType: WEBHOOK_PING_EVENT,
+        payload: payload as object,
+        nextAttemptAt: now,
+      },
+    })
+
+    this.processInBackground()
+
+    return this.toDeliveryInfo(delivery)
+  }
+
+  /**
+   * Queue a delivery again with the same event ID and payload. Returns null
+   * when the delivery does not belong to the endpoint.
+   */
+  static async replayDelivery(endpointId: string, deliveryId: string): Promise<WebhookDeliveryInfo | null> {
+    const original = await prisma.webhookDelivery.findUnique({ where: { id: deliveryId } })
+
+    if (!original || original.endpointId !== endpointId) {
+      return null
+    }
+
+    const replay = await prisma.webhookDelivery.create({
+      data: {
+        endpointId,
+        eventId: original.eventId,
+        eventType: original.eventType,
+        payload: original.payload as object,
+        nextAttemptAt: new Date(),
+        replayOfId: original.id,
+      },
+    })
+
+    this.processInBackground()
+
+    return this.toDeliveryInfo(replay)
+  }
+
+  /**
+   * Delivery log of an endpoint, newest first. Pass nextCursor back as cursor
+   * for the next page.
+   */
+  static async listDeliveries(
+    endpointId: string,
+    query: { status?: WebhookDeliveryStatus; cursor?: string; limit?: number } = {}
+  ): Promise<{ deliveries: WebhookDeliveryInfo[]; nextCursor: string | null }> {
+    const limit = Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: {
+        endpointId,
+        ...(query.status ? { status: query.status } : {}),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+    })
+
+    const page = deliveries.slice(0, limit)
+
+    return {
+      deliveries: page.map(delivery => this.toDeliveryInfo(delivery)),
+      nextCursor: deliveries.length > limit ? page[page.length - 1].id : null,
+    }
+  }
+
+  /**
+   * Send a single delivery and record the outcome. Failed attempts are
+   * rescheduled until WEBHOOK_MAX_ATTEMPTS is reached.
+   */
+  static async attemptDelivery(deliveryId: string): Promise<WebhookDeliveryStatus | null> {
+    const now = new Date()
+
+    // Push the due time past the request timeout first, so a concurrent
+    // processing run does not send the same delivery twice
+    const claimed = await prisma.webhookDelivery.updateMany({
+      where: { id: deliveryId, status: 'pending', nextAttemptAt: { lte: now } },
+      data: { nextAttemptAt: new Date(now.getTime() + 2 * WEBHOOK_TIMEOUT) },
+    })
+
+    if (claimed.count === 0) {
+      return null
+    }
+
+    const delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { endpoint: true },
+    })
+
+    if (!delivery) {
+      return null
+    }
+
+    const body = JSON.stringify(delivery.payload)
+    const timestamp = Math.floor(now.getTime() / 1000)
+    const attempts = delivery.attempts + 1
+    let responseStatus: number | null = null
+    let error: string | null = null
+
+    if (!delivery.endpoint.enabled) {
+      error = 'Endpoint disabled'
+    } else {
+      try {
+        const response = await fetch(delivery.endpoint.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'NextAuthApp-Webhooks/1.0',
+            'X-Webhook-Id': delivery.eventId,
+            'X-Webhook-Event': delivery.eventType,
+            'X-Webhook-Timestamp': timestamp.toString(),
+            'X-Webhook-Signature': this.sign(this.decryptSecret(delivery.endpoint.secret), timestamp, body),
+          },
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+        })
+
+        responseStatus = response.status
+        if (!response.ok) {
+          error = `HTTP ${response.status}`
+        }
+
+        // Release the connection; the response body is not used
+        await response.body?.cancel().catch(() => undefined)
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err)
+      }
+    }
+
+    const succeeded = error === null
+    const status: WebhookDeliveryStatus = succeeded
+      ? 'succeeded'
+      : attempts >= WEBHOOK_MAX_ATTEMPTS || !delivery.endpoint.enabled ? 'failed' : 'pending'
+
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status,
+        attempts,
+        lastAttemptAt: now,
+        responseStatus,
+        lastError: error ? error.slice(0, WEBHOOK_ERROR_MAX_LENGTH) : null,
+        deliveredAt: succeeded ? new Date() : null,
+        nextAttemptAt: status === 'pending' ? new Date(Date.now() + this.retryDelay(attempts)) : null,
+      },
+    })
+
+    if (!succeeded) {
+      console.warn(`Webhook delivery ${delivery.id} to ${delivery.endpoint.url} failed (attempt ${attempts}): ${error}`)
+    }
+
+    return status
+  }
+
+  /**
+   * Send deliveries that are due. Called after events are queued and from
+   * the admin API, which a scheduler can call with an API key to drive retries.
+   */
+  static async processDueDeliveries(limit: number = WEBHOOK_BATCH_SIZE): Promise<{ processed: number; succeeded: number }> {
+    const due = await prisma.webhookDelivery.findMany({
+      where: { status: 'pending', nextAttemptAt: { lte: new Date() } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+      select: { id: true },
+    })
+
+    let processed = 0
+    let succeeded = 0
+
+    for (const { id } of due) {
+      const status = await this.attemptDelivery(id)
+      if (status) {
+        processed++
+        if (status === 'succeeded') {
+          succeeded++
+        }
+      }
+    }
+
+    return { processed, succeeded }
+  }
+
+  /**
+   * Start a processing run without waiting for it. Runs do not overlap within
+   * a process; deliveries queued during a run get another run afterwards.
+   */
+  private static processInBackground(): void {
+    if (this.processing) {
+      this.rerunRequested = true
+      return
+    }
+
+    this.processing = true
+    this.rerunRequested = false
+    this.processDueDeliveries()
+      .catch(error => console.error('Webhook processing failed:', error))
+      .finally(() => {
+        this.processing = false
+        if (this.rerunRequested) {
+          this.processInBackground()
+        }
+      })
+  }
+}
+
+// Export singleton instance
+export const webhookService = WebhookService
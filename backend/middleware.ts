@@ -2,7 +2,7 @@ import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
 import { corsMiddleware } from './middlewares/cors'
 import { SecurityMiddleware } from './middlewares/security'
-import { RateLimiter, RATE_LIMIT_CONFIGS } from './middlewares/rate-limit'
+import { RateLimiter, RATE_LIMIT_CONFIGS, type RateLimitConfig } from './middlewares/rate-limit'
 import { ApiResponseHandler } from './lib/api-response'
 
 // Initialize middleware instances
@@ -32,10 +32,12 @@ async function enhancedMiddleware(request: NextRequest) {
     return securityResponse
   }
   
-  // Apply rate limiting based on endpoint
-  const rateLimitConfig = getRateLimitConfig(pathname)
-  if (rateLimitConfig) {
-    const identifier = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+  // Apply rate limiting based on endpoint. Limits that only count failures are
+  // left to the route handlers, which know whether the attempt succeeded.
+  const rateLimitTier = getRateLimitTier(pathname)
+  const rateLimitConfig: RateLimitConfig | null = rateLimitTier && RATE_LIMIT_CONFIGS[rateLimitTier]
+  if (rateLimitTier && rateLimitConfig && !rateLimitConfig.skipSuccessfulRequests) {
+    const identifier = `middleware_${rateLimitTier.toLowerCase()}`
     const rateLimitResult = await RateLimiter.checkRateLimit(request, identifier, rateLimitConfig)
     
     if (!rateLimitResult.allowed) {
@@ -64,46 +66,49 @@ async function enhancedMiddleware(request: NextRequest) {
   return security.applySecurityHeaders(request, corsResponse)
 }
 
-// Get appropriate rate limit configuration based on pathname
-function getRateLimitConfig(pathname: string) {
+// Get appropriate rate limit tier based on pathname
+function getRateLimitTier(pathname: string): keyof typeof RATE_LIMIT_CONFIGS | null {
   // Authentication endpoints
-  if (pathname.includes('/api/auth/login')) {
-    return RATE_LIMIT_CONFIGS.AUTH_LOGIN
+  if (pathname.includes('/api/auth/login') || pathname.includes('/api/auth/recovery-login')) {
+    return 'AUTH_LOGIN'
   }
   if (pathname.includes('/api/auth/register')) {
-    return RATE_LIMIT_CONFIGS.AUTH_REGISTER
+    return 'AUTH_REGISTER'
   }
   if (pathname.includes('/api/auth/forgot-password')) {
-    return RATE_LIMIT_CONFIGS.AUTH_FORGOT_PASSWORD
+    return 'AUTH_FORGOT_PASSWORD'
+  }
+  if (pathname.includes('/api/auth/reset-password')) {
+    return 'AUTH_CHANGE_PASSWORD'
   }
   if (pathname.includes('/api/auth/profile')) {
-    return RATE_LIMIT_CONFIGS.AUTH_PROFILE
+    return 'AUTH_PROFILE'
   }
   if (pathname.includes('/api/auth/logout')) {
-    return RATE_LIMIT_CONFIGS.AUTH_LOGOUT
+    return 'AUTH_LOGOUT'
   }
   if (pathname.includes('/api/auth/refresh')) {
-    return RATE_LIMIT_CONFIGS.AUTH_REFRESH
+    return 'AUTH_REFRESH'
   }
   
   // Admin endpoints
   if (pathname.includes('/api/admin')) {
-    return RATE_LIMIT_CONFIGS.API_ADMIN
+    return 'API_ADMIN'
   }
   
   // Health check endpoints
   if (pathname.includes('/api/health') || pathname.includes('/api/status')) {
-    return RATE_LIMIT_CONFIGS.API_HEALTH_CHECK
+    return 'API_HEALTH_CHECK'
   }
   
   // Profile update endpoints
   if (pathname.includes('/api/profile') && pathname.includes('PUT')) {
-    return RATE_LIMIT_CONFIGS.API_PROFILE_UPDATE
+    return 'API_PROFILE_UPDATE'
   }
   
   // General API endpoints
   if (pathname.startsWith('/api/')) {
-    return RATE_LIMIT_CONFIGS.API_GENERAL
+    return 'API_GENERAL'
   }
   
   return null
@@ -112,5 +117,7 @@ function getRateLimitConfig(pathname: string) {
 export default enhancedMiddleware
 
 export const config = {
+  // Node.js runtime so the rate limiter can reach a shared store (e.g. Redis)
+  runtime: 'nodejs',
   matcher: ["/dashboard/:path*", "/admin/:path*", "/api/((?!health|test|status|auth/passkey).)*"], // protect dashboard, admin routes and handle CORS for API routes, allow passkey endpoints, root path is public
 }
@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { jwtService, type JWTClaims } from '../lib/jwt-service'
 import { sessionService } from '../lib/session-service'
+import { permissionService } from '../lib/permission-service'
+import { apiKeyService } from '../lib/api-key-service'
+import { hasPermissions, type PermissionName } from '../lib/permissions'
 import { prisma } from '../lib/prisma'
+import { getClientIP } from '../lib/client-ip'
+import { ApiResponseHandler } from '../lib/api-response'
+import { RateLimiter, RATE_LIMIT_CONFIGS } from './rate-limit'
 
 export interface AuthContext {
   user: {
@@ -9,26 +15,42 @@ export interface AuthContext {
     email: string
     username: string
     role: string
+    permissions: string[]
+    emailVerified: boolean
   }
   session?: {
     id: string
     sessionToken: string
-    deviceInfo?: string
+    deviceType: string
     ipAddress?: string
   }
-  token: JWTClaims
+  impersonator?: {
+    id: string
+    username: string
+  }
+  apiKey?: {
+    id: string
+    name: string
+    scopes: string[]
+  }
+  token?: JWTClaims // Absent when authenticated with an API key
 }
 
 export interface AuthMiddlewareOptions {
   requireAuth?: boolean
-  requiredRoles?: string[]
+  requiredPermissions?: PermissionName[]
   requireCSRF?: boolean
   allowRefreshToken?: boolean
+  requireVerifiedEmail?: boolean
 }
 
+// Methods an API key without the write scope may use
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
 export class AuthMiddleware {
   /**
-   * Extract token from request (Authorization header or cookie)
+   * Extract token from request (Authorization header or cookie). The bearer
+   * token may also be an API key, see lib/api-key-service.
    */
   public static extractToken(request: NextRequest): string | null {
     // Try Authorization header first
@@ -37,6 +59,12 @@ export class AuthMiddleware {
       return authHeader.substring(7)
     }
 
+    // API keys may also be sent on their own header
+    const apiKeyHeader = request.headers.get('x-api-key')
+    if (apiKeyHeader) {
+      return apiKeyHeader
+    }
+
     // Try session cookie
     const sessionToken = sessionService.getSessionTokenFromRequest(request)
     if (sessionToken) {
@@ -53,18 +81,10 @@ export class AuthMiddleware {
   }
 
   /**
-   * Get client IP address
+   * Get client IP address (see lib/client-ip for trusted proxy configuration)
    */
   public static getClientIP(request: NextRequest): string {
-    const forwarded = request.headers.get('x-forwarded-for')
-    const realIP = request.headers.get('x-real-ip')
-    const clientIP = request.headers.get('x-client-ip')
-    
-    if (forwarded) {
-      return forwarded.split(',')[0].trim()
-    }
-    
-    return realIP || clientIP || 'unknown'
+    return getClientIP(request)
   }
 
   /**
@@ -94,36 +114,85 @@ export class AuthMiddleware {
         }
       }
 
-      // Verify JWT token
-      const verificationResult = await jwtService.verifyToken(token)
-      
-      if (!verificationResult.valid || !verificationResult.payload) {
-        return {
-          success: false,
-          error: verificationResult.error || 'Invalid or expired token',
-          status: 401,
+      let payload: JWTClaims | undefined
+      let apiKey: AuthContext['apiKey']
+      let userId: string
+
+      if (apiKeyService.isApiKey(token)) {
+        const verifiedKey = await apiKeyService.verifyKey(token, { ipAddress: this.getClientIP(request) })
+
+        if (!verifiedKey) {
+          return {
+            success: false,
+            error: 'Invalid, expired or revoked API key',
+            status: 401,
+          }
         }
-      }
 
-      const payload = verificationResult.payload
+        // Keys without the write scope can only read
+        if (!verifiedKey.scopes.includes('write') && !SAFE_METHODS.includes(request.method)) {
+          return {
+            success: false,
+            error: 'API key does not have the write scope',
+            status: 403,
+          }
+        }
 
-      // Check token type restrictions
-      if (!options.allowRefreshToken && payload.tokenType === 'refresh') {
-        return {
-          success: false,
-          error: 'Refresh token not allowed for this endpoint',
-          status: 401,
+        apiKey = { id: verifiedKey.id, name: verifiedKey.name, scopes: verifiedKey.scopes }
+        userId = verifiedKey.userId
+      } else {
+        // Verify JWT token
+        const verificationResult = await jwtService.verifyToken(token)
+
+        if (!verificationResult.valid || !verificationResult.payload) {
+          return {
+            success: false,
+            error: verificationResult.error || 'Invalid or expired token',
+            status: 401,
+          }
+        }
+
+        payload = verificationResult.payload
+
+        // Check token type restrictions
+        if (!options.allowRefreshToken && payload.tokenType === 'refresh') {
+          return {
+            success: false,
+            error: 'Refresh token not allowed for this endpoint',
+            status: 401,
+          }
         }
+
+        // MFA challenge tokens only prove the first factor
+        if (payload.tokenType === 'mfa_challenge') {
+          return {
+            success: false,
+            error: 'Multi-factor authentication not completed',
+            status: 401,
+          }
+        }
+
+        // Magic link tokens are only exchanged at /api/auth/magic-link/verify
+        if (payload.tokenType === 'magic_link') {
+          return {
+            success: false,
+            error: 'Magic link token not allowed for this endpoint',
+            status: 401,
+          }
+        }
+
+        userId = payload.sub
       }
 
       // Get user from database
       const user = await prisma.user.findUnique({
-        where: { id: payload.sub },
+        where: { id: userId },
         select: {
           id: true,
           email: true,
           username: true,
           role: true,
+          emailVerifiedAt: true,
           isLocked: true,
           lockedUntil: true,
         },
@@ -153,19 +222,34 @@ export class AuthMiddleware {
             data: {
               isLocked: false,
               lockedUntil: null,
+              adminLockedAt: null,
+              lockReason: null,
             },
           })
         }
       }
 
-      // Check role requirements
-      if (options.requiredRoles && options.requiredRoles.length > 0) {
-        if (!options.requiredRoles.includes(user.role)) {
-          return {
-            success: false,
-            error: 'Insufficient permissions',
-            status: 403,
-          }
+      // Check permission requirements. API keys only carry the permissions
+      // they were scoped to that the role still grants.
+      const rolePermissions = await permissionService.getRolePermissions(user.role)
+      const permissions = apiKey
+        ? rolePermissions.filter(permission => apiKey.scopes.includes(permission))
+        : rolePermissions
+
+      if (options.requiredPermissions && !hasPermissions(permissions, options.requiredPermissions)) {
+        return {
+          success: false,
+          error: 'Insufficient permissions',
+          status: 403,
+        }
+      }
+
+      // Check email verification requirement
+      if (options.requireVerifiedEmail && !user.emailVerifiedAt) {
+        return {
+          success: false,
+          error: 'Email address must be verified',
+          status: 403,
         }
       }
 
@@ -180,7 +264,8 @@ export class AuthMiddleware {
 
       // Validate session if sessionId is present
       let sessionData = undefined
-      if (payload.sessionId) {
+      let sessionImpersonatorId: string | null = null
+      if (payload?.sessionId) {
         const session = await prisma.session.findUnique({
           where: {
             id: payload.sessionId,
@@ -188,16 +273,49 @@ export class AuthMiddleware {
           },
         })
 
-        if (session && session.expires > new Date()) {
+        // Tokens issued for a session stop working as soon as it is revoked
+        if (!session) {
+          return {
+            success: false,
+            error: 'Session has been revoked',
+            status: 401,
+          }
+        }
+
+        sessionImpersonatorId = session.impersonatorId
+
+        if (session.expires > new Date()) {
           sessionData = {
             id: session.id,
             sessionToken: session.sessionToken,
-            deviceInfo: session.deviceInfo || undefined,
+            deviceType: session.deviceType,
             ipAddress: session.ipAddress || undefined,
           }
         }
       }
 
+      // Impersonation tokens only work within their own session, and only
+      // while the impersonating admin may still impersonate
+      let impersonator = undefined
+      if (payload?.act) {
+        const admin = sessionImpersonatorId && sessionImpersonatorId === payload.act.sub
+          ? await prisma.user.findUnique({
+              where: { id: payload.act.sub },
+              select: { id: true, username: true, role: true },
+            })
+          : null
+
+        if (!admin || !await permissionService.roleHasPermissions(admin.role, ['users:impersonate'])) {
+          return {
+            success: false,
+            error: 'Impersonation is no longer valid',
+            status: 401,
+          }
+        }
+
+        impersonator = { id: admin.id, username: admin.username }
+      }
+
       // Create auth context
       const context: AuthContext = {
         user: {
@@ -205,8 +323,12 @@ export class AuthMiddleware {
           email: user.email,
           username: user.username,
           role: user.role,
+          permissions,
+          emailVerified: !!user.emailVerifiedAt,
         },
         session: sessionData,
+        impersonator,
+        apiKey,
         token: payload,
       }
 
@@ -221,6 +343,71 @@ export class AuthMiddleware {
     }
   }
 
+  /**
+   * Forbidden response for operations an admin may not perform while
+   * impersonating a user (credential changes, account deletion); null otherwise
+   */
+  static rejectImpersonation(auth: { impersonator?: AuthContext['impersonator'] }): NextResponse | null {
+    if (!auth.impersonator) {
+      return null
+    }
+
+    return ApiResponseHandler.error(
+      'IMPERSONATION_FORBIDDEN',
+      'This action is not available while impersonating a user',
+      403
+    )
+  }
+
+  /**
+   * Forbidden response for operations that API keys may not perform
+   * (credential and API key management); null otherwise
+   */
+  static rejectApiKey(auth: { apiKey?: AuthContext['apiKey'] }): NextResponse | null {
+    if (!auth.apiKey) {
+      return null
+    }
+
+    return ApiResponseHandler.error(
+      'API_KEY_FORBIDDEN',
+      'This action requires signing in; API keys cannot perform it',
+      403
+    )
+  }
+
+  /**
+   * Rate limit an admin request and require a user holding the given permission;
+   * returns the error response to send, or the authenticated user
+   */
+  static async authorizeAdmin(request: NextRequest, permission: PermissionName) {
+    const rateLimitResult = await RateLimiter.checkRateLimit(
+      request,
+      'admin',
+      RATE_LIMIT_CONFIGS.API_ADMIN
+    )
+
+    if (!rateLimitResult.allowed) {
+      return {
+        response: ApiResponseHandler.rateLimitExceeded(
+          Math.ceil((rateLimitResult.resetTime.getTime() - Date.now()) / 1000),
+          'Too many admin requests'
+        ),
+      }
+    }
+
+    const authResult = await AuthMiddleware.validateAuth(request, { requiredPermissions: [permission] })
+
+    if (!authResult.success) {
+      return {
+        response: authResult.status === 403
+          ? ApiResponseHandler.forbidden('Insufficient permissions')
+          : ApiResponseHandler.unauthorized('Authentication required'),
+      }
+    }
+
+    return { user: authResult.context.user }
+  }
+
   /**
    * Middleware wrapper for API routes
    */
@@ -329,8 +516,9 @@ export class AuthMiddleware {
     if (recentFailures >= maxFailedAttempts) {
       const lockUntil = new Date(Date.now() + lockDurationMs)
       
-      await prisma.user.update({
-        where: { id: userId },
+      // An admin lock already covers the account and must keep its own expiry
+      await prisma.user.updateMany({
+        where: { id: userId, adminLockedAt: null },
         data: {
           isLocked: true,
           lockedUntil: lockUntil,
@@ -367,14 +555,16 @@ export class AuthMiddleware {
 }
 
 // Wrapper function to match expected interface
-export async function authMiddleware(request: NextRequest) {
-  const result = await AuthMiddleware.validateAuth(request)
+export async function authMiddleware(request: NextRequest, options: AuthMiddlewareOptions = {}) {
+  const result = await AuthMiddleware.validateAuth(request, options)
   
   if (result.success) {
     return {
       authenticated: true,
       user: result.context.user,
       session: result.context.session,
+      impersonator: result.context.impersonator,
+      apiKey: result.context.apiKey,
       token: result.context.token
     }
   } else {
@@ -391,5 +581,9 @@ authMiddleware.extractToken = AuthMiddleware.extractToken
 authMiddleware.addSecurityHeaders = AuthMiddleware.addSecurityHeaders
 authMiddleware.getClientIP = AuthMiddleware.getClientIP
 authMiddleware.checkAndLockUser = AuthMiddleware.checkAndLockUser
+authMiddleware.logAuthAttempt = AuthMiddleware.logAuthAttempt
 authMiddleware.withAuth = AuthMiddleware.withAuth
+authMiddleware.rejectImpersonation = AuthMiddleware.rejectImpersonation
+authMiddleware.rejectApiKey = AuthMiddleware.rejectApiKey
+authMiddleware.authorizeAdmin = AuthMiddleware.authorizeAdmin
 authMiddleware.validateAuth = AuthMiddleware.validateAuth
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { isIPInRange, parseCIDR, type IPRange } from '../lib/ip-address'
 
 // CORS configuration interface
 export interface CorsConfig {
@@ -68,6 +69,27 @@ const CORS_CONFIGS = {
   }
 }
 
+const DEFAULT_PORTS: Record<string, string> = { http: '80', https: '443' }
+
+/**
+ * Split an origin whose host is an IP address or CIDR block, e.g.
+ * "http://127.0.0.1:3000", "http://192.168.1.0/24:3000" or "https://[fd00::/8]"
+ */
+function parseIPOrigin(origin: string): { protocol: string; range: IPRange; port: string } | null {
+  const match = origin.trim().match(/^(https?):\/\/(?:\[([^\]]+)\]|([\d.]+(?:\/\d{1,2})?))(?::(\d{1,5}))?\/?$/i)
+  if (!match) {
+    return null
+  }
+
+  const range = parseCIDR(match[2] || match[3])
+  if (!range) {
+    return null
+  }
+
+  const protocol = match[1].toLowerCase()
+  return { protocol, range, port: match[4] || DEFAULT_PORTS[protocol] }
+}
+
 export class CorsMiddleware {
   private config: CorsConfig
 
@@ -197,12 +219,35 @@ export class CorsMiddleware {
     }
 
     if (Array.isArray(this.config.allowedOrigins)) {
-      return this.config.allowedOrigins.includes(origin)
+      return this.config.allowedOrigins.includes(origin) ||
+        this.isIPOriginAllowed(origin, this.config.allowedOrigins)
     }
 
     return false
   }
 
+  /**
+   * Match an origin with an IP host against allowed origins with IP or CIDR
+   * hosts, comparing addresses in canonical form (so "http://[::ffff:127.0.0.1]"
+   * matches "http://127.0.0.1")
+   */
+  private isIPOriginAllowed(origin: string, allowedOrigins: string[]): boolean {
+    const requested = parseIPOrigin(origin)
+
+    // A request origin is a single address, never a block
+    if (!requested || requested.range.prefix !== requested.range.bytes.length * 8) {
+      return false
+    }
+
+    return allowedOrigins.some(allowed => {
+      const pattern = parseIPOrigin(allowed)
+      return !!pattern &&
+        pattern.protocol === requested.protocol &&
+        pattern.port === requested.port &&
+        isIPInRange(requested.range, pattern.range)
+    })
+  }
+
   /**
    * Validate CORS request
    */
@@ -1,9 +1,20 @@
 import { NextRequest } from 'next/server'
 import { prisma } from '../lib/prisma'
+import { getRateLimitStore, type RateLimitStore } from '../lib/rate-limit-store'
+import { ipReputationService, type IPReputation } from '../lib/ip-reputation-service'
+import { canonicalizeIP } from '../lib/ip-address'
+import { getClientIP } from '../lib/client-ip'
+
+// fixed-window: counter reset every windowMs
+// sliding-window-log: at most maxAttempts within any windowMs
+// token-bucket: bursts of up to maxAttempts, refilled at refillRate
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window-log' | 'token-bucket'
 
 export interface RateLimitConfig {
+  algorithm?: RateLimitAlgorithm // Defaults to fixed-window
   windowMs: number // Time window in milliseconds
-  maxAttempts: number // Maximum attempts per window
+  maxAttempts: number // Maximum attempts per window (bucket size for token-bucket)
+  refillRate?: number // Tokens added per second (token-bucket); defaults to maxAttempts per windowMs
   blockDurationMs?: number // How long to block after exceeding limit
   skipSuccessfulRequests?: boolean // Don't count successful requests
   keyGenerator?: (request: NextRequest) => string // Custom key generator
@@ -12,7 +23,7 @@ export interface RateLimitConfig {
 export interface RateLimitResult {
   allowed: boolean
   remaining: number
-  resetTime: Date
+  resetTime: Date // When remaining next goes up, or when a block ends
   totalHits: number
   isBlocked?: boolean
   blockExpiresAt?: Date
@@ -22,6 +33,7 @@ export interface RateLimitResult {
 export const RATE_LIMIT_CONFIGS = {
   // Critical Authentication endpoints (Tier 1 - Most Restrictive)
   AUTH_LOGIN: {
+    algorithm: 'sliding-window-log',
     windowMs: 15 * 60 * 1000, // 15 minutes
     maxAttempts: 5,
     blockDurationMs: 30 * 60 * 1000, // 30 minutes block
@@ -39,6 +51,15 @@ export const RATE_LIMIT_CONFIGS = {
     blockDurationMs: 2 * 60 * 60 * 1000, // 2 hours block
     skipSuccessfulRequests: true,
   },
+  AUTH_MAGIC_LINK: {
+    windowMs: 60 * 60 * 1000, // 1 hour
+    maxAttempts: 5,
+    blockDurationMs: 60 * 60 * 1000, // 1 hour block
+  },
+  AUTH_MAGIC_LINK_EMAIL: { // Keyed by email address rather than IP
+    windowMs: 60 * 60 * 1000, // 1 hour
+    maxAttempts: 3,
+  },
   AUTH_CHANGE_PASSWORD: {
     windowMs: 60 * 60 * 1000, // 1 hour
     maxAttempts: 5,
@@ -52,8 +73,10 @@ export const RATE_LIMIT_CONFIGS = {
     maxAttempts: 10,
   },
   AUTH_REFRESH: {
+    algorithm: 'token-bucket',
     windowMs: 15 * 60 * 1000, // 15 minutes
-    maxAttempts: 20,
+    maxAttempts: 10, // Burst
+    refillRate: 20 / (15 * 60), // 20 tokens per 15 minutes
   },
   AUTH_PROFILE: {
     windowMs: 15 * 60 * 1000, // 15 minutes
@@ -85,8 +108,10 @@ export const RATE_LIMIT_CONFIGS = {
     maxAttempts: 10,
   },
   API_READ_ONLY: {
+    algorithm: 'token-bucket',
     windowMs: 15 * 60 * 1000, // 15 minutes
-    maxAttempts: 200,
+    maxAttempts: 50, // Burst
+    refillRate: 200 / (15 * 60), // 200 tokens per 15 minutes
   },
   API_HEALTH_CHECK: {
     windowMs: 1 * 60 * 1000, // 1 minute
@@ -114,15 +139,6 @@ export const RATE_LIMIT_CONFIGS = {
   },
 } as const
 
-// IP reputation tracking
-interface IPReputation {
-  score: number // 0-100, lower is worse
-  lastViolation?: number
-  violationCount: number
-  whitelisted: boolean
-  blacklisted: boolean
-}
-
 // Enhanced rate limit result
 interface EnhancedRateLimitResult extends RateLimitResult {
   remainingTime?: number
@@ -131,19 +147,9 @@ interface EnhancedRateLimitResult extends RateLimitResult {
 }
 
 export class RateLimiter {
-  private static ipReputations: Map<string, IPReputation> = new Map()
-  private static whitelistedIPs: Set<string> = new Set()
-  private static blacklistedIPs: Set<string> = new Set()
-
-  static {
-    // Initialize whitelisted IPs from environment
-    const whitelisted = process.env.WHITELISTED_IPS?.split(',') || []
-    whitelisted.forEach(ip => this.whitelistedIPs.add(ip.trim()))
-    
-    // Initialize blacklisted IPs from environment
-    const blacklisted = process.env.BLACKLISTED_IPS?.split(',') || []
-    blacklisted.forEach(ip => this.blacklistedIPs.add(ip.trim()))
-  }
+  // Config last checked for each identifier, so recordAttempt can find the key
+  private static configs: Map<string, RateLimitConfig> = new Map()
+
   /**
    * Generate rate limit key from request
    */
@@ -162,58 +168,27 @@ export class RateLimiter {
   }
 
   /**
-   * Get client IP address
+   * Get client IP address (see lib/client-ip for trusted proxy configuration)
    */
   private static getClientIP(request: NextRequest): string {
-    const forwarded = request.headers.get('x-forwarded-for')
-    const realIP = request.headers.get('x-real-ip')
-    const clientIP = request.headers.get('x-client-ip')
-    
-    if (forwarded) {
-      return forwarded.split(',')[0].trim()
-    }
-    
-    return realIP || clientIP || 'unknown'
+    return getClientIP(request)
   }
 
   /**
    * Get IP reputation score
    */
-  static getIPReputation(ip: string): IPReputation {
-    if (!this.ipReputations.has(ip)) {
-      this.ipReputations.set(ip, {
-        score: 100, // Start with perfect score
-        violationCount: 0,
-        whitelisted: this.whitelistedIPs.has(ip),
-        blacklisted: this.blacklistedIPs.has(ip)
-      })
-    }
-    return this.ipReputations.get(ip)!
+  static async getIPReputation(ip: string): Promise<IPReputation> {
+    return ipReputationService.getReputation(ip)
   }
 
   /**
-   * Update IP reputation based on behavior
+   * Update IP reputation based on behavior. Scores recover with time,
+   * so only violations need recording.
    */
-  static updateIPReputation(ip: string, violation: boolean = false): void {
-    const reputation = this.getIPReputation(ip)
-    
+  static async updateIPReputation(ip: string, violation: boolean = false): Promise<void> {
     if (violation) {
-      reputation.violationCount++
-      reputation.lastViolation = Date.now()
-      // Decrease score based on violation severity
-      reputation.score = Math.max(0, reputation.score - (10 + reputation.violationCount * 2))
-      
-      // Auto-blacklist IPs with very low reputation
-      if (reputation.score <= 10 && reputation.violationCount >= 10) {
-        reputation.blacklisted = true
-        this.blacklistedIPs.add(ip)
-      }
-    } else {
-      // Slowly improve reputation for good behavior
-      reputation.score = Math.min(100, reputation.score + 0.5)
+      await ipReputationService.recordViolation(ip)
     }
-    
-    this.ipReputations.set(ip, reputation)
   }
 
   /**
@@ -258,7 +233,9 @@ export class RateLimiter {
   }
 
   /**
-   * Check rate limit for a request
+   * Check rate limit for a request. Every check counts as a hit; routes using a
+   * config with skipSuccessfulRequests give successful attempts back through
+   * recordAttempt.
    */
   static async checkRateLimit(
     request: NextRequest,
@@ -266,72 +243,75 @@ export class RateLimiter {
     config: RateLimitConfig
   ): Promise<RateLimitResult> {
     const now = new Date()
-    const windowStart = new Date(now.getTime() - config.windowMs)
-    const ipAddress = this.getClientIP(request)
+    const key = this.generateKey(request, identifier, config.keyGenerator)
 
-    try {
-      // Check if IP is currently blocked
-      const existingBlock = await prisma.loginAttempt.findFirst({
-        where: {
-          ipAddress,
-          success: false,
-          createdAt: {
-            gte: new Date(now.getTime() - (config.blockDurationMs || 0)),
-          },
-        },
-        orderBy: { createdAt: 'desc' },
-      })
+    this.configs.set(identifier, config)
 
-      // Count attempts in current window
-      const attempts = await prisma.loginAttempt.count({
-        where: {
-          ipAddress,
-          createdAt: { gte: windowStart },
-          ...(config.skipSuccessfulRequests ? { success: false } : {}),
-        },
-      })
+    try {
+      const store = getRateLimitStore()
+      const ipAddress = this.getClientIP(request)
+      const listEntry = await ipReputationService.getListEntry(ipAddress)
+
+      // Allowed IPs skip rate limits; denied IPs are blocked until the entry expires
+      if (listEntry?.list === 'allow') {
+        return {
+          allowed: true,
+          remaining: config.maxAttempts,
+          resetTime: new Date(now.getTime() + config.windowMs),
+          totalHits: 0,
+        }
+      }
 
-      const remaining = Math.max(0, config.maxAttempts - attempts)
-      const resetTime = new Date(windowStart.getTime() + config.windowMs)
+      if (listEntry?.list === 'deny') {
+        return {
+          allowed: false,
+          remaining: 0,
+          resetTime: listEntry.expiresAt || new Date(now.getTime() + config.windowMs),
+          totalHits: 0,
+          isBlocked: true,
+          blockExpiresAt: listEntry.expiresAt || undefined,
+        }
+      }
 
-      // Check if blocked
-      if (config.blockDurationMs && existingBlock) {
-        const blockCount = await prisma.loginAttempt.count({
-          where: {
-            ipAddress,
-            success: false,
-            createdAt: {
-              gte: new Date(existingBlock.createdAt.getTime() - config.windowMs),
-              lte: existingBlock.createdAt,
-            },
-          },
-        })
-
-        if (blockCount >= config.maxAttempts) {
-          const blockExpiresAt = new Date(
-            existingBlock.createdAt.getTime() + config.blockDurationMs
-          )
-
-          if (now < blockExpiresAt) {
-            return {
-              allowed: false,
-              remaining: 0,
-              resetTime: blockExpiresAt,
-              totalHits: attempts,
-              isBlocked: true,
-              blockExpiresAt,
-            }
-          }
+      // Check if the client is currently blocked
+      const blockExpiresAt = await store.getBlock(key)
+
+      if (blockExpiresAt) {
+        return {
+          allowed: false,
+          remaining: 0,
+          resetTime: blockExpiresAt,
+          totalHits: config.maxAttempts,
+          isBlocked: true,
+          blockExpiresAt,
         }
       }
 
-      const allowed = attempts < config.maxAttempts
+      const { allowed, remaining, resetTime, totalHits } = await this.hit(key, config)
+
+      if (!allowed) {
+        await this.recordViolation(store, key, ipAddress, config)
+      }
+
+      // Block for longer once the limit is exceeded, if the config asks for it
+      if (!allowed && config.blockDurationMs) {
+        const blockExpiresAt = await store.block(key, config.blockDurationMs)
+
+        return {
+          allowed: false,
+          remaining: 0,
+          resetTime: blockExpiresAt,
+          totalHits,
+          isBlocked: true,
+          blockExpiresAt,
+        }
+      }
 
       return {
         allowed,
         remaining,
         resetTime,
-        totalHits: attempts,
+        totalHits,
         isBlocked: false,
       }
     } catch (error) {
@@ -347,41 +327,104 @@ export class RateLimiter {
   }
 
   /**
-   * Record an attempt (for rate limiting)
+   * Count a hit with the config's algorithm
+   */
+  private static async hit(
+    key: string,
+    config: RateLimitConfig
+  ): Promise<{ allowed: boolean; remaining: number; resetTime: Date; totalHits: number }> {
+    const store = getRateLimitStore()
+
+    switch (config.algorithm) {
+      case 'token-bucket': {
+        const { allowed, tokens, resetTime } = await store.takeToken(
+          key,
+          config.maxAttempts,
+          this.getRefillRate(config)
+        )
+        return { allowed, remaining: tokens, resetTime, totalHits: config.maxAttempts - tokens }
+      }
+      case 'sliding-window-log': {
+        const { allowed, count, resetTime } = await store.logHit(key, config.windowMs, config.maxAttempts)
+        return { allowed, remaining: Math.max(0, config.maxAttempts - count), resetTime, totalHits: count }
+      }
+      default: {
+        const { count, resetTime } = await store.increment(key, config.windowMs)
+        return {
+          allowed: count <= config.maxAttempts,
+          remaining: Math.max(0, config.maxAttempts - count),
+          resetTime,
+          totalHits: count,
+        }
+      }
+    }
+  }
+
+  /**
+   * Lower the IP's reputation once per key and window, however many requests are rejected
+   */
+  private static async recordViolation(
+    store: RateLimitStore,
+    key: string,
+    ipAddress: string,
+    config: RateLimitConfig
+  ): Promise<void> {
+    const violationKey = `violation:${key}`
+
+    if (await store.getBlock(violationKey)) {
+      return
+    }
+
+    await store.block(violationKey, config.windowMs)
+    await this.updateIPReputation(ipAddress, true)
+  }
+
+  /**
+   * Tokens per second for a token-bucket config
+   */
+  private static getRefillRate(config: RateLimitConfig): number {
+    return config.refillRate ?? config.maxAttempts / (config.windowMs / 1000)
+  }
+
+  /**
+   * Record the outcome of a rate-limited attempt. Failures were already counted
+   * by checkRateLimit; a success is given back when the identifier's config has
+   * skipSuccessfulRequests. Authentication attempts are logged separately with
+   * authMiddleware.logAuthAttempt.
    */
   static async recordAttempt(
     request: NextRequest,
     identifier: string,
-    success: boolean,
-    metadata?: {
-      email?: string
-      username?: string
-      userId?: string
-      failReason?: string
-    }
+    success: boolean
   ): Promise<void> {
-    const ipAddress = this.getClientIP(request)
-    const userAgent = request.headers.get('user-agent') || undefined
+    const config = this.configs.get(identifier)
+
+    if (!success || !config?.skipSuccessfulRequests) {
+      return
+    }
+
+    const key = this.generateKey(request, identifier, config.keyGenerator)
+    const store = getRateLimitStore()
 
     try {
-      await prisma.loginAttempt.create({
-        data: {
-          ipAddress,
-          userAgent,
-          success,
-          email: metadata?.email,
-          username: metadata?.username,
-          userId: metadata?.userId,
-          failReason: metadata?.failReason,
-        },
-      })
+      switch (config.algorithm) {
+        case 'token-bucket':
+          await store.returnToken(key, config.maxAttempts, this.getRefillRate(config))
+          break
+        case 'sliding-window-log':
+          await store.removeHit(key)
+          break
+        default:
+          await store.decrement(key)
+      }
     } catch (error) {
       console.error('Failed to record attempt:', error)
     }
   }
 
   /**
-   * Clean up old rate limit records
+   * Clean up old login attempt records and expired IP list entries
+   * (store counters expire on their own)
    */
   static async cleanup(olderThanMs: number = 24 * 60 * 60 * 1000): Promise<void> {
     const cutoff = new Date(Date.now() - olderThanMs)
@@ -392,13 +435,14 @@ export class RateLimiter {
           createdAt: { lt: cutoff },
         },
       })
+      await ipReputationService.purgeExpired()
     } catch (error) {
       console.error('Rate limit cleanup failed:', error)
     }
   }
 
   /**
-   * Get rate limit stats for an IP
+   * Get login attempt stats for an IP
    */
   static async getStats(
     request: NextRequest,
@@ -523,10 +567,18 @@ export class RateLimiter {
    * Whitelist an IP address (remove from rate limiting)
    */
   static async whitelistIP(
-    ipAddress: string,
-    reason: string = 'Manual whitelist'
+    ip: string,
+    reason: string = 'Manual whitelist',
+    actorId?: string
   ): Promise<void> {
+    const ipAddress = canonicalizeIP(ip) || ip
+
     try {
+      await ipReputationService.setEntry(ipAddress, 'allow', { reason, actorId })
+
+      // Clear counters and blocks for this IP under every identifier
+      await getRateLimitStore().reset(`*:${ipAddress}`)
+
       // Remove recent failed attempts for this IP
       await prisma.loginAttempt.deleteMany({
         where: {
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createHash, randomBytes } from 'crypto'
+import { ipReputationService } from '../lib/ip-reputation-service'
+import { authMiddleware } from './auth'
 
 // Security configuration
 export interface SecurityConfig {
@@ -11,6 +13,7 @@ export interface SecurityConfig {
   enableFrameOptions?: boolean
   enableContentTypeOptions?: boolean
   enableReferrerPolicy?: boolean
+  enableIPDenyList?: boolean
   trustedDomains?: string[]
   csrfExemptPaths?: string[]
 }
@@ -24,6 +27,7 @@ const DEFAULT_SECURITY_CONFIG: SecurityConfig = {
   enableFrameOptions: true,
   enableContentTypeOptions: true,
   enableReferrerPolicy: true,
+  enableIPDenyList: true,
   trustedDomains: [
     'https://nuxtjs-frontend.vercel.app',
     'https://nextjs-backend-flame.vercel.app',
@@ -57,6 +61,21 @@ export class SecurityMiddleware {
       return this.redirectToHttps(request)
     }
 
+    // Refuse clients on the deny list (single addresses or CIDR blocks)
+    if (this.config.enableIPDenyList && await this.isIPDenied(request)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: 'IP_DENIED',
+            message: 'Access denied',
+            timestamp: new Date().toISOString()
+          }
+        },
+        { status: 403 }
+      )
+    }
+
     // Apply security headers
     this.setSecurityHeaders(response)
 
@@ -258,6 +277,20 @@ export class SecurityMiddleware {
     }
   }
 
+  /**
+   * Check whether the client IP falls under a deny list entry
+   */
+  private async isIPDenied(request: NextRequest): Promise<boolean> {
+    try {
+      const entry = await ipReputationService.getListEntry(authMiddleware.getClientIP(request))
+      return entry?.list === 'deny'
+    } catch (error) {
+      // Fail open; the rate limiter still applies
+      console.error('IP deny list check error:', error)
+      return false
+    }
+  }
+
   /**
    * Validate request origin
    */
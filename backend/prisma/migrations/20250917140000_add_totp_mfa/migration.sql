@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "totpEnabledAt" TIMESTAMP(3),
+ADD COLUMN     "totpLastUsedStep" INTEGER,
+ADD COLUMN     "totpSecret" TEXT;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."webauthn_challenges" (
+    "id" TEXT NOT NULL,
+    "challenge" TEXT NOT NULL,
+    "ceremony" TEXT NOT NULL,
+    "userId" TEXT,
+    "sessionKey" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "webauthn_challenges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "webauthn_challenges_ceremony_userId_idx" ON "public"."webauthn_challenges"("ceremony", "userId");
+
+-- CreateIndex
+CREATE INDEX "webauthn_challenges_ceremony_sessionKey_idx" ON "public"."webauthn_challenges"("ceremony", "sessionKey");
+
+-- CreateIndex
+CREATE INDEX "webauthn_challenges_expiresAt_idx" ON "public"."webauthn_challenges"("expiresAt");
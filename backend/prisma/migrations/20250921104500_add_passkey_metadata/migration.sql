@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."webauthn_credentials" ADD COLUMN     "aaguid" TEXT,
+ADD COLUMN     "cloneDetectedAt" TIMESTAMP(3),
+ADD COLUMN     "lastUsedAt" TIMESTAMP(3),
+ADD COLUMN     "name" TEXT;
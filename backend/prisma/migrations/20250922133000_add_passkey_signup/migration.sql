@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."webauthn_challenges" ADD COLUMN     "data" TEXT;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."signing_keys" (
+    "id" TEXT NOT NULL,
+    "kid" TEXT NOT NULL,
+    "algorithm" TEXT NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "privateKey" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "retiredAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "signing_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "signing_keys_kid_key" ON "public"."signing_keys"("kid");
+
+-- CreateIndex
+CREATE INDEX "signing_keys_status_idx" ON "public"."signing_keys"("status");
+
+-- CreateIndex
+CREATE INDEX "signing_keys_expiresAt_idx" ON "public"."signing_keys"("expiresAt");
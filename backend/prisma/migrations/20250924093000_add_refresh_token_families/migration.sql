@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "public"."refresh_tokens" ADD COLUMN     "familyId" TEXT,
+ADD COLUMN     "rotatedAt" TIMESTAMP(3),
+ADD COLUMN     "sessionId" TEXT;
+
+-- Existing tokens each start their own family
+UPDATE "public"."refresh_tokens" SET "familyId" = "id" WHERE "familyId" IS NULL;
+
+-- AlterTable
+ALTER TABLE "public"."refresh_tokens" ALTER COLUMN "familyId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_familyId_idx" ON "public"."refresh_tokens"("familyId");
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_sessionId_idx" ON "public"."refresh_tokens"("sessionId");
+
+-- AddForeignKey
+ALTER TABLE "public"."refresh_tokens" ADD CONSTRAINT "refresh_tokens_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "public"."sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."sessions" DROP COLUMN "deviceInfo",
+ADD COLUMN     "browserName" TEXT,
+ADD COLUMN     "browserVersion" TEXT,
+ADD COLUMN     "deviceType" TEXT NOT NULL DEFAULT 'unknown',
+ADD COLUMN     "isBot" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "osName" TEXT,
+ADD COLUMN     "osVersion" TEXT;
@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "public"."ip_reputations" (
+    "id" TEXT NOT NULL,
+    "ipAddress" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL DEFAULT 100,
+    "violationCount" INTEGER NOT NULL DEFAULT 0,
+    "lastViolationAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ip_reputations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ip_list_entries" (
+    "id" TEXT NOT NULL,
+    "ipAddress" TEXT NOT NULL,
+    "list" TEXT NOT NULL,
+    "reason" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ip_list_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ip_list_changes" (
+    "id" TEXT NOT NULL,
+    "ipAddress" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "list" TEXT NOT NULL,
+    "reason" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "actorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ip_list_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ip_reputations_ipAddress_key" ON "public"."ip_reputations"("ipAddress");
+
+-- CreateIndex
+CREATE INDEX "ip_reputations_score_idx" ON "public"."ip_reputations"("score");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ip_list_entries_ipAddress_key" ON "public"."ip_list_entries"("ipAddress");
+
+-- CreateIndex
+CREATE INDEX "ip_list_entries_list_idx" ON "public"."ip_list_entries"("list");
+
+-- CreateIndex
+CREATE INDEX "ip_list_entries_expiresAt_idx" ON "public"."ip_list_entries"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "ip_list_changes_ipAddress_createdAt_idx" ON "public"."ip_list_changes"("ipAddress", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."ip_list_changes" ADD CONSTRAINT "ip_list_changes_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."audit_events" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "actorId" TEXT,
+    "targetId" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_events_targetId_createdAt_idx" ON "public"."audit_events"("targetId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_events_actorId_createdAt_idx" ON "public"."audit_events"("actorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_events_type_createdAt_idx" ON "public"."audit_events"("type", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_events_createdAt_idx" ON "public"."audit_events"("createdAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."sessions" ADD COLUMN     "impersonatorId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "sessions_impersonatorId_idx" ON "public"."sessions"("impersonatorId");
@@ -0,0 +1,88 @@
+-- CreateTable
+CREATE TABLE "public"."roles" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isSystem" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "roles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."permissions" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "permissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."role_permissions" (
+    "roleId" TEXT NOT NULL,
+    "permissionId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "role_permissions_pkey" PRIMARY KEY ("roleId","permissionId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "roles_name_key" ON "public"."roles"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "permissions_name_key" ON "public"."permissions"("name");
+
+-- CreateIndex
+CREATE INDEX "role_permissions_permissionId_idx" ON "public"."role_permissions"("permissionId");
+
+-- CreateIndex
+CREATE INDEX "users_role_idx" ON "public"."users"("role");
+
+-- AddForeignKey
+ALTER TABLE "public"."role_permissions" ADD CONSTRAINT "role_permissions_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "public"."roles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."role_permissions" ADD CONSTRAINT "role_permissions_permissionId_fkey" FOREIGN KEY ("permissionId") REFERENCES "public"."permissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the default role set (kept in sync with DEFAULT_ROLES in lib/permissions.ts by prisma/seed.ts)
+INSERT INTO "public"."roles" ("id", "name", "description", "isSystem", "updatedAt") VALUES
+    ('role_user', 'user', 'Regular account', true, CURRENT_TIMESTAMP),
+    ('role_admin', 'admin', 'Support and moderation', true, CURRENT_TIMESTAMP),
+    ('role_super_admin', 'super_admin', 'Full access, including role assignment', true, CURRENT_TIMESTAMP);
+
+INSERT INTO "public"."permissions" ("id", "name", "description") VALUES
+    ('perm_admin_access', 'admin:access', 'Admin dashboard and statistics'),
+    ('perm_users_read', 'users:read', 'List and inspect users'),
+    ('perm_users_update', 'users:update', 'Lock, unlock, sign out and reset passwords of users'),
+    ('perm_users_impersonate', 'users:impersonate', 'Act as a user for support'),
+    ('perm_roles_assign', 'roles:assign', 'Change roles and manage users who hold any permission'),
+    ('perm_audit_read', 'audit:read', 'Query the audit log'),
+    ('perm_ip_lists_manage', 'ip_lists:manage', 'Manage IP allow/deny lists'),
+    ('perm_jwt_keys_manage', 'jwt_keys:manage', 'Rotate JWT signing keys');
+
+INSERT INTO "public"."role_permissions" ("roleId", "permissionId") VALUES
+    ('role_admin', 'perm_admin_access'),
+    ('role_admin', 'perm_users_read'),
+    ('role_admin', 'perm_users_update'),
+    ('role_admin', 'perm_users_impersonate'),
+    ('role_admin', 'perm_audit_read'),
+    ('role_admin', 'perm_ip_lists_manage'),
+    ('role_admin', 'perm_jwt_keys_manage'),
+    ('role_super_admin', 'perm_admin_access'),
+    ('role_super_admin', 'perm_users_read'),
+    ('role_super_admin', 'perm_users_update'),
+    ('role_super_admin', 'perm_users_impersonate'),
+    ('role_super_admin', 'perm_roles_assign'),
+    ('role_super_admin', 'perm_audit_read'),
+    ('role_super_admin', 'perm_ip_lists_manage'),
+    ('role_super_admin', 'perm_jwt_keys_manage');
+
+-- Older code paths stored upper-case roles; anything unknown becomes a regular user
+UPDATE "public"."users" SET "role" = LOWER("role") WHERE "role" IN ('USER', 'ADMIN', 'SUPER_ADMIN');
+UPDATE "public"."users" SET "role" = 'user' WHERE "role" NOT IN (SELECT "name" FROM "public"."roles");
+
+-- AddForeignKey
+ALTER TABLE "public"."users" ADD CONSTRAINT "users_role_fkey" FOREIGN KEY ("role") REFERENCES "public"."roles"("name") ON DELETE RESTRICT ON UPDATE CASCADE;
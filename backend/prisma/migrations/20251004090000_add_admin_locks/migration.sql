@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "adminLockedAt" TIMESTAMP(3),
+ADD COLUMN     "lockReason" TEXT;
+
+-- Automatic lockouts always expire, so open-ended locks were set by an admin
+UPDATE "public"."users" SET "adminLockedAt" = "updatedAt" WHERE "isLocked" = true AND "lockedUntil" IS NULL;
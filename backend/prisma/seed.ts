@@ -1,9 +1,44 @@
 import { PrismaClient } from '@prisma/client'
 import bcrypt from 'bcryptjs'
+import { PERMISSIONS, PERMISSION_DESCRIPTIONS, DEFAULT_ROLES } from '../lib/permissions'
 
 const prisma = new PrismaClient()
 
+/**
+ * Create missing permissions and default roles and grant each default role its
+ * permissions. Permissions added to a role by hand are left in place.
+ */
+async function seedRoles() {
+  for (const name of PERMISSIONS) {
+    await prisma.permission.upsert({
+      where: { name },
+      update: { description: PERMISSION_DESCRIPTIONS[name] },
+      create: { name, description: PERMISSION_DESCRIPTIONS[name] },
+    })
+  }
+
+  const permissions = await prisma.permission.findMany()
+  const permissionIds = new Map(permissions.map(permission => [permission.name, permission.id]))
+
+  for (const definition of DEFAULT_ROLES) {
+    const role = await prisma.role.upsert({
+      where: { name: definition.name },
+      update: { description: definition.description, isSystem: true },
+      create: { name: definition.name, description: definition.description, isSystem: true },
+    })
+
+    await prisma.rolePermission.createMany({
+      data: definition.permissions.map(name => ({ roleId: role.id, permissionId: permissionIds.get(name)! })),
+      skipDuplicates: true,
+    })
+
+    console.log(`Seeded role ${definition.name} with ${definition.permissions.length} permissions`)
+  }
+}
+
 async function main() {
+  await seedRoles()
+
   // Create default admin user
   const hashedPassword = await bcrypt.hash('admin123', 12)
   
@@ -12,9 +47,10 @@ async function main() {
     update: {},
     create: {
       email: 'admin@example.com',
+      emailVerifiedAt: new Date(),
       username: 'admin',
       password: hashedPassword,
-      role: 'admin',
+      role: 'super_admin',
     },
   })
 
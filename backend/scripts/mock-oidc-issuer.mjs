@@ -0,0 +1,141 @@
+// Minimal OpenID Connect issuer for local testing of /api/auth/oidc/*.
+// Every authorization request is approved immediately for a fixed test user.
+//
+//   node scripts/mock-oidc-issuer.mjs
+//
+//   OIDC_PROVIDERS=mock
+//   OIDC_MOCK_ISSUER=http://localhost:4010
+//   OIDC_MOCK_CLIENT_ID=mock-client
+//   OIDC_MOCK_CLIENT_SECRET=mock-secret
+import http from 'node:http'
+import { randomBytes, createHash } from 'node:crypto'
+import { SignJWT, generateKeyPair, exportJWK } from 'jose'
+
+const PORT = Number(process.env.MOCK_OIDC_PORT || 4010)
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'mock-client'
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || 'mock-secret'
+const TEST_USER = {
+  sub: process.env.MOCK_OIDC_SUB || 'mock-user-1',
+  email: process.env.MOCK_OIDC_EMAIL || 'oidc-user@example.com',
+  email_verified: process.env.MOCK_OIDC_EMAIL_VERIFIED !== 'false',
+  name: 'OIDC Test User',
+  preferred_username: 'oidc_test_user',
+}
+
+const { publicKey, privateKey } = await generateKeyPair('RS256')
+const jwk = { ...(await exportJWK(publicKey)), kid: 'mock-key', alg: 'RS256', use: 'sig' }
+
+const pendingCodes = new Map() // code -> authorization request
+const accessTokens = new Set()
+
+function sendJSON(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' })
+  res.end(JSON.stringify(body))
+}
+
+async function readForm(req) {
+  let body = ''
+  for await (const chunk of req) body += chunk
+  return new URLSearchParams(body)
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER)
+
+  try {
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return sendJSON(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        userinfo_endpoint: `${ISSUER}/userinfo`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+      })
+    }
+
+    if (url.pathname === '/jwks') {
+      return sendJSON(res, 200, { keys: [jwk] })
+    }
+
+    if (url.pathname === '/authorize') {
+      const params = url.searchParams
+      if (params.get('client_id') !== CLIENT_ID || params.get('code_challenge_method') !== 'S256') {
+        return sendJSON(res, 400, { error: 'invalid_request' })
+      }
+
+      const code = randomBytes(16).toString('base64url')
+      pendingCodes.set(code, {
+        redirectUri: params.get('redirect_uri'),
+        codeChallenge: params.get('code_challenge'),
+        nonce: params.get('nonce'),
+      })
+
+      const redirect = new URL(params.get('redirect_uri'))
+      redirect.searchParams.set('code', code)
+      redirect.searchParams.set('state', params.get('state') || '')
+      res.writeHead(302, { Location: redirect.toString() })
+      return res.end()
+    }
+
+    if (url.pathname === '/token' && req.method === 'POST') {
+      const form = await readForm(req)
+      const pending = pendingCodes.get(form.get('code'))
+      pendingCodes.delete(form.get('code'))
+
+      const verifierHash = createHash('sha256').update(form.get('code_verifier') || '').digest('base64url')
+
+      if (
+        !pending ||
+        form.get('client_id') !== CLIENT_ID ||
+        form.get('client_secret') !== CLIENT_SECRET ||
+        form.get('redirect_uri') !== pending.redirectUri ||
+        verifierHash !== pending.codeChallenge
+      ) {
+        return sendJSON(res, 400, { error: 'invalid_grant' })
+      }
+
+      const accessToken = randomBytes(24).toString('base64url')
+      accessTokens.add(accessToken)
+
+      const idToken = await new SignJWT({ ...TEST_USER, nonce: pending.nonce || undefined })
+        .setProtectedHeader({ alg: 'RS256', kid: jwk.kid })
+        .setIssuer(ISSUER)
+        .setAudience(CLIENT_ID)
+        .setSubject(TEST_USER.sub)
+        .setIssuedAt()
+        .setExpirationTime('5m')
+        .sign(privateKey)
+
+      return sendJSON(res, 200, {
+        access_token: accessToken,
+        token_type: 'Bearer',
+        expires_in: 300,
+        id_token: idToken,
+      })
+    }
+
+    if (url.pathname === '/userinfo') {
+      const token = (req.headers.authorization || '').replace(/^Bearer /, '')
+      if (!accessTokens.has(token)) {
+        return sendJSON(res, 401, { error: 'invalid_token' })
+      }
+      return sendJSON(res, 200, TEST_USER)
+    }
+
+    sendJSON(res, 404, { error: 'not_found' })
+  } catch (error) {
+    console.error('Mock issuer error:', error)
+    sendJSON(res, 500, { error: 'server_error' })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`🔐 Mock OIDC issuer running at ${ISSUER}`)
+  console.log(`   client_id=${CLIENT_ID} client_secret=${CLIENT_SECRET}`)
+  console.log(`   signs in as ${TEST_USER.email} (sub ${TEST_USER.sub})`)
+})
@@ -0,0 +1,60 @@
+// Minimal webhook receiver for local testing of /api/admin/webhooks/*.
+// Verifies signatures and prints every event it receives.
+//
+//   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.mjs
+//
+// Register http://localhost:4020/webhooks as an endpoint, then use the
+// secret from the response. Set WEBHOOK_RECEIVER_STATUS=500 to answer with
+// an error and watch deliveries being retried.
+import http from 'node:http'
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+const PORT = Number(process.env.WEBHOOK_RECEIVER_PORT || 4020)
+const SECRET = process.env.WEBHOOK_SECRET || ''
+const RESPONSE_STATUS = Number(process.env.WEBHOOK_RECEIVER_STATUS || 200)
+const TOLERANCE_SECONDS = 5 * 60 // Reject old timestamps to prevent replayed requests
+
+const seenEvents = new Set()
+
+function sendJSON(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+function verifySignature(body, timestamp, signature) {
+  if (!SECRET) return true
+  if (!timestamp || !signature) return false
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > TOLERANCE_SECONDS) return false
+
+  const expected = `v1=${createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex')}`
+  return expected.length === signature.length && timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method !== 'POST') {
+    return sendJSON(res, 405, { error: 'method_not_allowed' })
+  }
+
+  let body = ''
+  for await (const chunk of req) body += chunk
+
+  const eventId = req.headers['x-webhook-id']
+  const valid = verifySignature(body, req.headers['x-webhook-timestamp'], req.headers['x-webhook-signature'])
+  const duplicate = seenEvents.has(eventId)
+
+  console.log(`\n${new Date().toISOString()} ${req.headers['x-webhook-event']} ${eventId}`)
+  console.log(`   signature ${SECRET ? (valid ? 'valid' : 'INVALID') : 'not checked (WEBHOOK_SECRET unset)'}${duplicate ? ', duplicate event' : ''}`)
+  console.log(`   ${body}`)
+
+  if (!valid) {
+    return sendJSON(res, 401, { error: 'invalid_signature' })
+  }
+
+  seenEvents.add(eventId)
+  sendJSON(res, RESPONSE_STATUS, { received: true })
+})
+
+server.listen(PORT, () => {
+  console.log(`📬 Webhook receiver listening at http://localhost:${PORT}/webhooks`)
+  console.log(`   responding with ${RESPONSE_STATUS}${SECRET ? '' : ', WEBHOOK_SECRET not set so signatures are not checked'}`)
+})
@@ -118,3 +118,77 @@ export function getPasswordResetEmailHtml(token: string) {
     </div>
   `
 }
+
+export function getOrganizationInvitationEmailHtml(token: string, organizationName: string, inviterName: string) {
+  const acceptUrl = `${process.env.NEXTAUTH_URL}/organizations/accept-invitation?token=${token}`
+  
+  return `
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <div style="background: linear-gradient(135deg, #43cea2 0%, #185a9d 100%); padding: 30px; text-align: center; color: white;">
+        <h1 style="margin: 0; font-size: 28px;">You're Invited</h1>
+      </div>
+      
+      <div style="padding: 30px; background: #f9f9f9;">
+        <h2 style="color: #333; margin-bottom: 20px;">Join ${organizationName}</h2>
+        <p style="color: #666; line-height: 1.6; margin-bottom: 25px;">
+          ${inviterName} invited you to join ${organizationName}. Sign in with this email address and click the button below to accept:
+        </p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${acceptUrl}" 
+             style="background: #185a9d; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block;">
+            Accept Invitation
+          </a>
+        </div>
+        
+        <p style="color: #999; font-size: 14px; margin-top: 30px;">
+          If the button doesn't work, copy and paste this link into your browser:
+        </p>
+        <p style="color: #185a9d; word-break: break-all; font-size: 14px;">
+          ${acceptUrl}
+        </p>
+        
+        <p style="color: #999; font-size: 12px; margin-top: 40px; border-top: 1px solid #eee; padding-top: 20px;">
+          This invitation will expire in 7 days. If you weren't expecting it, please ignore this email.
+        </p>
+      </div>
+    </div>
+  `
+}
+
+export function getMagicLinkEmailHtml(token: string) {
+  const loginUrl = `${process.env.NEXTAUTH_URL}/auth/magic-link?token=${token}`
+  
+  return `
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center; color: white;">
+        <h1 style="margin: 0; font-size: 28px;">Sign In</h1>
+      </div>
+      
+      <div style="padding: 30px; background: #f9f9f9;">
+        <h2 style="color: #333; margin-bottom: 20px;">Your Sign-In Link</h2>
+        <p style="color: #666; line-height: 1.6; margin-bottom: 25px;">
+          Click the button below to sign in. Open it in the same browser where you requested it:
+        </p>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${loginUrl}" 
+             style="background: #4f46e5; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; display: inline-block;">
+            Sign In
+          </a>
+        </div>
+        
+        <p style="color: #999; font-size: 14px; margin-top: 30px;">
+          If the button doesn't work, copy and paste this link into your browser:
+        </p>
+        <p style="color: #4f46e5; word-break: break-all; font-size: 14px;">
+          ${loginUrl}
+        </p>
+        
+        <p style="color: #999; font-size: 12px; margin-top: 40px; border-top: 1px solid #eee; padding-top: 20px;">
+          This link will expire in 15 minutes and can only be used once. If you didn't request it, please ignore this email.
+        </p>
+      </div>
+    </div>
+  `
+}
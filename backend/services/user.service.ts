@@ -1,8 +1,29 @@
 import { prisma } from '../lib/prisma'
+import { permissionService } from '../lib/permission-service'
+import { DEFAULT_ROLE } from '../lib/permissions'
 import * as bcrypt from 'bcryptjs'
-import type { User } from '@prisma/client'
+import type { Prisma, User } from '@prisma/client'
 
-export type UserWithoutPassword = Omit<User, 'password'>
+// Fields that are safe to return from the API; never the password hash or TOTP secret
+const publicUserSelect = {
+  id: true,
+  email: true,
+  emailVerifiedAt: true,
+  username: true,
+  role: true,
+  profilePicture: true,
+  lastLoginAt: true,
+  loginCount: true,
+  isLocked: true,
+  lockedUntil: true,
+  adminLockedAt: true,
+  lockReason: true,
+  totpEnabledAt: true,
+  createdAt: true,
+  updatedAt: true
+} as const
+
+export type PublicUser = Prisma.UserGetPayload<{ select: typeof publicUserSelect }>
 
 export class PrismaUserService {
   static async findById(id: string): Promise<User | null> {
@@ -28,7 +49,7 @@ export class PrismaUserService {
     username: string
     password: string
     role?: string
-  }): Promise<UserWithoutPassword> {
+  }): Promise<PublicUser> {
     const hashedPassword = await bcrypt.hash(userData.password, 12)
     
     const user = await prisma.user.create({
@@ -36,13 +57,12 @@ export class PrismaUserService {
         email: userData.email,
         username: userData.username,
         password: hashedPassword,
-        role: userData.role || 'user'
-      }
+        role: userData.role || DEFAULT_ROLE
+      },
+      select: publicUserSelect
     })
 
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { password: _, ...userWithoutPassword } = user
-    return userWithoutPassword
+    return user
   }
 
   static async updateUser(id: string, updates: Partial<{
@@ -51,7 +71,7 @@ export class PrismaUserService {
     password: string
     role: string
     profilePicture: string
-  }>): Promise<UserWithoutPassword | null> {
+  }>): Promise<PublicUser | null> {
     const updateData: Partial<User> = { ...updates }
     
     // Hash password if it's being updated
@@ -60,14 +80,11 @@ export class PrismaUserService {
     }
 
     try {
-      const user = await prisma.user.update({
+      return await prisma.user.update({
         where: { id },
-        data: updateData
+        data: updateData,
+        select: publicUserSelect
       })
-
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { password: _, ...userWithoutPassword } = user
-      return userWithoutPassword
     } catch {
       return null
     }
@@ -96,9 +113,14 @@ export class PrismaUserService {
     adminUsers: number
     regularUsers: number
   }> {
+    // Anyone whose role grants a permission counts as an admin
+    const privilegedRoles = (await permissionService.listRoles())
+      .filter(role => role.permissions.length > 0)
+      .map(role => role.name)
+
     const [totalUsers, adminUsers] = await Promise.all([
       prisma.user.count(),
-      prisma.user.count({ where: { role: 'admin' } })
+      prisma.user.count({ where: { role: { in: privilegedRoles } } })
     ])
 
     return {
@@ -108,22 +130,47 @@ export class PrismaUserService {
     }
   }
 
-  static async getAllUsers(): Promise<UserWithoutPassword[]> {
-    const users = await prisma.user.findMany({
-      select: {
-        id: true,
-        email: true,
-        username: true,
-        role: true,
-        profilePicture: true,
-        lastLoginAt: true,
-        loginCount: true,
-        isLocked: true,
-        lockedUntil: true,
-        createdAt: true,
-        updatedAt: true
-      }
+  /**
+   * One page of users, newest first, optionally filtered by role, lock state
+   * and a search on email or username
+   */
+  static async listUsers(options: {
+    page: number
+    limit: number
+    search?: string
+    role?: string
+    locked?: boolean
+  }): Promise<{ users: PublicUser[]; total: number }> {
+    const where = {
+      ...(options.search
+        ? {
+            OR: [
+              { email: { contains: options.search, mode: 'insensitive' as const } },
+              { username: { contains: options.search, mode: 'insensitive' as const } },
+            ],
+          }
+        : {}),
+      ...(options.role ? { role: options.role } : {}),
+      ...(options.locked !== undefined ? { isLocked: options.locked } : {}),
+    }
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: publicUserSelect,
+        orderBy: { createdAt: 'desc' },
+        skip: (options.page - 1) * options.limit,
+        take: options.limit
+      }),
+      prisma.user.count({ where })
+    ])
+
+    return { users, total }
+  }
+
+  static async getAllUsers(): Promise<PublicUser[]> {
+    return await prisma.user.findMany({
+      select: publicUserSelect
     })
-    return users
   }
 }
\ No newline at end of file
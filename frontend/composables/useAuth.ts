@@ -4,7 +4,8 @@ interface User {
   id: string
   email: string
   name?: string
-  role: 'USER' | 'ADMIN'
+  role: string // Role name, e.g. 'user' or 'admin'
+  permissions?: string[]
   emailVerified: boolean
   profileImage?: string
   createdAt: Date | string
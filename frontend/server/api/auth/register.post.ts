@@ -39,7 +39,8 @@ export default defineEventHandler(async (event) => {
       id: Date.now().toString(),
       email,
       name: name || email.split('@')[0],
-      role: 'USER' as const,
+      role: 'user',
+      permissions: [] as string[],
       emailVerified: false,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
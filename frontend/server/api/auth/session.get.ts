@@ -7,7 +7,8 @@ export default defineEventHandler(async (event) => {
       id: '1',
       email: 'demo@example.com',
       name: 'Demo User',
-      role: 'USER' as const,
+      role: 'user',
+      permissions: [] as string[],
       emailVerified: true,
       profileImage: 'https://api.dicebear.com/7.x/avataaars/svg?seed=demo&backgroundColor=b6e3f4',
       createdAt: new Date().toISOString(),
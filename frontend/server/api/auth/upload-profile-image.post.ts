@@ -28,7 +28,8 @@ export default defineEventHandler(async (event) => {
       id: userId,
       email: 'demo@example.com',
       name: 'Demo User',
-      role: 'USER' as const,
+      role: 'user',
+      permissions: [] as string[],
       emailVerified: true,
       profileImage: mockImageUrl,
       createdAt: new Date().toISOString(),
@@ -6,7 +6,8 @@ export interface User {
   name?: string
   emailVerified?: Date
   image?: string
-  role: 'USER' | 'ADMIN'
+  role: string // Role name, e.g. 'user' or 'admin'
+  permissions?: string[]
   createdAt: Date
   updatedAt: Date
 }
@@ -16,6 +17,14 @@ export interface Session {
   expires: Date
 }
 
+export interface Organization {
+  id: string
+  name: string
+  slug: string
+  role: 'owner' | 'admin' | 'member' // The current user's role in the organization
+  joinedAt: Date
+}
+
 export interface AuthCredentials {
   email: string
   password: string
@@ -74,6 +83,18 @@ export const API_ENDPOINTS = {
   FORGOT_PASSWORD: '/api/auth/forgot-password',
   RESET_PASSWORD: '/api/auth/reset-password',
   
+  // Magic link login
+  MAGIC_LINK: '/api/auth/magic-link',
+  VERIFY_MAGIC_LINK: '/api/auth/magic-link/verify',
+  
+  // Organizations
+  ORGANIZATIONS: '/api/organizations',
+  ACCEPT_INVITATION: '/api/organizations/invitations/accept',
+  SWITCH_ORGANIZATION: '/api/auth/switch-organization',
+  
+  // API keys
+  API_KEYS: '/api/auth/api-keys',
+  
   // Admin
   ADMIN_USERS: '/api/admin/users',
   ADMIN_USER_ROLE: '/api/admin/users',